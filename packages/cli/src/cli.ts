@@ -0,0 +1,131 @@
+import { parseArgs } from "node:util";
+
+import * as commands from "./commands";
+import { type ConnectionOptions, connect } from "./config";
+import { createPrinter } from "./output";
+
+export const USAGE = `Usage: kasraffle <command> [options]
+
+Reads:
+  status                             Current round, timer, pot, config and treasury
+  round <id>                         One round's summary
+  participants <id> [--csv]          Every participant and their tickets
+  winners <id>                       Winners, winning tickets and prizes per tier
+  params get                         On-chain parameters as a preset JSON file
+
+Writes (sign with --keystore or KASRAFFLE_PRIVATE_KEY):
+  buy --tickets <n>                  Buy n tickets at the current price
+  close [--gas <n>]                  Close the current round once its timer has run out
+  finalize [--steps <n>] [--gas <n>] Assign winners, n per transaction (default 500)
+  refund <id> [--steps <n>]          Pay out a refunding round, n participants per transaction
+  claim <id> | claim --all           Claim a prize, or every unclaimed prize of the signer
+
+Owner:
+  params set <preset.json> [--force] Send setParams from a preset file; --force overrides round-impact errors
+  fees withdraw [--amount <kas>]     Send accrued fees (all by default) to the fee vault
+  pause | unpause
+  sweep --to <address> --amount <kas>  Send balance above liabilities to an address
+
+Options:
+  --network testnet|mainnet  Deployment to use (default KASRAFFLE_NETWORK or testnet)
+  --rpc-url <url>            Override the configured RPC
+  --address <address>        Override the configured KASRaffle address
+  --env-file <path>          Load settings from this file (default packages/next/.env.local)
+  --keystore <path>          Encrypted JSON keystore to sign with (or KASRAFFLE_KEYSTORE)
+  --password-file <path>     Keystore password (or KASRAFFLE_KEYSTORE_PASSWORD)
+  --dry-run                  Simulate writes as the signer without sending them
+  --json                     Machine-readable output; amounts are wei as decimal strings
+  -h, --help                 Show this help`;
+
+const SIGNING = new Set(["buy", "close", "finalize", "refund", "claim", "fees", "pause", "unpause", "sweep"]);
+
+export async function main(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      network: { type: "string" },
+      "rpc-url": { type: "string" },
+      address: { type: "string" },
+      "env-file": { type: "string", multiple: true },
+      keystore: { type: "string" },
+      "password-file": { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+      tickets: { type: "string" },
+      steps: { type: "string" },
+      gas: { type: "string" },
+      amount: { type: "string" },
+      to: { type: "string" },
+      csv: { type: "boolean", default: false },
+      all: { type: "boolean", default: false },
+      force: { type: "boolean", default: false }
+    }
+  });
+
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const options: ConnectionOptions = {
+    network: values.network,
+    rpcUrl: values["rpc-url"],
+    address: values.address,
+    keystore: values.keystore,
+    passwordFile: values["password-file"]
+  };
+  const signer = SIGNING.has(command) || (command === "params" && rest[0] === "set");
+  const ctx: commands.Context = {
+    connection: await connect(options, { signer }),
+    printer: createPrinter(values.json),
+    dryRun: values["dry-run"]
+  };
+
+  switch (command) {
+    case "status":
+      return commands.status(ctx);
+    case "round":
+      return commands.round(ctx, commands.parseRoundId(rest[0]));
+    case "participants":
+      return commands.participants(ctx, commands.parseRoundId(rest[0]), values.csv);
+    case "winners":
+      return commands.winners(ctx, commands.parseRoundId(rest[0]));
+    case "buy":
+      return commands.buy(ctx, commands.parseCount(values.tickets, "--tickets"));
+    case "close":
+      return commands.close(ctx, values.gas);
+    case "finalize":
+      return commands.finalize(ctx, commands.parseCount(values.steps, "--steps", commands.DEFAULT_STEPS), values.gas);
+    case "refund":
+      return commands.refund(
+        ctx,
+        commands.parseRoundId(rest[0]),
+        commands.parseCount(values.steps, "--steps", commands.DEFAULT_STEPS),
+        values.gas
+      );
+    case "claim":
+      if (values.all === (rest[0] !== undefined)) throw new Error("claim takes a round id or --all");
+      return commands.claim(ctx, values.all ? undefined : commands.parseRoundId(rest[0]));
+    case "params":
+      if (rest[0] === "get") return commands.paramsGet(ctx);
+      if (rest[0] === "set") return commands.paramsSet(ctx, rest[1], values.force);
+      throw new Error("Usage: kasraffle params get | params set <preset.json>");
+    case "fees":
+      if (rest[0] === "withdraw") return commands.feesWithdraw(ctx, values.amount);
+      throw new Error("Usage: kasraffle fees withdraw [--amount <kas>]");
+    case "pause":
+    case "unpause":
+      return commands.setPaused(ctx, command === "pause");
+    case "sweep":
+      return commands.sweep(
+        ctx,
+        commands.parseAddress(values.to, "--to"),
+        commands.parseKas(values.amount, "--amount")
+      );
+    default:
+      throw new Error(`Unknown command "${command}". Run kasraffle --help for the list.`);
+  }
+}
@@ -0,0 +1,413 @@
+import { readFileSync } from "node:fs";
+
+import {
+  type ErrorExplanations,
+  type KasRaffleCall,
+  type ParamsArgs,
+  PreflightError,
+  type Round,
+  RoundStatus,
+  describeContractError,
+  isRefund,
+  parseKas as parseKasAmount,
+  parsePreset,
+  roundImpact,
+  roundOutcome,
+  roundPot,
+  roundStatusName,
+  serializePreset,
+  toSetParamsArgs
+} from "@kasraffle/sdk";
+import { type Address, type Hex, getAddress, isAddress, zeroHash } from "viem";
+
+import type { Connection } from "./config";
+import { type Printer, csv, fields, kas, table } from "./output";
+
+export type Context = {
+  connection: Connection;
+  printer: Printer;
+  /** Simulate writes as the signer without sending them. */
+  dryRun: boolean;
+};
+
+/** Same default as the keeper's `KEEPER_GAS_BUFFER_BPS`: draw gas depends on the seed of the mined block. */
+const DRAW_GAS_BUFFER_BPS = 13_000n;
+export const DEFAULT_STEPS = 500n;
+
+type TxResult = {
+  functionName: string;
+  args?: readonly unknown[];
+  value?: bigint;
+  simulated: boolean;
+  hash?: Hex;
+  status?: "success" | "reverted";
+  blockNumber?: bigint;
+};
+
+export function parseRoundId(value: string | undefined): bigint {
+  if (!value || !/^\d+$/.test(value) || BigInt(value) === 0n) throw new Error("Expected a round id (1, 2, …)");
+  return BigInt(value);
+}
+
+export function parseCount(value: string | undefined, label: string, fallback?: bigint): bigint {
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (!value || !/^\d+$/.test(value) || BigInt(value) === 0n) throw new Error(`${label} must be a positive integer`);
+  return BigInt(value);
+}
+
+export function parseKas(value: string | undefined, label: string): bigint {
+  return parseKasAmount(value ?? "", { label });
+}
+
+export function parseAddress(value: string | undefined, label: string): Address {
+  if (!value || !isAddress(value)) throw new Error(`${label} must be an address`);
+  return getAddress(value);
+}
+
+function duration(seconds: bigint): string {
+  const total = Number(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  return minutes > 0 ? `${minutes}m ${String(total % 60).padStart(2, "0")}s` : `${total}s`;
+}
+
+function roundJson(round: Round) {
+  return { ...round, statusName: roundStatusName(round.status) };
+}
+
+/** Refunding and refunded rounds never form a pot: tickets go back to buyers and the seed stays in the bank. */
+function potText(round: Round): string {
+  return isRefund(roundOutcome(round)) ? "none (refund)" : kas(roundPot(round));
+}
+
+function roundFields(round: Round): [string, string][] {
+  const refunded = roundOutcome(round) === "refunded";
+  return [
+    ["Status", refunded ? "Closed (refunded)" : roundStatusName(round.status)],
+    ["Participants", round.participants.toString()],
+    ["Tickets", round.totalTickets.toString()],
+    ["Pot", potText(round)],
+    ["Seeded rollover", kas(round.seededRollover)],
+    ...(round.pot > 0n
+      ? ([
+          ["Winners share", kas(round.winnersShare)],
+          ["Fee share", kas(round.feeShare)],
+          ["Rollover share", kas(round.rolloverShare)]
+        ] as [string, string][])
+      : []),
+    ...(round.seed !== zeroHash ? ([["Seed", round.seed]] as [string, string][]) : [])
+  ];
+}
+
+/**
+ * Sends (or with `--dry-run` only simulates) one call and waits for its receipt.
+ * `errors` rewords reverts whose meaning depends on the function, as in the frontend's write hooks.
+ */
+async function send(ctx: Context, call: KasRaffleCall, errors?: ErrorExplanations): Promise<TxResult> {
+  try {
+    return await sendUnchecked(ctx, call);
+  } catch (error) {
+    if (!errors) throw error;
+    throw new PreflightError(describeContractError(error, errors));
+  }
+}
+
+async function sendUnchecked(ctx: Context, call: KasRaffleCall): Promise<TxResult> {
+  const { client } = ctx.connection;
+  const result: TxResult = {
+    functionName: call.functionName,
+    args: call.args,
+    value: call.value,
+    simulated: ctx.dryRun
+  };
+  if (ctx.dryRun) {
+    await client.simulate(call);
+    if (!ctx.printer.json) console.error(`${call.functionName}: simulation succeeded, not sent (--dry-run)`);
+    return result;
+  }
+
+  const hash = await client.write(call);
+  if (!ctx.printer.json) console.error(`${call.functionName}: sent ${hash}, waiting for the receipt…`);
+  const receipt = await client.publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") throw new Error(`${call.functionName} reverted in transaction ${hash}`);
+  return { ...result, hash, status: receipt.status, blockNumber: receipt.blockNumber };
+}
+
+/** Explicit gas for close/finalize/refund calls, so a seed-dependent draw does not run out. */
+async function drawGas(ctx: Context, call: KasRaffleCall, override: string | undefined): Promise<bigint> {
+  if (override !== undefined) return parseCount(override, "--gas");
+  const estimate = await ctx.connection.client.estimateGas(call);
+  return (estimate * DRAW_GAS_BUFFER_BPS) / 10_000n;
+}
+
+function txText(results: TxResult[]): string {
+  if (results.length === 0) return "Nothing to send.";
+  return results
+    .map((tx) =>
+      tx.simulated ? `${tx.functionName}: would succeed` : `${tx.functionName}: ${tx.hash} (block ${tx.blockNumber})`
+    )
+    .join("\n");
+}
+
+export async function status(ctx: Context) {
+  const { client, chain, network } = ctx.connection;
+  const [round, config, paused, owner, feesAccrued, rolloverBank, block] = await Promise.all([
+    client.getCurrentRound(),
+    client.getConfig(),
+    client.isPaused(),
+    client.getOwner(),
+    client.getFeesAccrued(),
+    client.getRolloverBank(),
+    client.publicClient.getBlock()
+  ]);
+  const secondsLeft = round.endTime > block.timestamp ? round.endTime - block.timestamp : 0n;
+
+  ctx.printer.print(
+    {
+      network,
+      chainId: chain.id,
+      address: client.address,
+      owner,
+      paused,
+      blockTimestamp: block.timestamp,
+      secondsLeft: round.startTime === 0n ? null : secondsLeft,
+      round: roundJson(round),
+      config,
+      feesAccrued,
+      rolloverBank
+    },
+    () => {
+      let timer = "countdown starts with the first ticket";
+      if (round.startTime > 0n) timer = secondsLeft > 0n ? `ends in ${duration(secondsLeft)}` : "ended, ready to close";
+      return [
+        `KASRaffle ${client.address} on ${chain.name} (${chain.id})`,
+        "",
+        fields([
+          [
+            "Round",
+            `#${round.id} ${roundStatusName(round.status)}${round.status === RoundStatus.Open ? `, ${timer}` : ""}`
+          ],
+          ["Tickets", `${round.totalTickets} from ${round.participants} participants`],
+          ["Pot", `${potText(round)} (${kas(round.seededRollover)} seeded)`],
+          ["Ticket price", kas(config.ticketPrice)],
+          [
+            "Split",
+            `${config.winnersBps / 100}% winners, ${config.feeBps / 100}% fee, ${config.rolloverBps / 100}% rollover`
+          ],
+          ["Fees accrued", kas(feesAccrued)],
+          ["Rollover bank", kas(rolloverBank)],
+          ["Paused", paused ? "yes" : "no"],
+          ["Owner", owner]
+        ])
+      ].join("\n");
+    }
+  );
+}
+
+export async function round(ctx: Context, roundId: bigint) {
+  const { client } = ctx.connection;
+  const summary = await client.getRound(roundId);
+  if (summary.id === 0n) throw new Error(`Round #${roundId} has not opened yet`);
+  ctx.printer.print(roundJson(summary), () => [`Round #${roundId}`, "", fields(roundFields(summary))].join("\n"));
+}
+
+export async function participants(ctx: Context, roundId: bigint, asCsv: boolean) {
+  const { client } = ctx.connection;
+  const list = await client.getParticipants(roundId);
+  const total = list.reduce((sum, entry) => sum + entry.tickets, 0n);
+  const share = (tickets: bigint) => (total > 0n ? (Number(tickets) / Number(total)).toFixed(6) : "0");
+
+  if (asCsv) {
+    console.log(
+      csv(
+        ["address", "tickets", "share"],
+        list.map((entry) => [entry.account, entry.tickets, share(entry.tickets)])
+      )
+    );
+    return;
+  }
+  ctx.printer.print(list, () =>
+    list.length === 0
+      ? `Round #${roundId} has no participants.`
+      : table(
+          ["address", "tickets", "share"],
+          list.map((entry) => [entry.account, entry.tickets.toString(), share(entry.tickets)])
+        )
+  );
+}
+
+export async function winners(ctx: Context, roundId: bigint) {
+  const { client } = ctx.connection;
+  const [{ winners: accounts, prizes }, indices] = await Promise.all([
+    client.getWinners(roundId),
+    client.getWinningTicketIndices(roundId)
+  ]);
+  const rows = accounts.map((account, tier) => ({
+    tier: tier + 1,
+    account,
+    prize: prizes[tier],
+    ticket: indices[tier]
+  }));
+
+  ctx.printer.print(rows, () =>
+    rows.length === 0
+      ? `Round #${roundId} has no winners: it is not drawn yet, or it was refunded.`
+      : table(
+          ["tier", "address", "ticket", "prize"],
+          rows.map((row) => [row.tier.toString(), row.account, row.ticket?.toString() ?? "", kas(row.prize)])
+        )
+  );
+}
+
+export async function buy(ctx: Context, tickets: bigint) {
+  const price = await ctx.connection.client.getTicketPrice();
+  const tx = await send(ctx, { functionName: "buyTickets", value: price * tickets });
+  ctx.printer.print(tx, () => `${txText([tx])}\nBought ${tickets} ticket(s) for ${kas(price * tickets)}.`);
+}
+
+export async function close(ctx: Context, gas: string | undefined) {
+  const { client } = ctx.connection;
+  const call: KasRaffleCall = { functionName: "closeRound" };
+  const tx = await send(ctx, { ...call, gas: await drawGas(ctx, call, gas) });
+  const round = tx.simulated ? undefined : await client.getRound(await client.getCurrentRoundId());
+  ctx.printer.print(tx, () => {
+    if (round?.status === RoundStatus.Refunding) {
+      return `${txText([tx])}\nToo few tickets to draw: run \`kasraffle refund ${round.id}\`.`;
+    }
+    if (round?.status === RoundStatus.Drawing) return `${txText([tx])}\nDrawing: run \`kasraffle finalize\`.`;
+    return txText([tx]);
+  });
+}
+
+/** `finalizeRound` in `steps`-sized chunks until the current round leaves `Drawing`. */
+export async function finalize(ctx: Context, steps: bigint, gas: string | undefined) {
+  const { client } = ctx.connection;
+  const results: TxResult[] = [];
+  let current = await client.getCurrentRound();
+  if (current.status !== RoundStatus.Drawing) {
+    throw new Error(`Nothing to finalize: round #${current.id} is ${roundStatusName(current.status)}`);
+  }
+  const roundId = current.id;
+  do {
+    const call: KasRaffleCall = { functionName: "finalizeRound", args: [steps] };
+    results.push(await send(ctx, { ...call, gas: await drawGas(ctx, call, gas) }));
+    if (ctx.dryRun) break;
+    current = await client.getRound(roundId);
+  } while (current.status === RoundStatus.Drawing);
+
+  ctx.printer.print(results, () => txText(results));
+}
+
+/** `finalizeRefunds` in `steps`-sized chunks until the round is closed. */
+export async function refund(ctx: Context, roundId: bigint, steps: bigint, gas: string | undefined) {
+  const { client } = ctx.connection;
+  const results: TxResult[] = [];
+  let summary = await client.getRound(roundId);
+  if (summary.status !== RoundStatus.Refunding) {
+    throw new Error(`Nothing to refund: round #${roundId} is ${roundStatusName(summary.status)}`);
+  }
+  do {
+    const call: KasRaffleCall = { functionName: "finalizeRefunds", args: [roundId, steps] };
+    results.push(await send(ctx, { ...call, gas: await drawGas(ctx, call, gas) }));
+    if (ctx.dryRun) break;
+    summary = await client.getRound(roundId);
+  } while (summary.status === RoundStatus.Refunding);
+
+  ctx.printer.print(results, () => txText(results));
+}
+
+/** One round, or every earlier round that still owes the signer a prize. Refunds are paid out directly. */
+export async function claim(ctx: Context, roundId: bigint | undefined) {
+  const { client } = ctx.connection;
+  const account = client.walletClient?.account?.address;
+  if (!account) throw new Error("claim needs a signer");
+
+  let roundIds: bigint[];
+  if (roundId !== undefined) {
+    roundIds = [roundId];
+  } else {
+    const currentRoundId = await client.getCurrentRoundId();
+    const past = Array.from({ length: Number(currentRoundId - 1n) }, (_, index) => BigInt(index + 1));
+    const amounts = await client.claimableForRounds(past, account);
+    roundIds = past.filter((_, index) => amounts[index] > 0n);
+  }
+
+  const results: TxResult[] = [];
+  for (const id of roundIds) results.push(await send(ctx, { functionName: "claim", args: [id] }));
+  ctx.printer.print(results, () => (results.length === 0 ? `Nothing to claim for ${account}.` : txText(results)));
+}
+
+export async function paramsGet(ctx: Context) {
+  const config = await ctx.connection.client.getConfig();
+  // Already a preset, so `params get > file.json` round-trips through `params set`.
+  console.log(serializePreset({ name: `On-chain ${ctx.connection.network}`, params: config }));
+}
+
+/**
+ * `setParams` also applies to the round in progress. Impacts that `roundImpact` rates as errors (a price change
+ * while tickets are sold, say) stop the command unless `force` is set; warnings are only printed.
+ */
+export async function paramsSet(ctx: Context, file: string | undefined, force = false) {
+  if (!file) throw new Error("params set takes a preset file, e.g. packages/next/presets/default.json");
+  const { params } = parsePreset(readFileSync(file, "utf8"));
+  const { client } = ctx.connection;
+  const [current, round] = await Promise.all([client.getConfig(), client.getCurrentRound()]);
+  const changed = (Object.keys(params) as (keyof ParamsArgs)[]).filter(
+    (key) => String(params[key]) !== String(current[key])
+  );
+  if (changed.length === 0) {
+    ctx.printer.print({ changed: [] }, () => "The preset matches the on-chain parameters; nothing to send.");
+    return;
+  }
+
+  const impacts = roundImpact(current, params, round);
+  const blocking = impacts.filter((impact) => impact.severity === "error");
+  if (blocking.length > 0 && !force) {
+    throw new Error(
+      [
+        `setParams would affect round #${round.id}:`,
+        ...blocking.map((impact) => `  ${impact.message}`),
+        "Pass --force to send it anyway."
+      ].join("\n")
+    );
+  }
+  if (!ctx.printer.json) for (const impact of impacts) console.error(`${impact.severity}: ${impact.message}`);
+
+  const tx = await send(ctx, { functionName: "setParams", args: toSetParamsArgs(params) });
+  ctx.printer.print({ ...tx, changed, impacts }, () =>
+    [
+      table(
+        ["param", "current", "new"],
+        changed.map((key) => [key, String(current[key]), String(params[key])])
+      ),
+      "",
+      txText([tx])
+    ].join("\n")
+  );
+}
+
+/** Sends `amount` (all accrued fees by default) to the fee vault. */
+export async function feesWithdraw(ctx: Context, amount: string | undefined) {
+  const accrued = await ctx.connection.client.getFeesAccrued();
+  const value = amount === undefined ? accrued : parseKas(amount, "--amount");
+  if (value === 0n) throw new Error("No fees have accrued");
+  if (value > accrued) throw new Error(`Only ${kas(accrued)} of fees have accrued`);
+  const tx = await send(ctx, { functionName: "withdrawFees", args: [value] });
+  ctx.printer.print(tx, () => `${txText([tx])}\nWithdrew ${kas(value)} to the fee vault.`);
+}
+
+export async function setPaused(ctx: Context, paused: boolean) {
+  const tx = await send(ctx, { functionName: paused ? "pause" : "unpause" });
+  ctx.printer.print(tx, () => txText([tx]));
+}
+
+/** `sweepExcess` reverts unless `amount` fits in the balance above liabilities, so the simulation checks it. */
+export async function sweep(ctx: Context, to: Address, amount: bigint) {
+  const tx = await send(
+    ctx,
+    { functionName: "sweepExcess", args: [to, amount] },
+    { ErrInvalidParams: "The sweep must go to a non-zero address and cannot exceed the balance above liabilities." }
+  );
+  ctx.printer.print(tx, () => `${txText([tx])}\nSwept ${kas(amount)} to ${to}.`);
+}
@@ -0,0 +1,101 @@
+import { readFileSync } from "node:fs";
+
+import { KasRaffleClient } from "@kasraffle/sdk";
+import { type Chain, createPublicClient, createWalletClient, getAddress, http, isAddress, isHex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { getKasRaffleAddress } from "../../next/lib/addresses";
+import { kasplexMainnet, kasplexTestnet } from "../../next/lib/chains";
+import { env } from "../../next/lib/env";
+import { decryptKeystore } from "./keystore";
+
+export type Network = "testnet" | "mainnet";
+
+export type ConnectionOptions = {
+  network?: string;
+  rpcUrl?: string;
+  address?: string;
+  keystore?: string;
+  passwordFile?: string;
+};
+
+export type Connection = {
+  network: Network;
+  chain: Chain;
+  client: KasRaffleClient;
+};
+
+function resolveNetwork(value: string | undefined): Network {
+  const network = value ?? process.env.KASRAFFLE_NETWORK ?? "testnet";
+  if (network !== "testnet" && network !== "mainnet") {
+    throw new Error(`--network must be "testnet" or "mainnet", got "${network}"`);
+  }
+  if (network === "mainnet" && !env.chainIds.mainnet) {
+    throw new Error("Mainnet is not configured: set NEXT_PUBLIC_CHAIN_ID_MAINNET");
+  }
+  return network;
+}
+
+/**
+ * Signing key, in order: `--keystore` (or `KASRAFFLE_KEYSTORE`) unlocked with `--password-file`
+ * or `KASRAFFLE_KEYSTORE_PASSWORD`, then `KASRAFFLE_PRIVATE_KEY`. Only loaded for writes.
+ */
+function loadPrivateKey(options: ConnectionOptions): `0x${string}` | undefined {
+  const keystore = options.keystore ?? process.env.KASRAFFLE_KEYSTORE;
+  if (keystore) {
+    const password = options.passwordFile
+      ? readFileSync(options.passwordFile, "utf8").replace(/\r?\n$/, "")
+      : process.env.KASRAFFLE_KEYSTORE_PASSWORD;
+    if (password === undefined) {
+      throw new Error("The keystore needs a password: pass --password-file or set KASRAFFLE_KEYSTORE_PASSWORD");
+    }
+    return decryptKeystore(readFileSync(keystore, "utf8"), password);
+  }
+
+  const privateKey = process.env.KASRAFFLE_PRIVATE_KEY;
+  if (privateKey === undefined) return undefined;
+  if (!isHex(privateKey) || privateKey.length !== 66) {
+    throw new Error("KASRAFFLE_PRIVATE_KEY must be a 32-byte hex string");
+  }
+  return privateKey;
+}
+
+/**
+ * Resolves the chain and KASRaffle address from the same `NEXT_PUBLIC_*` settings the
+ * frontend reads, with `--rpc-url` and `--address` as overrides.
+ */
+export async function connect(options: ConnectionOptions, { signer }: { signer: boolean }): Promise<Connection> {
+  const network = resolveNetwork(options.network);
+  const base = network === "mainnet" ? kasplexMainnet : kasplexTestnet;
+  const rpcUrl = options.rpcUrl ?? base.rpcUrls.default.http[0];
+  const chain: Chain = { ...base, rpcUrls: { default: { http: [rpcUrl] } } };
+
+  const address = options.address ?? getKasRaffleAddress(chain.id);
+  if (!address) {
+    throw new Error(
+      `No KASRaffle address for ${network}: set NEXT_PUBLIC_KASRAFFLE_${network.toUpperCase()} or pass --address`
+    );
+  }
+  if (!isAddress(address)) throw new Error(`Not a valid KASRaffle address: ${address}`);
+
+  const publicClient = createPublicClient({ chain, transport: http(rpcUrl) });
+  const chainId = await publicClient.getChainId();
+  if (chainId !== chain.id) {
+    throw new Error(`RPC ${rpcUrl} reports chain ${chainId}, but ${network} is configured as chain ${chain.id}`);
+  }
+
+  let walletClient;
+  if (signer) {
+    const privateKey = loadPrivateKey(options);
+    if (!privateKey) {
+      throw new Error("This command signs a transaction: pass --keystore or set KASRAFFLE_PRIVATE_KEY");
+    }
+    walletClient = createWalletClient({ account: privateKeyToAccount(privateKey), chain, transport: http(rpcUrl) });
+  }
+
+  return {
+    network,
+    chain,
+    client: new KasRaffleClient({ address: getAddress(address), publicClient, walletClient })
+  };
+}
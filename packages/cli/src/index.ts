@@ -0,0 +1,31 @@
+#!/usr/bin/env tsx
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const DEFAULT_ENV_FILE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../next/.env.local");
+
+function envFiles(argv: string[]): string[] {
+  const files = argv.flatMap((arg, index) => {
+    if (arg === "--env-file") return argv[index + 1] ? [argv[index + 1]] : [];
+    return arg.startsWith("--env-file=") ? [arg.slice("--env-file=".length)] : [];
+  });
+  if (files.length > 0) return files;
+  return existsSync(DEFAULT_ENV_FILE) ? [DEFAULT_ENV_FILE] : [];
+}
+
+const argv = process.argv.slice(2);
+
+// lib/env.ts reads process.env when first imported, so the env files load before the CLI does.
+// Variables already set in the environment win over the files.
+for (const file of envFiles(argv)) process.loadEnvFile(file);
+
+const { main } = await import("./cli");
+const { describeContractError } = await import("@kasraffle/sdk");
+
+try {
+  await main(argv);
+} catch (error) {
+  console.error(`kasraffle: ${describeContractError(error)}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,57 @@
+import { createDecipheriv, pbkdf2Sync, scryptSync, timingSafeEqual } from "node:crypto";
+
+import { type Hex, bytesToHex, concat, hexToBytes, keccak256 } from "viem";
+
+type KdfParams =
+  | { kdf: "scrypt"; kdfparams: { dklen: number; n: number; r: number; p: number; salt: string } }
+  | { kdf: "pbkdf2"; kdfparams: { dklen: number; c: number; prf: string; salt: string } };
+
+type KeystoreCrypto = KdfParams & {
+  cipher: string;
+  cipherparams: { iv: string };
+  ciphertext: string;
+  mac: string;
+};
+
+const hex = (value: string): Hex => (value.startsWith("0x") ? value : `0x${value}`) as Hex;
+
+function deriveKey(crypto: KeystoreCrypto, password: string): Buffer {
+  if (crypto.kdf === "scrypt") {
+    const { dklen, n, r, p, salt } = crypto.kdfparams;
+    try {
+      // Node's default 32 MiB cap is below what geth's "standard" N=262144 needs.
+      return scryptSync(password, hexToBytes(hex(salt)), dklen, { N: n, r, p, maxmem: 256 * n * r });
+    } catch (error) {
+      // OpenSSL also enforces RFC 7914's N < 2^(16r), which rules out some r=1 keystores.
+      throw new Error(`Unsupported keystore scrypt parameters n=${n} r=${r} p=${p}`, { cause: error });
+    }
+  }
+  const { dklen, c, prf, salt } = crypto.kdfparams;
+  if (prf !== "hmac-sha256") throw new Error(`Unsupported keystore prf "${prf}"`);
+  return pbkdf2Sync(password, hexToBytes(hex(salt)), c, dklen, "sha256");
+}
+
+/**
+ * Decrypts a Web3 Secret Storage (v3) keystore, the format written by geth, `cast wallet import`
+ * and most wallets. Supports scrypt and pbkdf2 with aes-128-ctr.
+ */
+export function decryptKeystore(json: string, password: string): Hex {
+  const parsed = JSON.parse(json) as { version?: number; crypto?: KeystoreCrypto; Crypto?: KeystoreCrypto };
+  const crypto = parsed.crypto ?? parsed.Crypto;
+  if (parsed.version !== 3 || !crypto) throw new Error("Not a version 3 keystore file");
+  if (crypto.kdf !== "scrypt" && crypto.kdf !== "pbkdf2") {
+    throw new Error(`Unsupported keystore kdf "${(crypto as { kdf: string }).kdf}"`);
+  }
+  if (crypto.cipher !== "aes-128-ctr") throw new Error(`Unsupported keystore cipher "${crypto.cipher}"`);
+
+  const derived = deriveKey(crypto, password);
+  const ciphertext = hexToBytes(hex(crypto.ciphertext));
+  const mac = hexToBytes(keccak256(concat([derived.subarray(16, 32), ciphertext])));
+  const expected = hexToBytes(hex(crypto.mac));
+  if (mac.length !== expected.length || !timingSafeEqual(mac, expected)) {
+    throw new Error("Keystore password is incorrect");
+  }
+
+  const decipher = createDecipheriv("aes-128-ctr", derived.subarray(0, 16), hexToBytes(hex(crypto.cipherparams.iv)));
+  return bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
@@ -0,0 +1,54 @@
+import { formatEther } from "viem";
+
+export function kas(value: bigint): string {
+  return `${formatEther(value)} KAS`;
+}
+
+/** JSON with bigints as decimal strings, so wei amounts survive `jq` and JavaScript consumers alike. */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, item) => (typeof item === "bigint" ? item.toString() : item), 2);
+}
+
+function csvCell(value: string | number | bigint): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Same quoting as the frontend's CSV exports. */
+export function csv(header: readonly string[], rows: readonly (readonly (string | number | bigint)[])[]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+/** `label  value` lines with the values aligned. */
+export function fields(rows: readonly (readonly [string, string])[]): string {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`).join("\n");
+}
+
+/** A plain-text table; numeric-looking cells are right-aligned. */
+export function table(header: readonly string[], rows: readonly (readonly string[])[]): string {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: readonly string[]) =>
+    cells
+      .map((cell, column) =>
+        /^[\d.,]+( KAS)?$/.test(cell) ? cell.padStart(widths[column]) : cell.padEnd(widths[column])
+      )
+      .join("  ")
+      .trimEnd();
+  return [line(header), ...rows.map(line)].join("\n");
+}
+
+export type Printer = {
+  json: boolean;
+  /** Prints `data` as JSON under `--json`, otherwise the human-readable `text`. */
+  print(data: unknown, text: () => string): void;
+};
+
+export function createPrinter(json: boolean): Printer {
+  return {
+    json,
+    print(data, text) {
+      console.log(json ? toJson(data) : text());
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import { getAddress, isAddress } from "viem";
+
+const required = (value: string | undefined, label: string): string => {
+  if (!value) throw new Error(`[indexer] Missing value for ${label}`);
+  return value;
+};
+
+const integer = (value: string | undefined, label: string, defaultValue: number): number => {
+  if (value === undefined || value === "") return defaultValue;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new Error(`[indexer] ${label} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+export type IndexerConfig = {
+  rpcUrl: string;
+  chainId: number;
+  contractAddress: `0x${string}`;
+  startBlock: bigint;
+  dbPath: string;
+  confirmations: number;
+  batchSize: number;
+  pollIntervalMs: number;
+  checkpointRetention: number;
+};
+
+export function loadConfig(source: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  const contractAddress = required(source.INDEXER_CONTRACT_ADDRESS, "INDEXER_CONTRACT_ADDRESS");
+  if (!isAddress(contractAddress)) {
+    throw new Error(`[indexer] INDEXER_CONTRACT_ADDRESS is not a valid address: ${contractAddress}`);
+  }
+
+  return {
+    rpcUrl: source.INDEXER_RPC_URL || "http://127.0.0.1:8545",
+    chainId: integer(source.INDEXER_CHAIN_ID, "INDEXER_CHAIN_ID", 31337),
+    contractAddress: getAddress(contractAddress),
+    startBlock: BigInt(integer(source.INDEXER_START_BLOCK, "INDEXER_START_BLOCK", 0)),
+    dbPath: source.INDEXER_DB_PATH || "kasraffle-indexer.sqlite",
+    confirmations: integer(source.INDEXER_CONFIRMATIONS, "INDEXER_CONFIRMATIONS", 2),
+    batchSize: Math.max(1, integer(source.INDEXER_BATCH_SIZE, "INDEXER_BATCH_SIZE", 2_000)),
+    pollIntervalMs: integer(source.INDEXER_POLL_INTERVAL_MS, "INDEXER_POLL_INTERVAL_MS", 4_000),
+    checkpointRetention: Math.max(1, integer(source.INDEXER_CHECKPOINT_RETENTION, "INDEXER_CHECKPOINT_RETENTION", 256))
+  };
+}
@@ -0,0 +1,200 @@
+import { kasRaffleAbi } from "@kasraffle/sdk";
+import type { Log } from "viem";
+
+export const INDEXED_EVENTS = [
+  "RoundOpened",
+  "TicketsPurchased",
+  "RoundReady",
+  "DrawingStarted",
+  "WinnersResolved",
+  "Refunded",
+  "Claimed",
+  "KeeperPaid",
+  "FeesWithdrawn"
+] as const;
+
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number];
+
+export type KasRaffleLog = Log<bigint, number, false, undefined, true, typeof kasRaffleAbi>;
+
+type ColumnValue = string | number | null;
+
+export type EventRow = {
+  table: string;
+  values: Record<string, ColumnValue>;
+};
+
+export const EVENT_TABLES: Record<IndexedEventName, { table: string; columns: Record<string, string> }> = {
+  RoundOpened: {
+    table: "round_opened",
+    columns: {
+      round_id: "INTEGER NOT NULL",
+      start_time: "INTEGER NOT NULL",
+      end_time: "INTEGER NOT NULL",
+      seeded_rollover: "TEXT NOT NULL"
+    }
+  },
+  TicketsPurchased: {
+    table: "tickets_purchased",
+    columns: {
+      round_id: "INTEGER NOT NULL",
+      buyer: "TEXT NOT NULL",
+      tickets: "INTEGER NOT NULL",
+      value: "TEXT NOT NULL",
+      total_tickets: "INTEGER NOT NULL"
+    }
+  },
+  RoundReady: {
+    table: "round_ready",
+    columns: {
+      round_id: "INTEGER NOT NULL",
+      pot: "TEXT NOT NULL",
+      winners_share: "TEXT NOT NULL",
+      fee_share: "TEXT NOT NULL",
+      rollover_share: "TEXT NOT NULL"
+    }
+  },
+  DrawingStarted: {
+    table: "drawing_started",
+    columns: {
+      round_id: "INTEGER NOT NULL",
+      seed: "TEXT NOT NULL",
+      winning_ticket_indices: "TEXT NOT NULL"
+    }
+  },
+  WinnersResolved: {
+    table: "winners_resolved",
+    columns: {
+      round_id: "INTEGER NOT NULL",
+      winners: "TEXT NOT NULL",
+      prizes: "TEXT NOT NULL"
+    }
+  },
+  Refunded: {
+    table: "refunded",
+    columns: {
+      round_id: "INTEGER NOT NULL",
+      account: "TEXT NOT NULL",
+      amount: "TEXT NOT NULL"
+    }
+  },
+  Claimed: {
+    table: "claimed",
+    columns: {
+      round_id: "INTEGER NOT NULL",
+      winner: "TEXT NOT NULL",
+      amount: "TEXT NOT NULL"
+    }
+  },
+  KeeperPaid: {
+    table: "keeper_paid",
+    columns: {
+      keeper: "TEXT NOT NULL",
+      amount: "TEXT NOT NULL"
+    }
+  },
+  FeesWithdrawn: {
+    table: "fees_withdrawn",
+    columns: {
+      recipient: "TEXT NOT NULL",
+      amount: "TEXT NOT NULL"
+    }
+  }
+};
+
+// uint256 amounts are stored as decimal strings; ids and ticket counts are
+// bounded by uint64/uint128 caps far below 2^53 in practice, so they stay numeric.
+const amount = (value: bigint) => value.toString();
+const count = (value: bigint) => Number(value);
+const list = (values: readonly (bigint | string)[]) => JSON.stringify(values.map((value) => value.toString()));
+
+export function toEventRow(log: KasRaffleLog): EventRow | undefined {
+  switch (log.eventName) {
+    case "RoundOpened":
+      return {
+        table: EVENT_TABLES.RoundOpened.table,
+        values: {
+          round_id: count(log.args.roundId),
+          start_time: count(log.args.startTime),
+          end_time: count(log.args.endTime),
+          seeded_rollover: amount(log.args.seededRollover)
+        }
+      };
+    case "TicketsPurchased":
+      return {
+        table: EVENT_TABLES.TicketsPurchased.table,
+        values: {
+          round_id: count(log.args.roundId),
+          buyer: log.args.buyer,
+          tickets: count(log.args.tickets),
+          value: amount(log.args.value),
+          total_tickets: count(log.args.totalTickets)
+        }
+      };
+    case "RoundReady":
+      return {
+        table: EVENT_TABLES.RoundReady.table,
+        values: {
+          round_id: count(log.args.roundId),
+          pot: amount(log.args.pot),
+          winners_share: amount(log.args.winnersShare),
+          fee_share: amount(log.args.feeShare),
+          rollover_share: amount(log.args.rolloverShare)
+        }
+      };
+    case "DrawingStarted":
+      return {
+        table: EVENT_TABLES.DrawingStarted.table,
+        values: {
+          round_id: count(log.args.roundId),
+          seed: log.args.seed,
+          winning_ticket_indices: list(log.args.winningTicketIndices)
+        }
+      };
+    case "WinnersResolved":
+      return {
+        table: EVENT_TABLES.WinnersResolved.table,
+        values: {
+          round_id: count(log.args.roundId),
+          winners: list(log.args.winners),
+          prizes: list(log.args.prizes)
+        }
+      };
+    case "Refunded":
+      return {
+        table: EVENT_TABLES.Refunded.table,
+        values: {
+          round_id: count(log.args.roundId),
+          account: log.args.account,
+          amount: amount(log.args.amount)
+        }
+      };
+    case "Claimed":
+      return {
+        table: EVENT_TABLES.Claimed.table,
+        values: {
+          round_id: count(log.args.roundId),
+          winner: log.args.winner,
+          amount: amount(log.args.amount)
+        }
+      };
+    case "KeeperPaid":
+      return {
+        table: EVENT_TABLES.KeeperPaid.table,
+        values: {
+          keeper: log.args.keeper,
+          amount: amount(log.args.amount)
+        }
+      };
+    case "FeesWithdrawn":
+      return {
+        table: EVENT_TABLES.FeesWithdrawn.table,
+        values: {
+          recipient: log.args.to,
+          amount: amount(log.args.amount)
+        }
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,36 @@
+import { createPublicClient, http } from "viem";
+
+import { loadConfig } from "./config";
+import { createIndexer } from "./indexer";
+import { openStore } from "./store";
+
+const once = process.argv.includes("--once");
+
+const config = loadConfig();
+const client = createPublicClient({ transport: http(config.rpcUrl) });
+
+const chainId = await client.getChainId();
+if (chainId !== config.chainId) {
+  throw new Error(`[indexer] RPC reports chain ${chainId}, expected INDEXER_CHAIN_ID=${config.chainId}`);
+}
+
+const store = openStore(config.dbPath);
+const indexer = createIndexer({ client, store, config });
+
+if (once) {
+  try {
+    const tip = await indexer.syncOnce();
+    console.info(`[indexer] Backfill complete at block ${tip}`);
+  } finally {
+    store.close();
+  }
+} else {
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  console.info(`[indexer] Tailing ${config.contractAddress} on chain ${config.chainId} → ${config.dbPath}`);
+  await indexer.run(controller.signal);
+  store.close();
+}
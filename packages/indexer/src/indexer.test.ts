@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import type { PublicClient } from "viem";
+
+import type { IndexerConfig } from "./config";
+import { createIndexer } from "./indexer";
+import { type IndexerStore, openStore } from "./store";
+
+type FakeBlock = { number: bigint; hash: `0x${string}`; parentHash: `0x${string}`; timestamp: bigint };
+
+const hash = (fork: string, blockNumber: number) =>
+  `0x${fork.repeat(2)}${blockNumber.toString(16).padStart(62, "0")}` as `0x${string}`;
+
+/** Blocks 0..length-1; blocks from `forkAt` on carry `fork`'s hashes, so they build a different branch. */
+function chain(length: number, fork = "aa", forkAt = length): FakeBlock[] {
+  return Array.from({ length }, (_, index) => {
+    const label = (n: number) => hash(n >= forkAt ? fork : "aa", n);
+    return {
+      number: BigInt(index),
+      hash: label(index),
+      parentHash: index === 0 ? hash("00", 0) : label(index - 1),
+      timestamp: BigInt(1_700_000_000 + index)
+    };
+  });
+}
+
+/** One `RoundOpened` per listed block, on whichever chain is current. */
+function fakeClient(state: { blocks: FakeBlock[]; eventBlocks: number[]; onGetBlock?: (blockNumber: bigint) => void }) {
+  return {
+    getBlockNumber: async () => BigInt(state.blocks.length - 1),
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => {
+      const block = state.blocks[Number(blockNumber)];
+      state.onGetBlock?.(blockNumber);
+      return block;
+    },
+    getContractEvents: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+      state.eventBlocks
+        .filter((blockNumber) => blockNumber >= fromBlock && blockNumber <= toBlock)
+        .map((blockNumber) => ({
+          eventName: "RoundOpened",
+          args: { roundId: BigInt(blockNumber), startTime: 0n, endTime: 0n, seededRollover: 0n },
+          blockNumber: BigInt(blockNumber),
+          blockHash: state.blocks[blockNumber].hash,
+          transactionHash: hash("ee", blockNumber),
+          logIndex: 0
+        }))
+  } as unknown as PublicClient;
+}
+
+const config: IndexerConfig = {
+  rpcUrl: "http://127.0.0.1:8545",
+  chainId: 31337,
+  contractAddress: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+  startBlock: 0n,
+  dbPath: ":memory:",
+  confirmations: 0,
+  batchSize: 5,
+  pollIntervalMs: 0,
+  checkpointRetention: 16
+};
+const logger = { info: () => {}, warn: () => {}, error: () => {} };
+
+const roundsOpened = (store: IndexerStore) =>
+  store.db.prepare<[], { n: number }>("SELECT COUNT(*) AS n FROM round_opened").get()?.n;
+
+describe("indexer", () => {
+  test("rewinds when a reorg lands between reconcile and the next batch", async () => {
+    const store = openStore(":memory:");
+    const state: Parameters<typeof fakeClient>[0] = { blocks: chain(11), eventBlocks: [10] };
+    const indexer = createIndexer({ client: fakeClient(state), store, config, logger });
+
+    assert.equal(await indexer.syncOnce(), 10n);
+    assert.equal(roundsOpened(store), 1);
+
+    // Block 10 is still canonical when reconcile checks it, then reorgs out before blocks 11-12 are indexed.
+    const reorged = chain(13, "bb", 10);
+    state.onGetBlock = (blockNumber) => {
+      if (blockNumber !== 10n) return;
+      state.blocks = reorged;
+      state.eventBlocks = [];
+      state.onGetBlock = undefined;
+    };
+    state.blocks = [...chain(11), ...reorged.slice(11)];
+
+    assert.equal(await indexer.syncOnce(), 12n);
+    assert.equal(roundsOpened(store), 0);
+    assert.deepEqual(store.latestCheckpoint(), { blockNumber: 12n, blockHash: reorged[12].hash });
+    store.close();
+  });
+
+  test("keeps indexing when each batch extends the last checkpoint", async () => {
+    const store = openStore(":memory:");
+    const state = { blocks: chain(8), eventBlocks: [2, 7] };
+    const indexer = createIndexer({ client: fakeClient(state), store, config, logger });
+
+    assert.equal(await indexer.syncOnce(), 7n);
+    state.blocks = chain(12);
+    state.eventBlocks = [2, 7, 11];
+    assert.equal(await indexer.syncOnce(), 11n);
+    assert.equal(roundsOpened(store), 3);
+    store.close();
+  });
+});
@@ -0,0 +1,177 @@
+import { kasRaffleAbi } from "@kasraffle/sdk";
+import { BlockNotFoundError, type PublicClient } from "viem";
+
+import type { IndexerConfig } from "./config";
+import { type KasRaffleLog, toEventRow } from "./events";
+import type { IndexerStore, StoredLog } from "./store";
+
+type Logger = Pick<Console, "info" | "warn" | "error">;
+
+export type IndexerOptions = {
+  client: PublicClient;
+  store: IndexerStore;
+  config: IndexerConfig;
+  logger?: Logger;
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+export function createIndexer({ client, store, config, logger = console }: IndexerOptions) {
+  /**
+   * `undefined` only when the node does not have the block. Any other failure (timeouts, a down RPC)
+   * is rethrown so the run loop retries; reading it as a missing block would look like a reorg and rewind.
+   */
+  const getBlockHash = async (blockNumber: bigint) => {
+    try {
+      const block = await client.getBlock({ blockNumber });
+      return block.hash;
+    } catch (error) {
+      if (error instanceof BlockNotFoundError) return undefined;
+      throw error;
+    }
+  };
+
+  const assertStoreMatchesConfig = () => {
+    const chainId = store.getMeta("chainId");
+    const contract = store.getMeta("contractAddress");
+    if (chainId === undefined && contract === undefined) {
+      store.setMeta("chainId", String(config.chainId));
+      store.setMeta("contractAddress", config.contractAddress);
+      return;
+    }
+    if (chainId !== String(config.chainId) || contract?.toLowerCase() !== config.contractAddress.toLowerCase()) {
+      throw new Error(
+        `[indexer] ${config.dbPath} was built for chain ${chainId} / ${contract}; use a fresh INDEXER_DB_PATH`
+      );
+    }
+  };
+
+  /**
+   * Walks stored checkpoints newest-first until one still matches the canonical chain,
+   * rewinds everything above it and returns the next block to index.
+   */
+  const reconcile = async (): Promise<bigint> => {
+    const checkpoints = store.checkpoints(config.checkpointRetention);
+    if (checkpoints.length === 0) return config.startBlock;
+
+    for (const [position, checkpoint] of checkpoints.entries()) {
+      const canonicalHash = await getBlockHash(checkpoint.blockNumber);
+      if (canonicalHash !== checkpoint.blockHash) continue;
+      if (position > 0) {
+        logger.warn(`[indexer] Reorg detected; rewinding to block ${checkpoint.blockNumber}`);
+        store.rewind(checkpoint.blockNumber);
+      }
+      return checkpoint.blockNumber + 1n;
+    }
+
+    logger.warn(`[indexer] Reorg deeper than ${checkpoints.length} checkpoints; re-indexing from ${config.startBlock}`);
+    store.rewind(config.startBlock - 1n);
+    return config.startBlock;
+  };
+
+  /**
+   * Indexes one batch on top of the latest checkpoint. Returns false without writing anything when `fromBlock`
+   * no longer builds on that checkpoint: the chain reorged after `reconcile` ran, and the caller must rewind.
+   * The boundary hash is read before and after the logs, so together the two checks pin the whole range.
+   */
+  const indexRange = async (fromBlock: bigint, toBlock: bigint): Promise<boolean> => {
+    const parent = store.latestCheckpoint();
+    if (parent && parent.blockNumber === fromBlock - 1n) {
+      const first = await client.getBlock({ blockNumber: fromBlock });
+      if (first.parentHash !== parent.blockHash) return false;
+    }
+
+    const boundaryHash = await getBlockHash(toBlock);
+    if (!boundaryHash) throw new Error(`[indexer] Block ${toBlock} is not available yet`);
+
+    const logs = (await client.getContractEvents({
+      address: config.contractAddress,
+      abi: kasRaffleAbi,
+      fromBlock,
+      toBlock,
+      strict: true
+    })) as KasRaffleLog[];
+
+    const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))];
+    const blocks = new Map(
+      await Promise.all(
+        blockNumbers.map(async (blockNumber) => [blockNumber, await client.getBlock({ blockNumber })] as const)
+      )
+    );
+
+    const rows: StoredLog[] = [];
+    for (const log of logs) {
+      const row = toEventRow(log);
+      if (!row) continue;
+      const block = blocks.get(log.blockNumber);
+      if (!block || block.hash !== log.blockHash) {
+        throw new Error(`[indexer] Block ${log.blockNumber} changed while indexing; retrying`);
+      }
+      rows.push({
+        ...row,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        blockTimestamp: block.timestamp,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex
+      });
+    }
+
+    if ((await getBlockHash(toBlock)) !== boundaryHash) {
+      throw new Error(`[indexer] Block ${toBlock} changed while indexing; retrying`);
+    }
+
+    store.commitBatch(rows, { blockNumber: toBlock, blockHash: boundaryHash }, config.checkpointRetention);
+    logger.info(`[indexer] Indexed blocks ${fromBlock}-${toBlock} (${rows.length} events)`);
+    return true;
+  };
+
+  /** Indexes every confirmed block not yet in the store and returns the new tip. */
+  const syncOnce = async (): Promise<bigint> => {
+    assertStoreMatchesConfig();
+    const head = await client.getBlockNumber();
+    const safeHead = head - BigInt(config.confirmations);
+
+    let next = await reconcile();
+    while (next <= safeHead) {
+      const batchEnd = next + BigInt(config.batchSize) - 1n;
+      const toBlock = batchEnd < safeHead ? batchEnd : safeHead;
+      if (await indexRange(next, toBlock)) {
+        next = toBlock + 1n;
+        continue;
+      }
+      logger.warn(`[indexer] Block ${next} does not extend the last checkpoint; reconciling`);
+      const rewound = await reconcile();
+      if (rewound >= next) throw new Error(`[indexer] Block ${next} changed while indexing; retrying`);
+      next = rewound;
+    }
+    return next - 1n;
+  };
+
+  const run = async (signal: AbortSignal) => {
+    while (!signal.aborted) {
+      try {
+        await syncOnce();
+      } catch (error) {
+        logger.error(error instanceof Error ? error.message : error);
+      }
+      await sleep(config.pollIntervalMs, signal);
+    }
+  };
+
+  return {
+    syncOnce,
+    run
+  };
+}
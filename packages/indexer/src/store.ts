@@ -0,0 +1,126 @@
+import Database from "better-sqlite3";
+
+import { EVENT_TABLES, type EventRow } from "./events";
+
+export type Checkpoint = {
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+};
+
+export type StoredLog = EventRow & {
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+  blockTimestamp: bigint;
+  transactionHash: `0x${string}`;
+  logIndex: number;
+};
+
+const LOG_COLUMNS = {
+  block_number: "INTEGER NOT NULL",
+  block_hash: "TEXT NOT NULL",
+  block_timestamp: "INTEGER NOT NULL",
+  tx_hash: "TEXT NOT NULL",
+  log_index: "INTEGER NOT NULL"
+};
+
+const eventTables = Object.values(EVENT_TABLES);
+
+function schema(): string {
+  const tables = eventTables.map(({ table, columns }) => {
+    const definitions = Object.entries({ ...LOG_COLUMNS, ...columns }).map(([name, type]) => `${name} ${type}`);
+    const roundIndex =
+      "round_id" in columns ? `\nCREATE INDEX IF NOT EXISTS ${table}_round_id ON ${table} (round_id);` : "";
+    return `CREATE TABLE IF NOT EXISTS ${table} (\n  ${definitions.join(
+      ",\n  "
+    )},\n  PRIMARY KEY (block_number, log_index)\n);${roundIndex}`;
+  });
+
+  return [
+    `CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);`,
+    `CREATE TABLE IF NOT EXISTS checkpoints (block_number INTEGER PRIMARY KEY, block_hash TEXT NOT NULL);`,
+    ...tables
+  ].join("\n");
+}
+
+export function openStore(path: string) {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(schema());
+
+  const insertStatements = new Map(
+    eventTables.map(({ table, columns }) => {
+      const names = [...Object.keys(LOG_COLUMNS), ...Object.keys(columns)];
+      const statement = db.prepare(
+        `INSERT OR REPLACE INTO ${table} (${names.join(", ")}) VALUES (${names.map((name) => `@${name}`).join(", ")})`
+      );
+      return [table, statement] as const;
+    })
+  );
+
+  const getMetaStatement = db.prepare<[string], { value: string }>("SELECT value FROM meta WHERE key = ?");
+  const setMetaStatement = db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)");
+  const insertCheckpoint = db.prepare("INSERT OR REPLACE INTO checkpoints (block_number, block_hash) VALUES (?, ?)");
+  const recentCheckpoints = db.prepare<[number], { block_number: number; block_hash: `0x${string}` }>(
+    "SELECT block_number, block_hash FROM checkpoints ORDER BY block_number DESC LIMIT ?"
+  );
+  const pruneCheckpoints = db.prepare(
+    "DELETE FROM checkpoints WHERE block_number NOT IN (SELECT block_number FROM checkpoints ORDER BY block_number DESC LIMIT ?)"
+  );
+  const deleteCheckpointsAfter = db.prepare("DELETE FROM checkpoints WHERE block_number > ?");
+  const deleteEventsAfter = eventTables.map(({ table }) => db.prepare(`DELETE FROM ${table} WHERE block_number > ?`));
+
+  const commitBatch = db.transaction((logs: StoredLog[], checkpoint: Checkpoint, retention: number) => {
+    for (const log of logs) {
+      const statement = insertStatements.get(log.table);
+      if (!statement) throw new Error(`[indexer] Unknown table ${log.table}`);
+      statement.run({
+        block_number: Number(log.blockNumber),
+        block_hash: log.blockHash,
+        block_timestamp: Number(log.blockTimestamp),
+        tx_hash: log.transactionHash,
+        log_index: log.logIndex,
+        ...log.values
+      });
+    }
+    insertCheckpoint.run(Number(checkpoint.blockNumber), checkpoint.blockHash);
+    pruneCheckpoints.run(retention);
+  });
+
+  const rewind = db.transaction((blockNumber: bigint) => {
+    const target = Number(blockNumber);
+    for (const statement of deleteEventsAfter) statement.run(target);
+    deleteCheckpointsAfter.run(target);
+  });
+
+  return {
+    db,
+    getMeta(key: string): string | undefined {
+      return getMetaStatement.get(key)?.value;
+    },
+    setMeta(key: string, value: string) {
+      setMetaStatement.run(key, value);
+    },
+    /** Newest first. */
+    checkpoints(limit: number): Checkpoint[] {
+      return recentCheckpoints.all(limit).map((row) => ({
+        blockNumber: BigInt(row.block_number),
+        blockHash: row.block_hash
+      }));
+    },
+    latestCheckpoint(): Checkpoint | undefined {
+      return this.checkpoints(1)[0];
+    },
+    commitBatch(logs: StoredLog[], checkpoint: Checkpoint, retention: number) {
+      commitBatch(logs, checkpoint, retention);
+    },
+    /** Drops every event and checkpoint above `blockNumber`. */
+    rewind(blockNumber: bigint) {
+      rewind(blockNumber);
+    },
+    close() {
+      db.close();
+    }
+  };
+}
+
+export type IndexerStore = ReturnType<typeof openStore>;
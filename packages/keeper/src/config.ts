@@ -0,0 +1,72 @@
+import { getAddress, isAddress, isHex, parseEther } from "viem";
+
+const required = (value: string | undefined, label: string): string => {
+  if (!value) throw new Error(`[keeper] Missing value for ${label}`);
+  return value;
+};
+
+const integer = (value: string | undefined, label: string, defaultValue: number): number => {
+  if (value === undefined || value === "") return defaultValue;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new Error(`[keeper] ${label} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+const kas = (value: string | undefined, label: string, defaultValue: bigint): bigint => {
+  if (value === undefined || value === "") return defaultValue;
+  try {
+    return parseEther(value);
+  } catch {
+    throw new Error(`[keeper] ${label} must be a KAS amount, got "${value}"`);
+  }
+};
+
+const flag = (value: string | undefined) => value === "1" || value?.toLowerCase() === "true";
+
+export type KeeperConfig = {
+  rpcUrl: string;
+  chainId: number;
+  contractAddress: `0x${string}`;
+  privateKey?: `0x${string}`;
+  dryRun: boolean;
+  pollIntervalMs: number;
+  maxSteps: bigint;
+  maxGasPerTx: bigint;
+  gasBufferBps: bigint;
+  minProfitWei: bigint;
+  ignoreProfitability: boolean;
+  retryAttempts: number;
+  retryBaseDelayMs: number;
+};
+
+export function loadConfig(source: NodeJS.ProcessEnv = process.env, argv: string[] = process.argv): KeeperConfig {
+  const contractAddress = required(source.KEEPER_CONTRACT_ADDRESS, "KEEPER_CONTRACT_ADDRESS");
+  if (!isAddress(contractAddress)) {
+    throw new Error(`[keeper] KEEPER_CONTRACT_ADDRESS is not a valid address: ${contractAddress}`);
+  }
+
+  const dryRun = argv.includes("--dry-run") || flag(source.KEEPER_DRY_RUN);
+  const privateKey = source.KEEPER_PRIVATE_KEY;
+  if (!dryRun && !privateKey) throw new Error("[keeper] Missing value for KEEPER_PRIVATE_KEY");
+  if (privateKey && (!isHex(privateKey) || privateKey.length !== 66)) {
+    throw new Error("[keeper] KEEPER_PRIVATE_KEY must be a 32-byte hex string");
+  }
+
+  return {
+    rpcUrl: source.KEEPER_RPC_URL || "http://127.0.0.1:8545",
+    chainId: integer(source.KEEPER_CHAIN_ID, "KEEPER_CHAIN_ID", 31337),
+    contractAddress: getAddress(contractAddress),
+    privateKey: privateKey as `0x${string}` | undefined,
+    dryRun,
+    pollIntervalMs: integer(source.KEEPER_POLL_INTERVAL_MS, "KEEPER_POLL_INTERVAL_MS", 15_000),
+    maxSteps: BigInt(Math.max(1, integer(source.KEEPER_MAX_STEPS, "KEEPER_MAX_STEPS", 500))),
+    maxGasPerTx: BigInt(integer(source.KEEPER_MAX_GAS_PER_TX, "KEEPER_MAX_GAS_PER_TX", 8_000_000)),
+    gasBufferBps: BigInt(integer(source.KEEPER_GAS_BUFFER_BPS, "KEEPER_GAS_BUFFER_BPS", 13_000)),
+    minProfitWei: kas(source.KEEPER_MIN_PROFIT_KAS, "KEEPER_MIN_PROFIT_KAS", 0n),
+    ignoreProfitability: flag(source.KEEPER_IGNORE_PROFITABILITY),
+    retryAttempts: Math.max(1, integer(source.KEEPER_RETRY_ATTEMPTS, "KEEPER_RETRY_ATTEMPTS", 5)),
+    retryBaseDelayMs: integer(source.KEEPER_RETRY_BASE_DELAY_MS, "KEEPER_RETRY_BASE_DELAY_MS", 1_000)
+  };
+}
@@ -0,0 +1,34 @@
+import { createPublicClient, createWalletClient, defineChain, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { loadConfig } from "./config";
+import { createKeeper } from "./keeper";
+
+const config = loadConfig();
+
+const chain = defineChain({
+  id: config.chainId,
+  name: "KASRaffle keeper chain",
+  nativeCurrency: { decimals: 18, name: "Kas", symbol: "KAS" },
+  rpcUrls: { default: { http: [config.rpcUrl] } }
+});
+
+const publicClient = createPublicClient({ chain, transport: http(config.rpcUrl) });
+
+const chainId = await publicClient.getChainId();
+if (chainId !== config.chainId) {
+  throw new Error(`[keeper] RPC reports chain ${chainId}, expected KEEPER_CHAIN_ID=${config.chainId}`);
+}
+
+const walletClient = config.privateKey
+  ? createWalletClient({ account: privateKeyToAccount(config.privateKey), chain, transport: http(config.rpcUrl) })
+  : undefined;
+
+const keeper = createKeeper({ publicClient, walletClient, config });
+
+const controller = new AbortController();
+const stop = () => controller.abort();
+process.once("SIGINT", stop);
+process.once("SIGTERM", stop);
+
+await keeper.run(controller.signal);
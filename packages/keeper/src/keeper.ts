@@ -0,0 +1,233 @@
+import { KasRaffleClient, RoundStatus, keeperTip } from "@kasraffle/sdk";
+import { type Account, type PublicClient, type WalletClient, formatEther, zeroAddress } from "viem";
+
+import type { KeeperConfig } from "./config";
+import { isNonceError, sleep, withRetry } from "./retry";
+
+type Logger = Pick<Console, "info" | "warn" | "error">;
+
+type KeeperCall =
+  | { functionName: "closeRound"; args?: undefined }
+  | { functionName: "finalizeRound"; args: readonly [bigint] }
+  | { functionName: "finalizeRefunds"; args: readonly [bigint, bigint] };
+
+type Chunk = { steps: bigint; gas: bigint };
+
+export type KeeperOptions = {
+  publicClient: PublicClient;
+  walletClient?: WalletClient;
+  config: KeeperConfig;
+  logger?: Logger;
+};
+
+export function createKeeper({ publicClient, walletClient, config, logger = console }: KeeperOptions) {
+  const account: Account | `0x${string}` = walletClient?.account ?? zeroAddress;
+  const sender = typeof account === "string" ? account : account.address;
+  // Reads and estimates go through the SDK; sends stay here because the keeper manages its own nonces.
+  const raffle = new KasRaffleClient({ address: config.contractAddress, publicClient });
+  const contract = { address: raffle.address, abi: raffle.abi } as const;
+
+  let nonce: number | undefined;
+
+  const nextNonce = async () => {
+    if (nonce === undefined) {
+      nonce = await publicClient.getTransactionCount({ address: sender, blockTag: "pending" });
+    }
+    return nonce++;
+  };
+
+  const retry = <T>(label: string, fn: () => Promise<T>) =>
+    withRetry(fn, {
+      attempts: config.retryAttempts,
+      baseDelayMs: config.retryBaseDelayMs,
+      label,
+      logger,
+      onRetry: (error) => {
+        if (isNonceError(error)) nonce = undefined;
+      }
+    });
+
+  const readState = () =>
+    retry("read state", async () => {
+      const [round, block, paused, keeperTipWei, keeperTipMaxWei, feesAccrued] = await Promise.all([
+        raffle.getCurrentRound(),
+        publicClient.getBlock({ blockTag: "latest" }),
+        raffle.isPaused(),
+        publicClient.readContract({ ...contract, functionName: "keeperTipWei" }),
+        publicClient.readContract({ ...contract, functionName: "keeperTipMaxWei" }),
+        raffle.getFeesAccrued()
+      ]);
+      return { round, now: block.timestamp, paused, keeperTipWei, keeperTipMaxWei, feesAccrued };
+    });
+
+  type State = Awaited<ReturnType<typeof readState>>;
+
+  /** Mirrors `_payKeeper`: the nominal tip, capped by the max and by fees available at payout time. */
+  const expectedTip = (state: State, pendingFees = 0n) => keeperTip(state, state.feesAccrued + pendingFees);
+
+  // closeRound/finalizeRound gas depends on the seed drawn in the mined block, so a
+  // bare estimate taken against the previous block can under-shoot and run out of gas.
+  const withBuffer = (gas: bigint) => (gas * config.gasBufferBps) / 10_000n;
+
+  const estimate = (call: KeeperCall) =>
+    retry(`estimate ${call.functionName}`, async () =>
+      withBuffer(await raffle.estimateGas(call, account))
+    );
+
+  /** Halves the step count until one chunk fits under `maxGasPerTx`. */
+  const sizeChunk = async (build: (steps: bigint) => KeeperCall): Promise<Chunk> => {
+    let steps = config.maxSteps;
+    for (;;) {
+      const gas = await estimate(build(steps));
+      if (gas <= config.maxGasPerTx) return { steps, gas };
+      if (steps === 1n) {
+        throw new Error(`[keeper] A single step needs ${gas} gas, above KEEPER_MAX_GAS_PER_TX=${config.maxGasPerTx}`);
+      }
+      steps = steps / 2n;
+    }
+  };
+
+  const isProfitable = async (label: string, totalGas: bigint, tip: bigint) => {
+    const gasPrice = await retry("gas price", () => publicClient.getGasPrice());
+    const cost = totalGas * gasPrice;
+    const profit = tip - cost;
+    const profitable = profit >= config.minProfitWei;
+    const summary = `${label}: tip ${formatEther(tip)} KAS, est. cost ${formatEther(cost)} KAS`;
+    if (profitable) {
+      logger.info(`[keeper] ${summary}`);
+    } else if (config.ignoreProfitability) {
+      logger.warn(`[keeper] ${summary} — unprofitable, proceeding (KEEPER_IGNORE_PROFITABILITY)`);
+    } else {
+      logger.warn(`[keeper] ${summary} — skipping, below KEEPER_MIN_PROFIT_KAS`);
+    }
+    return profitable || config.ignoreProfitability;
+  };
+
+  /** Simulates, then (unless dry-running) sends and waits. Returns the call's `done` flag where it has one. */
+  const execute = async (call: KeeperCall, gas: bigint): Promise<boolean> => {
+    const { result, request } = await retry(`simulate ${call.functionName}`, () =>
+      publicClient.simulateContract({ ...contract, ...call, account, gas })
+    );
+    const done = typeof result === "boolean" ? result : true;
+
+    if (config.dryRun || !walletClient) {
+      logger.info(`[keeper] dry-run ${call.functionName}(${call.args?.join(", ") ?? ""}) → done=${done}, gas ${gas}`);
+      return done;
+    }
+
+    // Every attempt reuses one nonce: if an earlier attempt did reach the node, a retry cannot queue a
+    // second transaction, and a send that never went out does not leave a gap in front of the next one.
+    const txNonce = await retry("nonce", nextNonce);
+    let hash: `0x${string}`;
+    try {
+      hash = await retry(`send ${call.functionName}`, () =>
+        walletClient.writeContract({ ...request, chain: walletClient.chain, nonce: txNonce })
+      );
+    } catch (error) {
+      nonce = undefined;
+      throw error;
+    }
+    logger.info(`[keeper] ${call.functionName} sent: ${hash}`);
+    const receipt = await retry(`receipt ${hash}`, () => publicClient.waitForTransactionReceipt({ hash }));
+    if (receipt.status !== "success") {
+      // The nonce was consumed either way; a revert only means someone else progressed the round.
+      throw new Error(`[keeper] ${call.functionName} reverted in ${hash}`);
+    }
+    return done;
+  };
+
+  const closeRound = async (state: State) => {
+    const gas = await estimate({ functionName: "closeRound" });
+    if (!(await isProfitable(`closeRound #${state.round.id}`, gas, expectedTip(state)))) return false;
+    await execute({ functionName: "closeRound" }, gas);
+    return true;
+  };
+
+  const drain = async (
+    label: string,
+    build: (steps: bigint) => KeeperCall,
+    state: State,
+    pendingFees: bigint
+  ) => {
+    const first = await sizeChunk(build);
+    const participants = await retry("participants", () =>
+      raffle.getParticipantsCount(state.round.id)
+    );
+    const chunks = participants === 0n ? 1n : (participants + first.steps - 1n) / first.steps;
+    if (!(await isProfitable(`${label} (${chunks} chunk(s))`, first.gas * chunks, expectedTip(state, pendingFees)))) {
+      return false;
+    }
+
+    let chunk = first;
+    for (;;) {
+      const done = await execute(build(chunk.steps), chunk.gas);
+      if (done || config.dryRun) return true;
+      chunk = await sizeChunk(build);
+    }
+  };
+
+  /** Progresses the current round by one lifecycle stage if it is due. Returns ms until the next check. */
+  const tick = async (): Promise<number> => {
+    const next = (acted: boolean) => (acted ? 0 : config.pollIntervalMs);
+    const state = await readState();
+    const { round } = state;
+
+    if (state.paused) {
+      logger.info("[keeper] Contract paused; waiting");
+      return config.pollIntervalMs;
+    }
+
+    switch (round.status) {
+      case RoundStatus.Open: {
+        if (round.endTime === 0n) return config.pollIntervalMs;
+        if (state.now < round.endTime) {
+          const wait = Number(round.endTime - state.now) * 1000 + 1000;
+          return Math.min(wait, config.pollIntervalMs);
+        }
+        return next(await closeRound(state));
+      }
+      case RoundStatus.Drawing: {
+        const acted = await drain(
+          `finalizeRound #${round.id}`,
+          (steps) => ({ functionName: "finalizeRound", args: [steps] }),
+          state,
+          round.feeShare
+        );
+        return next(acted);
+      }
+      case RoundStatus.Refunding: {
+        const acted = await drain(
+          `finalizeRefunds #${round.id}`,
+          (steps) => ({ functionName: "finalizeRefunds", args: [round.id, steps] }),
+          state,
+          0n
+        );
+        return next(acted);
+      }
+      default:
+        return config.pollIntervalMs;
+    }
+  };
+
+  const run = async (signal: AbortSignal) => {
+    logger.info(
+      `[keeper] Watching ${config.contractAddress} as ${sender}${config.dryRun ? " (dry-run)" : ""}`
+    );
+    while (!signal.aborted) {
+      let delay = config.pollIntervalMs;
+      try {
+        delay = await tick();
+        // A dry run never changes state, so an immediate re-check would spin.
+        if (config.dryRun && delay === 0) delay = config.pollIntervalMs;
+      } catch (error) {
+        logger.error(error instanceof Error ? error.message : error);
+      }
+      await sleep(delay, signal);
+    }
+  };
+
+  return {
+    tick,
+    run
+  };
+}
@@ -0,0 +1,50 @@
+import { BaseError, ContractFunctionRevertedError } from "viem";
+
+export type RetryOptions = {
+  attempts: number;
+  baseDelayMs: number;
+  label: string;
+  logger: Pick<Console, "warn">;
+  onRetry?: (error: unknown) => void;
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+/** Reverts are deterministic for a given state, so retrying them only burns RPC quota. */
+export function isRevert(error: unknown): boolean {
+  return error instanceof BaseError && error.walk((cause) => cause instanceof ContractFunctionRevertedError) !== null;
+}
+
+export function isNonceError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message.toLowerCase() : "";
+  return message.includes("nonce too low") || message.includes("nonce too high") || message.includes("replacement");
+}
+
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= options.attempts; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+      if (isRevert(error) || attempt === options.attempts) break;
+      const delay = options.baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+      const reason = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : error;
+      options.logger.warn(`[keeper] ${options.label} failed (attempt ${attempt}/${options.attempts}): ${reason}`);
+      options.onRetry?.(error);
+      await sleep(delay);
+    }
+  }
+  throw lastError;
+}
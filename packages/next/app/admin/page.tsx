@@ -1,19 +1,73 @@
 "use client";
 
-import { ChangeEvent, useEffect, useState } from "react";
+import { type ParamsArgs, parseKas } from "@kasraffle/sdk";
+import Link from "next/link";
+import { ChangeEvent, ReactNode, useEffect, useMemo, useState } from "react";
 
+import { type AdminMode, AdminModePanel } from "@/components/AdminModePanel";
+import { FormField } from "@/components/FormField";
+import { OwnershipCard } from "@/components/OwnershipCard";
+import { ParamsPresets } from "@/components/ParamsPresets";
+import { ParamsPreview } from "@/components/ParamsPreview";
+import { SweepExcessCard } from "@/components/SweepExcessCard";
+import { TreasuryPanel } from "@/components/TreasuryPanel";
 import { usePause, useUnpause } from "@/hooks/usePauseControls";
 import { useRaffleConfig } from "@/hooks/useRaffleConfig";
+import { useOwner } from "@/hooks/useOwner";
+import { useRound } from "@/hooks/useRound";
+import { SafeBatchContext, useSafeBatchState } from "@/hooks/useSafeBatch";
 import { useSetFeeVault } from "@/hooks/useSetFeeVault";
 import { useSetParams } from "@/hooks/useSetParams";
-import { useTierBps } from "@/hooks/useTierBps";
 import { useWithdrawFees } from "@/hooks/useWithdrawFees";
 import { formatKas } from "@/lib/format";
-import { formatEther, parseEther } from "viem";
+import { type ParamsForm, diffParams, lintParams, parseParamsForm, roundImpact } from "@/lib/params";
+import { formatEther, isAddressEqual } from "viem";
+import { useAccount } from "wagmi";
 
 export default function AdminPage() {
-  const { values, isLoading } = useRaffleConfig();
-  const { tiers } = useTierBps();
+  const { address } = useAccount();
+  const { owner, isContractOwner, safeOwners, refetch: refetchOwner } = useOwner();
+  const [modeOverride, setModeOverride] = useState<AdminMode | null>(null);
+  // Batches are only for contract owners; an EOA owner always signs from its wallet.
+  const mode: AdminMode = isContractOwner ? (modeOverride ?? "safe") : "wallet";
+  const { batch, transactions, remove, clear } = useSafeBatchState(mode === "safe" ? owner : undefined);
+  const isOwnerWallet = Boolean(address && owner && isAddressEqual(address, owner));
+  // A Safe signer's own wallet is never the owner, so in batch mode it has to be one of the Safe's owners.
+  const isSafeSigner = Boolean(address && safeOwners?.some((signer) => isAddressEqual(signer, address)));
+  const readOnly = mode === "safe" ? !isSafeSigner : !isOwnerWallet;
+
+  return (
+    <SafeBatchContext.Provider value={batch}>
+      <AdminControls
+        modePanel={
+          <AdminModePanel
+            owner={owner}
+            isContractOwner={isContractOwner}
+            mode={mode}
+            onModeChange={setModeOverride}
+            transactions={transactions}
+            onRemove={remove}
+            onClear={clear}
+          />
+        }
+        ownershipCard={<OwnershipCard owner={owner} readOnly={readOnly} onChanged={refetchOwner} />}
+        batching={Boolean(batch)}
+        readOnly={readOnly}
+      />
+    </SafeBatchContext.Provider>
+  );
+}
+
+type AdminControlsProps = {
+  modePanel: ReactNode;
+  ownershipCard: ReactNode;
+  batching: boolean;
+  readOnly: boolean;
+};
+
+function AdminControls({ modePanel, ownershipCard, batching, readOnly }: AdminControlsProps) {
+  const { config, values, isLoading } = useRaffleConfig();
+  const { round } = useRound();
   const { withdrawFees, isPending: withdrawing, error: withdrawError } = useWithdrawFees();
   const { setFeeVault, isPending: settingFeeVault, error: feeVaultError } = useSetFeeVault();
   const { action: pause, isPending: pausing, error: pauseError } = usePause();
@@ -26,8 +80,9 @@ export default function AdminPage() {
   } = useSetParams();
 
   const [withdrawAmount, setWithdrawAmount] = useState("0.0");
+  const [withdrawInputError, setWithdrawInputError] = useState<string | null>(null);
   const [feeVault, setFeeVaultAddress] = useState("0x");
-  const [paramsForm, setParamsForm] = useState({
+  const [paramsForm, setParamsForm] = useState<ParamsForm>({
     ticketPrice: "0.1",
     roundDurationMinutes: "180",
     minTicketsToDraw: "2",
@@ -44,11 +99,12 @@ export default function AdminPage() {
   const [formInitialized, setFormInitialized] = useState(false);
   const [paramsErrorMessage, setParamsErrorMessage] = useState<string | null>(null);
   const [paramsSuccessMessage, setParamsSuccessMessage] = useState<string | null>(null);
+  const [acknowledgedImpact, setAcknowledgedImpact] = useState(false);
 
   useEffect(() => {
     if (formInitialized) return;
     if (!values || Object.keys(values).length === 0) return;
-    const tierString = tiers && tiers.length > 0 ? tiers.join(",") : "6000,2500,1500";
+    const tierString = values.tierBps && values.tierBps.length > 0 ? values.tierBps.join(",") : "6000,2500,1500";
 
     setParamsForm({
       ticketPrice: values.ticketPrice ? formatEther(values.ticketPrice) : "0.1",
@@ -69,7 +125,7 @@ export default function AdminPage() {
       tierBps: tierString
     });
     setFormInitialized(true);
-  }, [formInitialized, values, tiers]);
+  }, [formInitialized, values]);
 
   useEffect(() => {
     if (paramsReceipt?.status === "success") {
@@ -77,16 +133,49 @@ export default function AdminPage() {
     }
   }, [paramsReceipt?.status]);
 
+  const preview = useMemo(() => {
+    const current = config;
+    let proposed: ParamsArgs | undefined;
+    let parseError: string | undefined;
+    try {
+      proposed = parseParamsForm(paramsForm);
+    } catch (error) {
+      parseError = error instanceof Error ? error.message : "Failed to read the form.";
+    }
+    const changes = current && proposed ? diffParams(current, proposed) : [];
+    const issues = proposed ? lintParams(proposed) : [];
+    const impacts =
+      current && proposed && round
+        ? roundImpact(current, proposed, {
+            id: round.id,
+            status: round.status,
+            endTime: round.endTime,
+            totalTickets: round.totalTickets,
+            participants: round.participants
+          })
+        : [];
+    return { proposed, parseError, changes, issues, impacts };
+  }, [config, paramsForm, round]);
+
+  const impactNeedsAck = preview.impacts.some((issue) => issue.severity === "error");
+
   const handleParamChange = (field: keyof typeof paramsForm) => (event: ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
     setParamsForm((prev) => ({ ...prev, [field]: value }));
+    setAcknowledgedImpact(false);
   };
 
   const handleWithdraw = async () => {
-    const value = parseFloat(withdrawAmount);
-    if (!Number.isFinite(value) || value <= 0) return;
+    let amount: bigint;
     try {
-      await withdrawFees(parseEther(withdrawAmount as `${number}`));
+      amount = parseKas(withdrawAmount, { label: "Withdrawal" });
+    } catch (error) {
+      setWithdrawInputError((error as Error).message);
+      return;
+    }
+    setWithdrawInputError(null);
+    try {
+      await withdrawFees(amount);
     } catch (error) {
       console.error(error);
     }
@@ -107,62 +196,15 @@ export default function AdminPage() {
     setParamsSuccessMessage(null);
 
     try {
-      const tierValues = paramsForm.tierBps
-        .split(",")
-        .map((value) => value.trim())
-        .filter(Boolean)
-        .map((value) => Number.parseInt(value, 10));
-
-      if (tierValues.length === 0 || tierValues.some((value) => Number.isNaN(value))) {
-        throw new Error("Tier BPS must contain integers separated by commas.");
-      }
-
-      const tierSum = tierValues.reduce((acc, value) => acc + value, 0);
-      if (tierSum !== 10_000) {
-        throw new Error("Tier BPS must sum to 10,000.");
-      }
-
-      const winnersBps = Number.parseInt(paramsForm.winnersBps, 10);
-      const feeBps = Number.parseInt(paramsForm.feeBps, 10);
-      const rolloverBps = Number.parseInt(paramsForm.rolloverBps, 10);
-      if (winnersBps + feeBps + rolloverBps !== 10_000) {
-        throw new Error("Winners + fee + rollover BPS must sum to 10,000.");
-      }
-
-      const roundDurationMinutesValue = Number.parseFloat(paramsForm.roundDurationMinutes);
-      if (!Number.isFinite(roundDurationMinutesValue) || roundDurationMinutesValue <= 0) {
-        throw new Error("Round duration must be greater than zero.");
+      if (!preview.proposed) throw new Error(preview.parseError ?? "Failed to read the form.");
+      const blocking = preview.issues.find((issue) => issue.severity === "error");
+      if (blocking) throw new Error(blocking.message);
+      if (preview.impacts.some((issue) => issue.severity === "error") && !acknowledgedImpact) {
+        throw new Error("Confirm that you accept the effect on the current round before submitting.");
       }
 
-      const minTicketsToDraw = Number.parseInt(paramsForm.minTicketsToDraw, 10);
-      const maxParticipants = Number.parseInt(paramsForm.maxParticipants, 10);
-      const maxTicketsPerAddress = Number.parseInt(paramsForm.maxTicketsPerAddress, 10);
-      const maxTicketsPerRound = Number.parseInt(paramsForm.maxTicketsPerRound, 10);
-
-      const ints = [minTicketsToDraw, maxParticipants, maxTicketsPerAddress, maxTicketsPerRound];
-      if (ints.some((value) => !Number.isFinite(value) || value <= 0)) {
-        throw new Error("Numeric limits must be positive integers.");
-      }
-
-      const ticketPrice = parseEther(paramsForm.ticketPrice as `${number}`);
-      const keeperTipWei = parseEther(paramsForm.keeperTipWei as `${number}`);
-      const keeperTipMaxWei = parseEther(paramsForm.keeperTipMaxWei as `${number}`);
-
-      await setParams({
-        ticketPrice,
-        roundDuration: BigInt(Math.max(1, Math.round(roundDurationMinutesValue * 60))),
-        minTicketsToDraw: BigInt(minTicketsToDraw),
-        maxParticipants: BigInt(maxParticipants),
-        maxTicketsPerAddress: BigInt(maxTicketsPerAddress),
-        maxTicketsPerRound: BigInt(maxTicketsPerRound),
-        winnersBps,
-        feeBps,
-        rolloverBps,
-        keeperTipWei,
-        keeperTipMaxWei,
-        tierBps: tierValues
-      });
-      setParamsSuccessMessage("Transaction submitted. Awaiting confirmation…");
+      const hash = await setParams(preview.proposed);
+      setParamsSuccessMessage(hash ? "Transaction submitted. Awaiting confirmation…" : "Added to the Safe batch.");
     } catch (error) {
       const message = error instanceof Error ? error.message : "Failed to update parameters.";
       setParamsErrorMessage(message);
@@ -172,143 +214,184 @@ export default function AdminPage() {
 
   return (
     <main className="mx-auto flex min-h-screen w-full max-w-4xl flex-col gap-8 px-6 py-10">
-      <header>
-        <h1 className="text-3xl font-semibold">Admin Controls</h1>
-        <p className="text-sm text-slate-400">Protocol configuration and fee management</p>
+      <header className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Admin Controls</h1>
+          <p className="text-sm text-slate-400">Protocol configuration and fee management</p>
+        </div>
+        <Link href="/admin/simulate" className="text-sm text-orange-400 hover:text-orange-300">
+          Simulate parameters
+        </Link>
       </header>
 
-      <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
-        <h2 className="text-xl font-semibold">Protocol Parameters</h2>
-        <p className="text-sm text-slate-400">Update raffle limits, fee splits, and keeper incentives.</p>
-        <form onSubmit={handleParamsSubmit} className="mt-4 space-y-4">
-          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-            <FormField
-              label="Ticket Price (KAS)"
-              value={paramsForm.ticketPrice}
-              onChange={handleParamChange("ticketPrice")}
-              type="number"
-              min="0"
-              step="0.0001"
-              required
-            />
-            <FormField
-              label="Round Duration (minutes)"
-              value={paramsForm.roundDurationMinutes}
-              onChange={handleParamChange("roundDurationMinutes")}
-              type="number"
-              min="1"
-              step="1"
-              required
-            />
-            <FormField
-              label="Min Tickets To Draw"
-              value={paramsForm.minTicketsToDraw}
-              onChange={handleParamChange("minTicketsToDraw")}
-              type="number"
-              min="1"
-              step="1"
-              required
-            />
-            <FormField
-              label="Max Participants"
-              value={paramsForm.maxParticipants}
-              onChange={handleParamChange("maxParticipants")}
-              type="number"
-              min="1"
-              step="1"
-              required
-            />
-            <FormField
-              label="Max Tickets / Address"
-              value={paramsForm.maxTicketsPerAddress}
-              onChange={handleParamChange("maxTicketsPerAddress")}
-              type="number"
-              min="1"
-              step="1"
-              required
-            />
-            <FormField
-              label="Max Tickets / Round"
-              value={paramsForm.maxTicketsPerRound}
-              onChange={handleParamChange("maxTicketsPerRound")}
-              type="number"
-              min="1"
-              step="1"
-              required
-            />
-            <FormField
-              label="Winners Share (bps)"
-              value={paramsForm.winnersBps}
-              onChange={handleParamChange("winnersBps")}
-              type="number"
-              min="0"
-              max="10000"
-              step="1"
-              required
-            />
-            <FormField
-              label="Fee Share (bps)"
-              value={paramsForm.feeBps}
-              onChange={handleParamChange("feeBps")}
-              type="number"
-              min="0"
-              max="10000"
-              step="1"
-              required
-            />
-            <FormField
-              label="Rollover Share (bps)"
-              value={paramsForm.rolloverBps}
-              onChange={handleParamChange("rolloverBps")}
-              type="number"
-              min="0"
-              max="10000"
-              step="1"
-              required
-            />
-            <FormField
-              label="Keeper Tip (KAS)"
-              value={paramsForm.keeperTipWei}
-              onChange={handleParamChange("keeperTipWei")}
-              type="number"
-              min="0"
-              step="0.0001"
-              required
-            />
-            <FormField
-              label="Keeper Tip Max (KAS)"
-              value={paramsForm.keeperTipMaxWei}
-              onChange={handleParamChange("keeperTipMaxWei")}
-              type="number"
-              min="0"
-              step="0.0001"
-              required
+      {readOnly && (
+        <section className="rounded-xl border border-amber-500/40 bg-amber-500/10 p-4 text-sm text-amber-200">
+          The connected wallet is not the contract owner or one of the owner Safe&apos;s signers, so this page is
+          read-only. Connect the owner wallet, or a wallet that signs for the owner Safe.
+        </section>
+      )}
+
+      {modePanel}
+
+      {!readOnly && (
+        <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+          <h2 className="text-xl font-semibold">Protocol Parameters</h2>
+          <p className="text-sm text-slate-400">Update raffle limits, fee splits, and keeper incentives.</p>
+          <form onSubmit={handleParamsSubmit} className="mt-4 space-y-4">
+            <ParamsPresets
+              form={paramsForm}
+              onApply={(form) => {
+                setParamsForm(form);
+                setAcknowledgedImpact(false);
+                setFormInitialized(true);
+              }}
             />
-            <FormField
-              label="Tier BPS (comma separated)"
-              value={paramsForm.tierBps}
-              onChange={handleParamChange("tierBps")}
-              placeholder="6000,2500,1500"
-              required
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                label="Ticket Price (KAS)"
+                value={paramsForm.ticketPrice}
+                onChange={handleParamChange("ticketPrice")}
+                type="number"
+                min="0"
+                step="0.0001"
+                required
+              />
+              <FormField
+                label="Round Duration (minutes)"
+                value={paramsForm.roundDurationMinutes}
+                onChange={handleParamChange("roundDurationMinutes")}
+                type="number"
+                min="1"
+                step="1"
+                required
+              />
+              <FormField
+                label="Min Tickets To Draw"
+                value={paramsForm.minTicketsToDraw}
+                onChange={handleParamChange("minTicketsToDraw")}
+                type="number"
+                min="1"
+                step="1"
+                required
+              />
+              <FormField
+                label="Max Participants"
+                value={paramsForm.maxParticipants}
+                onChange={handleParamChange("maxParticipants")}
+                type="number"
+                min="1"
+                step="1"
+                required
+              />
+              <FormField
+                label="Max Tickets / Address"
+                value={paramsForm.maxTicketsPerAddress}
+                onChange={handleParamChange("maxTicketsPerAddress")}
+                type="number"
+                min="1"
+                step="1"
+                required
+              />
+              <FormField
+                label="Max Tickets / Round"
+                value={paramsForm.maxTicketsPerRound}
+                onChange={handleParamChange("maxTicketsPerRound")}
+                type="number"
+                min="1"
+                step="1"
+                required
+              />
+              <FormField
+                label="Winners Share (bps)"
+                value={paramsForm.winnersBps}
+                onChange={handleParamChange("winnersBps")}
+                type="number"
+                min="0"
+                max="10000"
+                step="1"
+                required
+              />
+              <FormField
+                label="Fee Share (bps)"
+                value={paramsForm.feeBps}
+                onChange={handleParamChange("feeBps")}
+                type="number"
+                min="0"
+                max="10000"
+                step="1"
+                required
+              />
+              <FormField
+                label="Rollover Share (bps)"
+                value={paramsForm.rolloverBps}
+                onChange={handleParamChange("rolloverBps")}
+                type="number"
+                min="0"
+                max="10000"
+                step="1"
+                required
+              />
+              <FormField
+                label="Keeper Tip (KAS)"
+                value={paramsForm.keeperTipWei}
+                onChange={handleParamChange("keeperTipWei")}
+                type="number"
+                min="0"
+                step="0.0001"
+                required
+              />
+              <FormField
+                label="Keeper Tip Max (KAS)"
+                value={paramsForm.keeperTipMaxWei}
+                onChange={handleParamChange("keeperTipMaxWei")}
+                type="number"
+                min="0"
+                step="0.0001"
+                required
+              />
+              <FormField
+                label="Tier BPS (comma separated)"
+                value={paramsForm.tierBps}
+                onChange={handleParamChange("tierBps")}
+                placeholder="6000,2500,1500"
+                required
+              />
+            </div>
+            <ParamsPreview
+              changes={preview.changes}
+              issues={preview.issues}
+              impacts={preview.impacts}
+              parseError={preview.parseError}
+              roundLabel={round ? `round #${round.id}` : undefined}
             />
-          </div>
-          <div className="flex flex-col gap-2">
-            <button
-              type="submit"
-              className="self-start rounded-md bg-orange-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-orange-400 disabled:cursor-not-allowed disabled:opacity-50"
-              disabled={updatingParams}
-            >
-              {updatingParams ? "Updating parameters…" : "Update Parameters"}
-            </button>
-            {(paramsErrorMessage || paramsError) && (
-              <p className="text-xs text-red-400">{paramsErrorMessage ?? paramsError?.message}</p>
+            {impactNeedsAck && (
+              <label className="flex items-center gap-2 text-xs text-red-300">
+                <input
+                  type="checkbox"
+                  checked={acknowledgedImpact}
+                  onChange={(event) => setAcknowledgedImpact(event.target.checked)}
+                />
+                I understand how this change affects the current round.
+              </label>
             )}
-            {paramsSuccessMessage && (
-              <p className="text-xs text-green-400">{paramsSuccessMessage}</p>
-            )}
-          </div>
-        </form>
-      </section>
+            <div className="flex flex-col gap-2">
+              <button
+                type="submit"
+                className="self-start rounded-md bg-orange-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-orange-400 disabled:cursor-not-allowed disabled:opacity-50"
+                disabled={updatingParams}
+              >
+                {updatingParams ? "Updating parameters…" : batching ? "Add to Safe Batch" : "Update Parameters"}
+              </button>
+              {(paramsErrorMessage || paramsError) && (
+                <p className="text-xs text-red-400">{paramsErrorMessage ?? paramsError?.message}</p>
+              )}
+              {paramsSuccessMessage && (
+                <p className="text-xs text-green-400">{paramsSuccessMessage}</p>
+              )}
+            </div>
+          </form>
+        </section>
+      )}
 
       <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
         <h2 className="text-xl font-semibold">Protocol Stats</h2>
@@ -330,79 +413,88 @@ export default function AdminPage() {
         )}
       </section>
 
-      <section className="grid grid-cols-1 gap-6 md:grid-cols-2">
-        <div className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
-          <h2 className="text-lg font-semibold">Withdraw Fees</h2>
-          <p className="text-sm text-slate-400">Withdraw accrued protocol fees to the configured vault.</p>
-          <div className="flex items-center gap-3">
+      <TreasuryPanel />
+
+      {!readOnly && (
+        <>
+        <SweepExcessCard />
+
+        <section className="grid grid-cols-1 gap-6 md:grid-cols-2">
+          <div className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+            <h2 className="text-lg font-semibold">Withdraw Fees</h2>
+            <p className="text-sm text-slate-400">Withdraw accrued protocol fees to the configured vault.</p>
+            <div className="flex items-center gap-3">
+              <input
+                inputMode="decimal"
+                value={withdrawAmount}
+                onChange={(event) => setWithdrawAmount(event.target.value)}
+                className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
+                placeholder="Amount in KAS"
+              />
+              <button
+                onClick={handleWithdraw}
+                disabled={withdrawing}
+                className="rounded-md bg-orange-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-orange-400 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {withdrawing ? "Withdrawing…" : "Withdraw"}
+              </button>
+            </div>
+            {withdrawInputError && <p className="text-xs text-red-400">{withdrawInputError}</p>}
+            {withdrawError && <p className="text-xs text-red-400">{withdrawError.message}</p>}
+          </div>
+
+          <div className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+            <h2 className="text-lg font-semibold">Fee Vault</h2>
+            <p className="text-sm text-slate-400">Update the fee vault address.</p>
             <input
-              type="number"
-              min="0"
-              step="0.01"
-              value={withdrawAmount}
-              onChange={(event) => setWithdrawAmount(event.target.value)}
-              className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
-              placeholder="Amount in KAS"
+              type="text"
+              value={feeVault}
+              onChange={(event) => setFeeVaultAddress(event.target.value)}
+              className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 font-mono text-xs text-slate-100 focus:border-orange-400 focus:outline-none"
+              placeholder="0x..."
             />
             <button
-              onClick={handleWithdraw}
-              disabled={withdrawing}
-              className="rounded-md bg-orange-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-orange-400 disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={handleSetFeeVault}
+              disabled={settingFeeVault}
+              className="rounded-md bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
             >
-              {withdrawing ? "Withdrawing…" : "Withdraw"}
+              {settingFeeVault ? "Updating…" : "Update Vault"}
             </button>
+            {feeVaultError && <p className="text-xs text-red-400">{feeVaultError.message}</p>}
           </div>
-          {withdrawError && <p className="text-xs text-red-400">{withdrawError.message}</p>}
-        </div>
+        </section>
 
-        <div className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
-          <h2 className="text-lg font-semibold">Fee Vault</h2>
-          <p className="text-sm text-slate-400">Update the fee vault address.</p>
-          <input
-            type="text"
-            value={feeVault}
-            onChange={(event) => setFeeVaultAddress(event.target.value)}
-            className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 font-mono text-xs text-slate-100 focus:border-orange-400 focus:outline-none"
-            placeholder="0x..."
-          />
-          <button
-            onClick={handleSetFeeVault}
-            disabled={settingFeeVault}
-            className="rounded-md bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
-          >
-            {settingFeeVault ? "Updating…" : "Update Vault"}
-          </button>
-          {feeVaultError && <p className="text-xs text-red-400">{feeVaultError.message}</p>}
-        </div>
-      </section>
+        <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+          <h2 className="text-lg font-semibold">Pause Controls</h2>
+          <p className="text-sm text-slate-400">Emergency switches to halt ticket purchases.</p>
+          <div className="mt-4 flex gap-3">
+            <button
+              onClick={() => pause()}
+              disabled={pausing}
+              className="rounded-md bg-red-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-red-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {pausing ? "Pausing…" : "Pause"}
+            </button>
+            <button
+              onClick={() => unpause()}
+              disabled={unpausing}
+              className="rounded-md bg-green-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-green-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {unpausing ? "Unpausing…" : "Resume"}
+            </button>
+          </div>
+          {(pauseError || unpauseError) && (
+            <p className="mt-2 text-xs text-red-400">{(pauseError || unpauseError)?.message}</p>
+          )}
+          <p className="mt-4 text-xs text-slate-500">
+            Advanced parameter tuning (tier BPS, caps, keeper incentives) will be added soon. Update these values via the
+            `setParams` call directly until the UI is complete.
+          </p>
+        </section>
+        </>
+      )}
 
-      <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
-        <h2 className="text-lg font-semibold">Pause Controls</h2>
-        <p className="text-sm text-slate-400">Emergency switches to halt ticket purchases.</p>
-        <div className="mt-4 flex gap-3">
-          <button
-            onClick={() => pause()}
-            disabled={pausing}
-            className="rounded-md bg-red-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-red-400 disabled:cursor-not-allowed disabled:opacity-50"
-          >
-            {pausing ? "Pausing…" : "Pause"}
-          </button>
-          <button
-            onClick={() => unpause()}
-            disabled={unpausing}
-            className="rounded-md bg-green-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-green-400 disabled:cursor-not-allowed disabled:opacity-50"
-          >
-            {unpausing ? "Unpausing…" : "Resume"}
-          </button>
-        </div>
-        {(pauseError || unpauseError) && (
-          <p className="mt-2 text-xs text-red-400">{(pauseError || unpauseError)?.message}</p>
-        )}
-        <p className="mt-4 text-xs text-slate-500">
-          Advanced parameter tuning (tier BPS, caps, keeper incentives) will be added soon. Update these values via the
-          `setParams` call directly until the UI is complete.
-        </p>
-      </section>
+      {ownershipCard}
     </main>
   );
 }
@@ -415,42 +507,3 @@ function Stat({ label, value }: { label: string; value: string }) {
     </div>
   );
 }
-
-function FormField({
-  label,
-  value,
-  onChange,
-  type = "text",
-  placeholder,
-  min,
-  max,
-  step,
-  required
-}: {
-  label: string;
-  value: string;
-  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
-  type?: string;
-  placeholder?: string;
-  min?: string;
-  max?: string;
-  step?: string;
-  required?: boolean;
-}) {
-  return (
-    <label className="flex flex-col gap-2 text-sm text-slate-300">
-      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
-      <input
-        type={type}
-        value={value}
-        onChange={onChange}
-        placeholder={placeholder}
-        min={min}
-        max={max}
-        step={step}
-        required={required}
-        className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
-      />
-    </label>
-  );
-}
@@ -0,0 +1,433 @@
+"use client";
+
+import {
+  type Distribution,
+  type RoundStats,
+  type SimulationResult,
+  simulateRaffle,
+  validateParams
+} from "@kasraffle/sdk";
+import Link from "next/link";
+import { type ChangeEvent, useEffect, useState } from "react";
+import { formatEther } from "viem";
+
+import { FormField } from "@/components/FormField";
+import { type ChartSeries, LineChart } from "@/components/LineChart";
+import { ParamsPresets } from "@/components/ParamsPresets";
+import { useRaffleConfig } from "@/hooks/useRaffleConfig";
+import { useTreasury } from "@/hooks/useTreasury";
+import { formatKas } from "@/lib/format";
+import { type ParamsForm, diffParams, parseParamsForm, toParamsForm } from "@/lib/params";
+import { BUILT_IN_PRESETS } from "@/lib/presets";
+import {
+  DEFAULT_SIMULATION_FORM,
+  DEMAND_LABELS,
+  type DemandKind,
+  type SimulationForm,
+  formatPercent,
+  parseSimulationForm
+} from "@/lib/simulation";
+
+type Scenario = { label: string; color: string; result: SimulationResult };
+
+const PROPOSED_COLOR = "#fb923c";
+const PROPOSED_BAND_COLOR = "#fdba74";
+const ON_CHAIN_COLOR = "#94a3b8";
+
+const PARAM_FIELDS: { key: keyof ParamsForm; label: string; step?: string }[] = [
+  { key: "ticketPrice", label: "Ticket Price (KAS)", step: "0.0001" },
+  { key: "minTicketsToDraw", label: "Min Tickets To Draw", step: "1" },
+  { key: "winnersBps", label: "Winners Share (bps)", step: "1" },
+  { key: "feeBps", label: "Fee Share (bps)", step: "1" },
+  { key: "rolloverBps", label: "Rollover Share (bps)", step: "1" },
+  { key: "tierBps", label: "Tier BPS (comma separated)" },
+  { key: "keeperTipWei", label: "Keeper Tip (KAS)", step: "0.0001" },
+  { key: "keeperTipMaxWei", label: "Keeper Tip Max (KAS)", step: "0.0001" },
+  { key: "maxParticipants", label: "Max Participants", step: "1" },
+  { key: "maxTicketsPerAddress", label: "Max Tickets / Address", step: "1" },
+  { key: "maxTicketsPerRound", label: "Max Tickets / Round", step: "1" }
+];
+
+export default function SimulatePage() {
+  const { config } = useRaffleConfig();
+  const { state } = useTreasury();
+
+  const [paramsForm, setParamsForm] = useState<ParamsForm>(() => toParamsForm(BUILT_IN_PRESETS[0].params));
+  const [formInitialized, setFormInitialized] = useState(false);
+  const [simulationForm, setSimulationForm] = useState<SimulationForm>(DEFAULT_SIMULATION_FORM);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [running, setRunning] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (formInitialized || !config) return;
+    setParamsForm(toParamsForm(config));
+    setFormInitialized(true);
+  }, [formInitialized, config]);
+
+  const handleParamChange = (field: keyof ParamsForm) => (event: ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setParamsForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSimulationChange =
+    (field: Exclude<keyof SimulationForm, "demand" | "withdrawFeesEachRound" | "startFromChain">) =>
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const value = event.target.value;
+      setSimulationForm((prev) => ({ ...prev, [field]: value }));
+    };
+
+  const handleRun = () => {
+    setErrorMessage(null);
+    try {
+      const params = parseParamsForm(paramsForm);
+      const problem = validateParams(params).find((issue) => issue.severity === "error");
+      if (problem) throw new Error(problem.message);
+      const options = parseSimulationForm(simulationForm, params, state);
+
+      setRunning(true);
+      // Yield first so the button shows its busy state while the runs tie up the main thread.
+      setTimeout(() => {
+        try {
+          const next: Scenario[] = [{ label: "Proposed", color: PROPOSED_COLOR, result: simulateRaffle(options) }];
+          // Same seed, so both configurations face the same stream of random draws.
+          if (config && diffParams(config, params).length > 0) {
+            next.push({ label: "On-chain", color: ON_CHAIN_COLOR, result: simulateRaffle({ ...options, config }) });
+          }
+          setScenarios(next);
+        } catch (error) {
+          setErrorMessage(error instanceof Error ? error.message : "Simulation failed.");
+        } finally {
+          setRunning(false);
+        }
+      }, 0);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to read the form.");
+    }
+  };
+
+  const demand = simulationForm.demand;
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-5xl flex-col gap-6 px-6 py-10">
+      <header className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Economic Simulator</h1>
+          <p className="text-sm text-slate-400">
+            Monte Carlo runs of the contract&apos;s split, rollover and keeper-tip accounting under simulated demand.
+          </p>
+        </div>
+        <Link href="/admin" className="text-sm text-orange-400 hover:text-orange-300">
+          Admin controls
+        </Link>
+      </header>
+
+      <section className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-semibold">Parameters</h2>
+            <p className="text-sm text-slate-400">
+              Starts from the on-chain values. Changed values are also simulated against the on-chain set.
+            </p>
+          </div>
+          {config && (
+            <button
+              type="button"
+              onClick={() => setParamsForm(toParamsForm(config))}
+              className="rounded-md border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:border-orange-400 hover:text-orange-300"
+            >
+              Reset to on-chain
+            </button>
+          )}
+        </div>
+        <ParamsPresets
+          form={paramsForm}
+          onApply={(form) => {
+            setParamsForm(form);
+            setFormInitialized(true);
+          }}
+        />
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          {PARAM_FIELDS.map(({ key, label, step }) => (
+            <FormField
+              key={key}
+              label={label}
+              value={paramsForm[key]}
+              onChange={handleParamChange(key)}
+              type={step ? "number" : "text"}
+              min={step ? "0" : undefined}
+              step={step}
+            />
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+        <div>
+          <h2 className="text-xl font-semibold">Demand</h2>
+          <p className="text-sm text-slate-400">
+            Buyers per round are drawn around the curve; each buys a random number of tickets around the mean.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <label className="flex flex-col gap-2 text-sm text-slate-300">
+            <span className="text-xs uppercase tracking-wide text-slate-500">Demand curve</span>
+            <select
+              value={demand}
+              onChange={(event) => setSimulationForm((prev) => ({ ...prev, demand: event.target.value as DemandKind }))}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
+            >
+              {(Object.keys(DEMAND_LABELS) as DemandKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {DEMAND_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <FormField
+            label="Buyers / Round"
+            value={simulationForm.buyers}
+            onChange={handleSimulationChange("buyers")}
+            type="number"
+            min="0"
+            step="1"
+          />
+          <FormField
+            label="Tickets / Buyer (mean)"
+            value={simulationForm.ticketsPerBuyer}
+            onChange={handleSimulationChange("ticketsPerBuyer")}
+            type="number"
+            min="1"
+            step="0.5"
+          />
+          {demand === "growth" && (
+            <FormField
+              label="Growth / Round (bps)"
+              value={simulationForm.growthBps}
+              onChange={handleSimulationChange("growthBps")}
+              type="number"
+              step="10"
+            />
+          )}
+          {demand === "jackpot" && (
+            <FormField
+              label="Jackpot Elasticity"
+              value={simulationForm.elasticity}
+              onChange={handleSimulationChange("elasticity")}
+              type="number"
+              min="0"
+              step="0.1"
+            />
+          )}
+          {demand === "seasonal" && (
+            <>
+              <FormField
+                label="Amplitude (%)"
+                value={simulationForm.amplitude}
+                onChange={handleSimulationChange("amplitude")}
+                type="number"
+                min="0"
+                max="100"
+                step="5"
+              />
+              <FormField
+                label="Cycle Length (rounds)"
+                value={simulationForm.period}
+                onChange={handleSimulationChange("period")}
+                type="number"
+                min="2"
+                step="1"
+              />
+            </>
+          )}
+          <FormField
+            label="Rounds"
+            value={simulationForm.rounds}
+            onChange={handleSimulationChange("rounds")}
+            type="number"
+            min="1"
+            step="1"
+          />
+          <FormField
+            label="Runs"
+            value={simulationForm.runs}
+            onChange={handleSimulationChange("runs")}
+            type="number"
+            min="1"
+            step="1"
+          />
+          <FormField
+            label="Seed"
+            value={simulationForm.seed}
+            onChange={handleSimulationChange("seed")}
+            type="number"
+            min="0"
+            step="1"
+          />
+        </div>
+        <p className="text-xs text-slate-500">{DEMAND_HELP[demand]}</p>
+        <div className="flex flex-col gap-2 text-xs text-slate-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={simulationForm.startFromChain}
+              onChange={(event) => setSimulationForm((prev) => ({ ...prev, startFromChain: event.target.checked }))}
+            />
+            Start from the current rollover bank ({formatKas(state?.rolloverBank, 4)} KAS) and accrued fees (
+            {formatKas(state?.feesAccrued, 4)} KAS)
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={simulationForm.withdrawFeesEachRound}
+              onChange={(event) =>
+                setSimulationForm((prev) => ({ ...prev, withdrawFeesEachRound: event.target.checked }))
+              }
+            />
+            Withdraw all fees after every round, leaving keeper tips only the latest fee share to draw on
+          </label>
+        </div>
+        <div className="flex flex-col gap-2">
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={running}
+            className="self-start rounded-md bg-orange-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-orange-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {running ? "Simulating…" : "Run simulation"}
+          </button>
+          {errorMessage && <p className="text-xs text-red-400">{errorMessage}</p>}
+        </div>
+      </section>
+
+      {scenarios.length > 0 && <Results scenarios={scenarios} />}
+    </main>
+  );
+}
+
+const DEMAND_HELP: Record<DemandKind, string> = {
+  constant: "The same expected number of buyers every round.",
+  growth: "Expected buyers compound by the growth rate each round; use a negative rate for a decline.",
+  jackpot:
+    "Expected buyers rise with the seeded rollover. At elasticity 1, a seed as large as the usual ticket pot doubles the crowd.",
+  seasonal: "Expected buyers swing above and below the base by the amplitude over each cycle."
+};
+
+function Results({ scenarios }: { scenarios: Scenario[] }) {
+  const [primary] = scenarios;
+  const roundCount = primary.result.rounds.length;
+  const caption = `Rounds 1–${roundCount}, median across ${primary.result.runs.length} runs`;
+
+  const kasSeries = (pick: (round: RoundStats) => Distribution<bigint>): ChartSeries[] =>
+    bandSeries(scenarios, (round) => {
+      const { p10, median, p90 } = pick(round);
+      return [Number(formatEther(p10)), Number(formatEther(median)), Number(formatEther(p90))];
+    });
+
+  return (
+    <section className="space-y-6 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <div>
+        <h2 className="text-xl font-semibold">Results</h2>
+        <p className="text-sm text-slate-400">Median with the 10th–90th percentile range across runs.</p>
+      </div>
+
+      <table className="w-full text-left text-sm">
+        <thead className="text-xs uppercase tracking-wide text-slate-500">
+          <tr>
+            <th className="py-2">Over {roundCount} rounds</th>
+            {scenarios.map((scenario) => (
+              <th key={scenario.label} className="py-2" style={{ color: scenario.color }}>
+                {scenario.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800">
+          {SUMMARY_ROWS.map(({ label, render }) => (
+            <tr key={label}>
+              <td className="py-2 text-slate-400">{label}</td>
+              {scenarios.map((scenario) => (
+                <td key={scenario.label} className="py-2 text-slate-100">
+                  {render(scenario.result)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <ResultChart
+        title="Jackpot (seeded rollover)"
+        series={kasSeries((round) => round.seededRollover)}
+        caption={caption}
+      />
+      <ResultChart title="Pot" series={kasSeries((round) => round.pot)} caption={caption} />
+      <ResultChart
+        title="Cumulative fee revenue, after keeper tips"
+        series={kasSeries((round) => round.cumulativeFeeRevenue)}
+        caption={caption}
+      />
+      <ResultChart
+        title="Player return (winners share ÷ ticket sales, %)"
+        series={bandSeries(scenarios, (round) => {
+          const value = round.playerReturn;
+          return value ? [value.p10 * 100, value.median * 100, value.p90 * 100] : [0, 0, 0];
+        })}
+        caption={caption}
+      />
+
+      <p className="text-xs text-slate-500">
+        Every buyer is a new address and trims an order to whatever the caps still allow. Rounds below the minimum
+        ticket count are refunded and leave the rollover bank as it was; rounds that sell nothing never start their
+        countdown. Keeper tips are paid on close and on the last finalize or refund call, capped by accrued fees. Gas
+        costs are not modelled.
+      </p>
+    </section>
+  );
+}
+
+type Band = [p10: number, median: number, p90: number];
+
+/** Median line per scenario, plus the first scenario's 10th and 90th percentiles as dashed lines. */
+function bandSeries(scenarios: Scenario[], pick: (round: RoundStats) => Band): ChartSeries[] {
+  const [primary, ...others] = scenarios;
+  const bands = primary.result.rounds.map(pick);
+  return [
+    { label: `${primary.label} p90`, color: PROPOSED_BAND_COLOR, dashed: true, values: bands.map((band) => band[2]) },
+    { label: `${primary.label} median`, color: primary.color, values: bands.map((band) => band[1]) },
+    { label: `${primary.label} p10`, color: PROPOSED_BAND_COLOR, dashed: true, values: bands.map((band) => band[0]) },
+    ...others.map((scenario) => ({
+      label: `${scenario.label} median`,
+      color: scenario.color,
+      values: scenario.result.rounds.map((round) => pick(round)[1])
+    }))
+  ];
+}
+
+function ResultChart({ title, series, caption }: { title: string; series: ChartSeries[]; caption: string }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-slate-200">{title}</h3>
+      <LineChart series={series} caption={caption} />
+    </div>
+  );
+}
+
+const kasRange = (value: Distribution<bigint>) =>
+  `${formatKas(value.median)} KAS (${formatKas(value.p10)}–${formatKas(value.p90)})`;
+
+const SUMMARY_ROWS: { label: string; render: (result: SimulationResult) => string }[] = [
+  { label: "Ticket sales", render: ({ summary }) => kasRange(summary.ticketSales) },
+  { label: "Fee revenue, after keeper tips", render: ({ summary }) => kasRange(summary.feeRevenue) },
+  { label: "Keeper tips", render: ({ summary }) => kasRange(summary.keeperTips) },
+  { label: "Peak jackpot seed", render: ({ summary }) => kasRange(summary.peakJackpot) },
+  { label: "Final rollover bank", render: ({ summary }) => kasRange(summary.finalRolloverBank) },
+  {
+    label: "Player return",
+    render: ({ summary }) =>
+      `${formatPercent(summary.playerReturn.median)} (${formatPercent(summary.playerReturn.p10)}–${formatPercent(summary.playerReturn.p90)})`
+  },
+  { label: "Rounds refunded", render: ({ summary }) => formatPercent(summary.refundRate) },
+  { label: "Rounds with no tickets", render: ({ summary }) => formatPercent(summary.idleRate) },
+  { label: "Buyers turned away by caps", render: ({ summary }) => formatPercent(summary.turnedAwayRate) }
+];
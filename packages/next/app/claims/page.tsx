@@ -0,0 +1,151 @@
+"use client";
+
+import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { useAccount } from "wagmi";
+
+import { useAllClaimables } from "@/hooks/useAllClaimables";
+import { type ClaimState, useClaimQueue } from "@/hooks/useClaimQueue";
+import { formatKas } from "@/lib/format";
+
+const STATUS_LABELS: Record<ClaimState["status"], string> = {
+  idle: "Unclaimed",
+  queued: "Queued",
+  signing: "Confirm in wallet…",
+  confirming: "Confirming…",
+  confirmed: "Claimed",
+  failed: "Failed"
+};
+
+export default function ClaimsPage() {
+  const { address, chain } = useAccount();
+  const { claimables, isLoading, isFetching, refetch } = useAllClaimables(address as `0x${string}` | undefined);
+  const { claim, claimAll, cancel, stateFor, isRunning } = useClaimQueue();
+
+  const explorerUrl = chain?.blockExplorers?.default.url;
+  // Confirmed rows stay visible with their tx hash until the next refresh.
+  const outstanding = claimables.filter((row) => stateFor(row.roundId).status !== "confirmed");
+  const outstandingTotal = outstanding.reduce((sum, row) => sum + row.amount, 0n);
+  const pendingRounds = outstanding.map((row) => row.roundId);
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-4xl flex-col gap-6 px-6 py-10">
+      <header className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Claim Center</h1>
+          <p className="text-sm text-slate-400">Every unclaimed prize for the connected wallet across past rounds.</p>
+        </div>
+        <ConnectButton showBalance={false} chainStatus="icon" />
+      </header>
+
+      {!address && (
+        <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 text-sm text-slate-400 shadow-lg">
+          Connect a wallet to look up prizes.
+        </section>
+      )}
+
+      {address && (
+        <section className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <p className="text-xs uppercase tracking-wide text-slate-500">Total claimable</p>
+              <p className="text-2xl font-semibold text-green-400">{formatKas(outstandingTotal)} KAS</p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => refetch()}
+                disabled={isRunning || isFetching}
+                className="rounded-md border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-orange-400 hover:text-orange-300 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Refresh
+              </button>
+              {isRunning && (
+                <button
+                  onClick={cancel}
+                  className="rounded-md border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-red-400 hover:text-red-300"
+                >
+                  Stop after current
+                </button>
+              )}
+              <button
+                onClick={() => claimAll(pendingRounds)}
+                disabled={isRunning || pendingRounds.length === 0}
+                className="rounded-md bg-orange-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-orange-400 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isRunning ? "Claiming…" : `Claim all (${pendingRounds.length})`}
+              </button>
+            </div>
+          </div>
+
+          {isLoading && <p className="text-sm text-slate-400">Scanning past rounds…</p>}
+          {!isLoading && claimables.length === 0 && (
+            <p className="text-sm text-slate-400">No unclaimed prizes for this wallet.</p>
+          )}
+
+          {claimables.length > 0 && (
+            <table className="w-full table-fixed text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="w-20 px-2 py-2">Round</th>
+                  <th className="w-24 px-2 py-2">Tiers</th>
+                  <th className="px-2 py-2 text-right">Prize</th>
+                  <th className="w-48 px-2 py-2">Status</th>
+                  <th className="w-28 px-2 py-2 text-right" />
+                </tr>
+              </thead>
+              <tbody>
+                {claimables.map((row) => {
+                  const state = stateFor(row.roundId);
+                  const busy = state.status === "signing" || state.status === "confirming" || state.status === "queued";
+                  return (
+                    <tr key={row.roundId.toString()} className="border-t border-slate-800 align-top">
+                      <td className="px-2 py-2 text-slate-100">#{Number(row.roundId)}</td>
+                      <td className="px-2 py-2 text-xs text-slate-400">{row.tiers.map((tier) => tier + 1).join(", ")}</td>
+                      <td className="px-2 py-2 text-right text-slate-100">{formatKas(row.amount)} KAS</td>
+                      <td className="px-2 py-2 text-xs">
+                        <span className={statusColor(state.status)}>{STATUS_LABELS[state.status]}</span>
+                        {state.hash && (
+                          <span className="block truncate font-mono text-slate-500">
+                            {explorerUrl ? (
+                              <a href={`${explorerUrl}/tx/${state.hash}`} target="_blank" rel="noreferrer" className="hover:text-orange-300">
+                                {state.hash}
+                              </a>
+                            ) : (
+                              state.hash
+                            )}
+                          </span>
+                        )}
+                        {state.error && <span className="block truncate text-red-400">{state.error}</span>}
+                      </td>
+                      <td className="px-2 py-2 text-right">
+                        <button
+                          onClick={() => claim(row.roundId)}
+                          disabled={isRunning || busy || state.status === "confirmed"}
+                          className="rounded-md border border-slate-700 bg-slate-950 px-3 py-1 text-xs font-semibold text-slate-100 transition hover:border-orange-400 hover:text-orange-300 disabled:cursor-not-allowed disabled:opacity-40"
+                        >
+                          Claim
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
+
+function statusColor(status: ClaimState["status"]): string {
+  switch (status) {
+    case "confirmed":
+      return "text-green-400";
+    case "failed":
+      return "text-red-400";
+    case "idle":
+      return "text-slate-300";
+    default:
+      return "text-orange-300";
+  }
+}
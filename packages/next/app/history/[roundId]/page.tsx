@@ -0,0 +1,146 @@
+"use client";
+
+import Link from "next/link";
+import { type ReactNode, useMemo } from "react";
+
+import { useCurrentRoundId } from "@/hooks/useCurrentRoundId";
+import { useRoundSummary } from "@/hooks/useRoundSummary";
+import { useWinners } from "@/hooks/useWinners";
+import { formatKas } from "@/lib/format";
+import { ROUND_OUTCOME_LABELS, roundOutcome } from "@/lib/rounds";
+import { formatDuration } from "@/lib/time";
+
+export default function RoundDetailPage({ params }: { params: { roundId: string } }) {
+  const roundId = useMemo(() => {
+    try {
+      return BigInt(params.roundId);
+    } catch {
+      return undefined;
+    }
+  }, [params.roundId]);
+
+  const { roundId: latestRoundId } = useCurrentRoundId();
+  const { summary: rawSummary, isLoading } = useRoundSummary(roundId);
+  // Rounds that were never opened read back as an all-zero struct.
+  const summary = rawSummary && rawSummary.id !== 0n ? rawSummary : undefined;
+  const { winners, prizes } = useWinners(roundId);
+
+  const prevRound = roundId !== undefined && roundId > 1n ? roundId - 1n : undefined;
+  const nextRound =
+    roundId !== undefined && latestRoundId !== undefined && roundId < latestRoundId ? roundId + 1n : undefined;
+  const outcome = summary ? roundOutcome(summary) : undefined;
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-4xl flex-col gap-6 px-6 py-10">
+      <header className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Round {roundId !== undefined ? `#${Number(roundId)}` : ""}</h1>
+          <Link href="/history" className="text-sm text-orange-400 hover:text-orange-300">
+            All rounds
+          </Link>
+        </div>
+        <div className="flex items-center gap-3">
+          <RoundLink roundId={prevRound}>Prev</RoundLink>
+          <RoundLink roundId={nextRound}>Next</RoundLink>
+        </div>
+      </header>
+
+      <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+        {roundId === undefined && <p className="text-sm text-slate-400">Invalid round id.</p>}
+        {isLoading && <p className="text-sm text-slate-400">Loading round data…</p>}
+        {roundId !== undefined && !isLoading && !summary && <p className="text-sm text-slate-400">Round not found.</p>}
+        {summary && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-4 text-sm text-slate-300">
+              <Info label="Round" value={`#${Number(summary.id)}`} />
+              <Info label="Status" value={outcome ? ROUND_OUTCOME_LABELS[outcome] : "--"} />
+              <Info label="Participants" value={Number(summary.participants).toLocaleString()} />
+              <Info label="Tickets" value={Number(summary.totalTickets).toLocaleString()} />
+            </div>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <Info label="Ticket Pot" value={`${formatKas(summary.ticketPot)} KAS`} />
+              <Info label="Seeded Rollover" value={`${formatKas(summary.seededRollover)} KAS`} />
+              <Info label="Winners Share" value={`${formatKas(summary.winnersShare)} KAS`} />
+              <Info label="Fee Share" value={`${formatKas(summary.feeShare)} KAS`} />
+              <Info label="Rollover" value={`${formatKas(summary.rolloverShare)} KAS`} />
+              <Info
+                label="Duration"
+                value={
+                  summary.startTime && summary.endTime
+                    ? formatDuration(Number(summary.endTime - summary.startTime))
+                    : "--"
+                }
+              />
+            </div>
+            <div>
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Winners</h2>
+                {winners && winners.length > 0 && (
+                  <div className="flex gap-4 text-sm">
+                    <Link href={`/round/${summary.id}`} className="text-orange-400 hover:text-orange-300">
+                      Share
+                    </Link>
+                    <Link href={`/verify/${summary.id}`} className="text-orange-400 hover:text-orange-300">
+                      Verify draw
+                    </Link>
+                  </div>
+                )}
+              </div>
+              {winners && winners.length > 0 ? (
+                <ul className="mt-2 space-y-2 text-sm">
+                  {winners.map((winner, index) => (
+                    <li
+                      key={`${winner}-${index}`}
+                      className="flex items-center justify-between rounded border border-slate-800 bg-slate-900/80 px-3 py-2"
+                    >
+                      <Link
+                        href={`/win/${summary.id}/${winner}`}
+                        className="font-mono text-xs text-slate-300 hover:text-orange-300"
+                      >
+                        {winner}
+                      </Link>
+                      <span className="text-slate-100">{formatKas(prizes?.[index] ?? 0n)} KAS</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-400">
+                  {outcome === "refunded" || outcome === "refunding"
+                    ? "Too few tickets were sold, so this round was refunded instead of drawn."
+                    : "No winners recorded for this round yet."}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
+
+function Info({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col">
+      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
+      <span className="text-sm font-semibold text-slate-100">{value}</span>
+    </div>
+  );
+}
+
+function RoundLink({ roundId, children }: { roundId?: bigint; children: ReactNode }) {
+  if (roundId === undefined) {
+    return (
+      <span className="rounded-md border border-slate-700 px-3 py-2 text-sm opacity-50" aria-disabled="true">
+        {children}
+      </span>
+    );
+  }
+  return (
+    <Link
+      href={`/history/${roundId}`}
+      className="rounded-md border border-slate-700 px-3 py-2 text-sm hover:border-orange-400 hover:text-orange-300"
+    >
+      {children}
+    </Link>
+  );
+}
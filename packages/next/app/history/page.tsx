@@ -1,102 +1,203 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { tryParseAmount } from "@kasraffle/sdk";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
 
-import { useCurrentRoundId } from "@/hooks/useCurrentRoundId";
-import { useRoundSummary } from "@/hooks/useRoundSummary";
-import { useWinners } from "@/hooks/useWinners";
-import { formatKas, roundStatusLabel } from "@/lib/format";
+import { useRoundSummaries } from "@/hooks/useRoundSummaries";
+import { formatKas } from "@/lib/format";
+import {
+  ROUND_OUTCOME_LABELS,
+  type RoundFilters,
+  type RoundOutcome,
+  type RoundRow,
+  filterRounds,
+  roundOutcome,
+  isRefund,
+  roundPot,
+  winnerCount
+} from "@/lib/rounds";
 import { formatDuration } from "@/lib/time";
 
+const PAGE_SIZE = 20;
+
+const OUTCOME_STYLES: Record<RoundOutcome, string> = {
+  open: "text-orange-300",
+  ready: "text-orange-300",
+  drawing: "text-orange-300",
+  refunding: "text-amber-300",
+  drawn: "text-green-400",
+  refunded: "text-slate-400"
+};
+
+/** `<input type="date">` values are local calendar days; `endOfDay` makes the upper bound inclusive. */
+function parseDay(value: string, endOfDay = false): number | undefined {
+  if (!value) return undefined;
+  const time = new Date(`${value}T${endOfDay ? "23:59:59" : "00:00:00"}`).getTime();
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
 export default function HistoryPage() {
-  const { roundId: latestRoundId } = useCurrentRoundId();
-  const [selectedRound, setSelectedRound] = useState<bigint | undefined>(undefined);
+  const router = useRouter();
+  const { rows, currentRoundId, isLoading, error } = useRoundSummaries();
 
-  useEffect(() => {
-    if (!latestRoundId || latestRoundId === 0n) return;
-    setSelectedRound(latestRoundId - 1n);
-  }, [latestRoundId]);
+  const [outcome, setOutcome] = useState<RoundFilters["outcome"]>("all");
+  const [minPot, setMinPot] = useState("");
+  const [maxPot, setMaxPot] = useState("");
+  const [endedAfter, setEndedAfter] = useState("");
+  const [endedBefore, setEndedBefore] = useState("");
+  const [page, setPage] = useState(0);
+  const [jumpTo, setJumpTo] = useState("");
+
+  const filters = useMemo<RoundFilters>(
+    () => ({
+      outcome,
+      minPot: tryParseAmount(minPot, { allowZero: true }),
+      maxPot: tryParseAmount(maxPot, { allowZero: true }),
+      endedAfter: parseDay(endedAfter),
+      endedBefore: parseDay(endedBefore, true)
+    }),
+    [outcome, minPot, maxPot, endedAfter, endedBefore]
+  );
+  const invalidPot =
+    (minPot.trim() !== "" && filters.minPot === undefined) || (maxPot.trim() !== "" && filters.maxPot === undefined);
 
-  const { summary, isLoading } = useRoundSummary(selectedRound);
-  const { winners, prizes } = useWinners(selectedRound);
+  const filtered = useMemo(() => filterRounds(rows ?? [], filters), [rows, filters]);
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const visible = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
 
-  const navigationDisabled = useMemo(() => !latestRoundId || latestRoundId <= 1n, [latestRoundId]);
+  useEffect(() => {
+    setPage(0);
+  }, [filters]);
 
-  const handlePrev = () => {
-    if (!selectedRound || selectedRound === 0n) return;
-    setSelectedRound(selectedRound - 1n);
+  const handleJump = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const id = Number(jumpTo);
+    if (!Number.isSafeInteger(id) || id < 1) return;
+    router.push(`/history/${id}`);
   };
 
-  const handleNext = () => {
-    if (!selectedRound || !latestRoundId) return;
-    if (selectedRound + 1n >= latestRoundId) return;
-    setSelectedRound(selectedRound + 1n);
+  const resetFilters = () => {
+    setOutcome("all");
+    setMinPot("");
+    setMaxPot("");
+    setEndedAfter("");
+    setEndedBefore("");
   };
 
   return (
-    <main className="mx-auto flex min-h-screen w-full max-w-4xl flex-col gap-6 px-6 py-10">
-      <header className="flex items-center justify-between">
-        <h1 className="text-3xl font-semibold">Round History</h1>
-        <div className="flex items-center gap-3">
+    <main className="mx-auto flex min-h-screen w-full max-w-5xl flex-col gap-6 px-6 py-10">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Round History</h1>
+          <p className="text-sm text-slate-400">
+            {currentRoundId ? `${Number(currentRoundId)} rounds so far, newest first.` : "Every round, newest first."}
+          </p>
+        </div>
+        <form onSubmit={handleJump} className="flex items-center gap-2">
+          <input
+            type="number"
+            min="1"
+            max={currentRoundId !== undefined ? Number(currentRoundId) : undefined}
+            value={jumpTo}
+            onChange={(event) => setJumpTo(event.target.value)}
+            placeholder="Round #"
+            className="w-28 rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
+          />
           <button
-            onClick={handlePrev}
-            disabled={navigationDisabled || (selectedRound ?? 0n) === 0n}
-            className="rounded-md border border-slate-700 px-3 py-2 text-sm disabled:opacity-50"
+            type="submit"
+            disabled={!jumpTo}
+            className="rounded-md border border-slate-700 px-3 py-2 text-sm hover:border-orange-400 hover:text-orange-300 disabled:opacity-50"
           >
-            Prev
+            Go
           </button>
-          <span className="text-sm text-slate-400">
-            Viewing round {selectedRound !== undefined ? Number(selectedRound) : "--"}
+        </form>
+      </header>
+
+      <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+        <div className="grid grid-cols-1 gap-4 text-sm sm:grid-cols-2 lg:grid-cols-5">
+          <label className="flex flex-col gap-2 text-slate-300">
+            <span>Status</span>
+            <select
+              value={outcome}
+              onChange={(event) => setOutcome(event.target.value as RoundFilters["outcome"])}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-slate-100 focus:border-orange-400 focus:outline-none"
+            >
+              <option value="all">All</option>
+              {(Object.keys(ROUND_OUTCOME_LABELS) as RoundOutcome[]).map((key) => (
+                <option key={key} value={key}>
+                  {ROUND_OUTCOME_LABELS[key]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <FilterInput label="Min pot (KAS)" value={minPot} onChange={setMinPot} placeholder="0" />
+          <FilterInput label="Max pot (KAS)" value={maxPot} onChange={setMaxPot} placeholder="Any" />
+          <FilterInput label="Ended after" type="date" value={endedAfter} onChange={setEndedAfter} />
+          <FilterInput label="Ended before" type="date" value={endedBefore} onChange={setEndedBefore} />
+        </div>
+        <div className="mt-3 flex items-center justify-between text-xs text-slate-500">
+          <span>
+            {invalidPot
+              ? "Pot bounds must be KAS amounts; the invalid bound is ignored."
+              : `Refunded rounds are ones that sold fewer than the minimum tickets. ${filtered.length} of ${rows?.length ?? 0} rounds match.`}
           </span>
-          <button
-            onClick={handleNext}
-            disabled={navigationDisabled || !selectedRound || !latestRoundId || selectedRound + 1n >= latestRoundId}
-            className="rounded-md border border-slate-700 px-3 py-2 text-sm disabled:opacity-50"
-          >
-            Next
+          <button onClick={resetFilters} className="text-orange-400 hover:text-orange-300">
+            Reset filters
           </button>
         </div>
-      </header>
+      </section>
 
       <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
-        {isLoading && <p className="text-sm text-slate-400">Loading round data…</p>}
-        {!isLoading && !summary && (
-          <p className="text-sm text-slate-400">Select a round to view its summary.</p>
+        {isLoading && <p className="text-sm text-slate-400">Loading rounds…</p>}
+        {error && <p className="text-sm text-red-400">Could not load rounds: {error.message}</p>}
+        {!isLoading && !error && filtered.length === 0 && (
+          <p className="text-sm text-slate-400">No rounds match these filters.</p>
+        )}
+        {visible.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-2 pr-4">Round</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4 text-right">Pot</th>
+                  <th className="py-2 pr-4 text-right">Players</th>
+                  <th className="py-2 pr-4 text-right">Tickets</th>
+                  <th className="py-2 pr-4 text-right">Duration</th>
+                  <th className="py-2 pr-4">Ended</th>
+                  <th className="py-2 pr-4 text-right">Winners</th>
+                  <th className="py-2 text-right">Rollover</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((row) => (
+                  <RoundTableRow key={row.summary.id.toString()} row={row} />
+                ))}
+              </tbody>
+            </table>
+          </div>
         )}
-        {summary && (
-          <div className="space-y-3">
-            <div className="flex flex-wrap gap-4 text-sm text-slate-300">
-              <Info label="Round" value={`#${Number(summary.id)}`} />
-              <Info label="Status" value={roundStatusLabel(summary.status)} />
-              <Info label="Participants" value={Number(summary.participants).toLocaleString()} />
-              <Info label="Tickets" value={Number(summary.totalTickets).toLocaleString()} />
-            </div>
-            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-              <Info label="Ticket Pot" value={`${formatKas(summary.ticketPot)} KAS`} />
-              <Info label="Seeded Rollover" value={`${formatKas(summary.seededRollover)} KAS`} />
-              <Info label="Winners Share" value={`${formatKas(summary.winnersShare)} KAS`} />
-              <Info label="Fee Share" value={`${formatKas(summary.feeShare)} KAS`} />
-              <Info label="Rollover" value={`${formatKas(summary.rolloverShare)} KAS`} />
-              <Info
-                label="Duration"
-                value={summary.startTime && summary.endTime ? formatDuration(Number(summary.endTime - summary.startTime)) : "--"}
-              />
-            </div>
-            <div>
-              <h2 className="text-lg font-semibold">Winners</h2>
-              {winners && winners.length > 0 ? (
-                <ul className="mt-2 space-y-2 text-sm">
-                  {winners.map((winner, index) => (
-                    <li key={`${winner}-${index}`} className="flex items-center justify-between rounded border border-slate-800 bg-slate-900/80 px-3 py-2">
-                      <span className="font-mono text-xs text-slate-300">{winner}</span>
-                      <span className="text-slate-100">{formatKas(prizes?.[index] ?? 0n)} KAS</span>
-                    </li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-sm text-slate-400">No winners recorded for this round yet.</p>
-              )}
-            </div>
+        {pageCount > 1 && (
+          <div className="mt-4 flex items-center justify-end gap-3 text-sm">
+            <button
+              onClick={() => setPage((current) => current - 1)}
+              disabled={page === 0}
+              className="rounded-md border border-slate-700 px-3 py-2 disabled:opacity-50"
+            >
+              Prev
+            </button>
+            <span className="text-slate-400">
+              Page {page + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage((current) => current + 1)}
+              disabled={page + 1 >= pageCount}
+              className="rounded-md border border-slate-700 px-3 py-2 disabled:opacity-50"
+            >
+              Next
+            </button>
           </div>
         )}
       </section>
@@ -104,11 +205,59 @@ export default function HistoryPage() {
   );
 }
 
-function Info({ label, value }: { label: string; value: string }) {
+function RoundTableRow({ row }: { row: RoundRow }) {
+  const { summary } = row;
+  const outcome = roundOutcome(summary);
+  const prizeTotal = row.prizes.reduce((sum, prize) => sum + prize, 0n);
+  const ended = Number(summary.endTime);
+
+  return (
+    <tr className="border-t border-slate-800">
+      <td className="py-2 pr-4">
+        <Link href={`/history/${summary.id}`} className="font-semibold text-orange-400 hover:text-orange-300">
+          #{Number(summary.id)}
+        </Link>
+      </td>
+      <td className={`py-2 pr-4 ${OUTCOME_STYLES[outcome]}`}>{ROUND_OUTCOME_LABELS[outcome]}</td>
+      <td className="py-2 pr-4 text-right">{isRefund(outcome) ? "--" : `${formatKas(roundPot(summary))} KAS`}</td>
+      <td className="py-2 pr-4 text-right">{Number(summary.participants).toLocaleString()}</td>
+      <td className="py-2 pr-4 text-right">{Number(summary.totalTickets).toLocaleString()}</td>
+      <td className="py-2 pr-4 text-right">
+        {summary.startTime && summary.endTime ? formatDuration(Number(summary.endTime - summary.startTime)) : "--"}
+      </td>
+      <td className="py-2 pr-4 text-slate-400">{ended ? new Date(ended * 1000).toLocaleDateString() : "--"}</td>
+      <td className="py-2 pr-4 text-right">
+        {outcome === "drawn" ? `${winnerCount(row)} · ${formatKas(prizeTotal)} KAS` : "--"}
+      </td>
+      <td className="py-2 text-right">{outcome === "drawn" ? `${formatKas(summary.rolloverShare)} KAS` : "--"}</td>
+    </tr>
+  );
+}
+
+function FilterInput({
+  label,
+  value,
+  onChange,
+  type = "text",
+  placeholder
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  type?: string;
+  placeholder?: string;
+}) {
   return (
-    <div className="flex flex-col">
-      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
-      <span className="text-sm font-semibold text-slate-100">{value}</span>
-    </div>
+    <label className="flex flex-col gap-2 text-slate-300">
+      <span>{label}</span>
+      <input
+        type={type}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder={placeholder}
+        inputMode={type === "text" ? "decimal" : undefined}
+        className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-slate-100 focus:border-orange-400 focus:outline-none"
+      />
+    </label>
   );
 }
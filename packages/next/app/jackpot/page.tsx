@@ -0,0 +1,150 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo } from "react";
+import { formatEther } from "viem";
+
+import { type ChartSeries, LineChart } from "@/components/LineChart";
+import { useRaffleConfig } from "@/hooks/useRaffleConfig";
+import { useRound } from "@/hooks/useRound";
+import { useRoundSummaries } from "@/hooks/useRoundSummaries";
+import { useTreasury } from "@/hooks/useTreasury";
+import { formatKas } from "@/lib/format";
+import { type JackpotPoint, averageTicketPot, jackpotSeries, projectNextSeed, steadyStateSeed } from "@/lib/jackpot";
+
+const COMPOSITION: { key: keyof JackpotPoint; label: string; color: string; dashed?: boolean }[] = [
+  { key: "pot", label: "Pot", color: "#f8fafc" },
+  { key: "ticketPot", label: "Ticket sales", color: "#fb923c" },
+  { key: "seededRollover", label: "Seeded rollover", color: "#4ade80", dashed: true }
+];
+
+const SPLIT: { key: keyof JackpotPoint; label: string; color: string }[] = [
+  { key: "winnersShare", label: "Winners share", color: "#facc15" },
+  { key: "feeShare", label: "Fee share", color: "#38bdf8" },
+  { key: "rolloverShare", label: "Rollover share", color: "#4ade80" }
+];
+
+const AVERAGE_WINDOW = 10;
+
+export default function JackpotPage() {
+  const { round } = useRound();
+  const { values } = useRaffleConfig();
+  const { state } = useTreasury();
+  const { rows, isLoading, error } = useRoundSummaries();
+
+  const points = useMemo(() => jackpotSeries((rows ?? []).map((row) => row.summary)), [rows]);
+
+  const winnersBps = values.winnersBps ?? 0;
+  const feeBps = values.feeBps ?? 0;
+  const rolloverBps = values.rolloverBps ?? 0;
+
+  const hasSplit = values.winnersBps !== undefined && values.feeBps !== undefined;
+  const projection = useMemo(() => {
+    if (!round || !state || !hasSplit) return undefined;
+    return projectNextSeed({ round, rolloverBank: state.rolloverBank, winnersBps, feeBps });
+  }, [round, state, hasSplit, winnersBps, feeBps]);
+
+  const averagePot = averageTicketPot(points, AVERAGE_WINDOW);
+  const steadyState = values.rolloverBps !== undefined ? steadyStateSeed(averagePot, rolloverBps) : undefined;
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-5xl flex-col gap-6 px-6 py-10">
+      <header className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Jackpot Analytics</h1>
+          <p className="text-sm text-slate-400">
+            How each round&apos;s rollover share seeds the next round&apos;s starting pot.
+          </p>
+        </div>
+        <Link href="/history" className="text-sm text-orange-400 hover:text-orange-300">
+          Round history
+        </Link>
+      </header>
+
+      <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+        <h2 className="text-xl font-semibold">Next Round Projection</h2>
+        {!projection && <p className="mt-2 text-sm text-slate-400">Reading the current round…</p>}
+        {projection && round && (
+          <>
+            <dl className="mt-4 grid grid-cols-1 gap-4 text-sm sm:grid-cols-2 md:grid-cols-4">
+              <Stat label={`Round #${Number(round.id)} Pot`} value={`${formatKas(projection.pot, 4)} KAS`} />
+              <Stat label="Rollover Bank" value={`${formatKas(state?.rolloverBank, 4)} KAS`} />
+              <Stat
+                label="Next Seed If Drawn"
+                value={`${formatKas(projection.ifDrawn, 4)} KAS`}
+                tone="text-green-400"
+              />
+              <Stat label="Next Seed If Refunded" value={`${formatKas(projection.ifRefunded, 4)} KAS`} />
+            </dl>
+            <p className="mt-3 text-xs text-slate-500">
+              {projection.isEstimate
+                ? `Estimated from tickets sold so far at the current split (${winnersBps / 100}% winners, ${feeBps / 100}% fee, ${rolloverBps / 100}% rollover). It grows with every ticket until the round closes.`
+                : "The round has closed, so the next seed is already fixed."}{" "}
+              A refunded round returns ticket money and leaves the bank to seed the next round unchanged.
+            </p>
+          </>
+        )}
+        {steadyState !== undefined && points.length > 0 && (
+          <p className="mt-3 text-sm text-slate-300">
+            At the recent average of {formatKas(averagePot, 2)} KAS in ticket sales per round (last{" "}
+            {Math.min(points.length, AVERAGE_WINDOW)} drawn), the seed levels off around{" "}
+            <span className="font-semibold text-green-400">{formatKas(steadyState, 2)} KAS</span>.
+          </p>
+        )}
+      </section>
+
+      <section className="space-y-6 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+        <div>
+          <h2 className="text-xl font-semibold">Per Round</h2>
+          <p className="text-sm text-slate-400">Drawn rounds only; refunded rounds never split a pot.</p>
+        </div>
+        {isLoading && <p className="text-sm text-slate-400">Loading rounds…</p>}
+        {error && <p className="text-sm text-red-400">Could not load rounds: {error.message}</p>}
+        {!isLoading && !error && points.length === 0 && (
+          <p className="text-sm text-slate-400">No rounds have been drawn yet.</p>
+        )}
+        {points.length > 0 && (
+          <>
+            <JackpotChart title="Pot composition" points={points} lines={COMPOSITION} />
+            <JackpotChart title="Pot split" points={points} lines={SPLIT} />
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
+
+function JackpotChart({
+  title,
+  points,
+  lines
+}: {
+  title: string;
+  points: JackpotPoint[];
+  lines: { key: keyof JackpotPoint; label: string; color: string; dashed?: boolean }[];
+}) {
+  const series: ChartSeries[] = lines.map(({ key, label, color, dashed }) => ({
+    label,
+    color,
+    dashed,
+    values: points.map((point) => Number(formatEther(point[key])))
+  }));
+  const first = points[0].roundId;
+  const last = points[points.length - 1].roundId;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-slate-200">{title}</h3>
+      <LineChart series={series} caption={`Rounds #${first.toString()}–#${last.toString()}`} />
+    </div>
+  );
+}
+
+function Stat({ label, value, tone }: { label: string; value: string; tone?: string }) {
+  return (
+    <div>
+      <dt className="text-xs uppercase tracking-wide text-slate-500">{label}</dt>
+      <dd className={`text-sm font-semibold ${tone ?? "text-slate-100"}`}>{value}</dd>
+    </div>
+  );
+}
@@ -4,10 +4,12 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 
 import { Providers } from "@/components/providers";
+import { env } from "@/lib/env";
 
 const font = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
+  metadataBase: new URL(env.siteUrl),
   title: "KASRaffle",
   description: "Time-boxed raffles on Kasplex (Kaspa L2 EVM)"
 };
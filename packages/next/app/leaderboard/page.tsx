@@ -2,19 +2,31 @@
 
 import { useEffect, useMemo, useState } from "react";
 
+import { AllTimeLeaderboard } from "@/components/AllTimeLeaderboard";
+import { useAllParticipants } from "@/hooks/useAllParticipants";
 import { useCurrentRoundId } from "@/hooks/useCurrentRoundId";
-import { useParticipantsCount } from "@/hooks/useParticipantsCount";
-import { useParticipantsSlice } from "@/hooks/useParticipantsSlice";
 import { useRoundSummary } from "@/hooks/useRoundSummary";
 import { useWinners } from "@/hooks/useWinners";
+import { downloadCsv, toCsv } from "@/lib/csv";
 import { formatKas, roundStatusLabel } from "@/lib/format";
+import { formatProbability } from "@/lib/odds";
 
-const PAGE_SIZE = 50n;
+const PAGE_SIZE = 50;
+
+type RankedBuyer = {
+  rank: number;
+  account: `0x${string}`;
+  tickets: bigint;
+  share: number;
+  contributed: bigint;
+};
 
 export default function LeaderboardPage() {
   const { roundId: latestRoundId } = useCurrentRoundId();
   const [roundId, setRoundId] = useState<bigint | undefined>(undefined);
-  const [start, setStart] = useState<bigint>(0n);
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState("");
+  const [view, setView] = useState<"round" | "allTime">("round");
 
   useEffect(() => {
     if (!latestRoundId || latestRoundId <= 1n) return;
@@ -22,30 +34,49 @@ export default function LeaderboardPage() {
   }, [latestRoundId]);
 
   useEffect(() => {
-    setStart(0n);
-  }, [roundId]);
+    setPage(0);
+  }, [roundId, search]);
 
   const { summary } = useRoundSummary(roundId);
   const { winners, prizes } = useWinners(roundId);
-  const { count: participantsCount } = useParticipantsCount(roundId);
-  const { participants, isLoading } = useParticipantsSlice(roundId, start, PAGE_SIZE);
-
-  const topBuyers = useMemo(() => {
-    if (!participants) return [] as typeof participants;
-    return [...participants].sort((a, b) => Number(b.tickets - a.tickets));
-  }, [participants]);
-
-  const canPrevPage = start > 0n;
-  const canNextPage = participantsCount ? start + PAGE_SIZE < participantsCount : false;
-
-  const handlePagePrev = () => {
-    if (!canPrevPage) return;
-    setStart((prev) => (prev >= PAGE_SIZE ? prev - PAGE_SIZE : 0n));
-  };
-
-  const handlePageNext = () => {
-    if (!canNextPage) return;
-    setStart((prev) => prev + PAGE_SIZE);
+  const { participants, isLoading } = useAllParticipants(roundId);
+
+  // `ticketPot` is zeroed once a round closes, but `pot - seededRollover` keeps what tickets paid in.
+  const ticketPot = summary ? (summary.pot > 0n ? summary.pot - summary.seededRollover : summary.ticketPot) : 0n;
+
+  const ranked = useMemo(() => {
+    if (!participants) return [] as RankedBuyer[];
+    const totalTickets = participants.reduce((sum, participant) => sum + participant.tickets, 0n);
+    // Array#sort is stable, so equal holdings keep purchase order.
+    return [...participants]
+      .sort((a, b) => (a.tickets === b.tickets ? 0 : a.tickets > b.tickets ? -1 : 1))
+      .map((participant, index) => ({
+        rank: index + 1,
+        account: participant.account,
+        tickets: participant.tickets,
+        share: totalTickets > 0n ? Number(participant.tickets) / Number(totalTickets) : 0,
+        contributed: totalTickets > 0n ? (ticketPot * participant.tickets) / totalTickets : 0n
+      }));
+  }, [participants, ticketPot]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return ranked;
+    return ranked.filter((buyer) => buyer.account.toLowerCase().includes(query));
+  }, [ranked, search]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const visible = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const canPrevPage = page > 0;
+  const canNextPage = page + 1 < pageCount;
+
+  const handleExport = () => {
+    if (roundId === undefined) return;
+    const csv = toCsv(
+      ["rank", "address", "tickets", "ticket_share", "contributed_wei"],
+      filtered.map((buyer) => [buyer.rank, buyer.account, buyer.tickets, buyer.share.toFixed(6), buyer.contributed])
+    );
+    downloadCsv(`kasraffle-round-${roundId}-buyers.csv`, csv);
   };
 
   return (
@@ -58,102 +89,149 @@ export default function LeaderboardPage() {
         </p>
       </header>
 
-      <section className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
-        <label className="flex items-center gap-2">
-          <span className="text-xs uppercase tracking-wide text-slate-500">Round</span>
-          <input
-            type="number"
-            min="0"
-            value={roundId !== undefined ? Number(roundId) : ""}
-            onChange={(event) => {
-              const value = Number.parseInt(event.target.value, 10);
-              setRoundId(Number.isFinite(value) ? BigInt(Math.max(0, value)) : undefined);
-            }}
-            className="w-24 rounded-md border border-slate-700 bg-slate-950 px-3 py-1 text-right text-slate-100 focus:border-orange-400 focus:outline-none"
-          />
-        </label>
-        <span className="text-xs text-slate-500">
-          Latest finalized round: {latestRoundId && latestRoundId > 0n ? Number(latestRoundId - 1n) : "--"}
-        </span>
-      </section>
-
-      {summary && (
-        <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-5 shadow-lg">
-          <div className="grid grid-cols-1 gap-4 text-sm text-slate-300 md:grid-cols-2">
-            <Info label="Status" value={roundStatusLabel(summary.status)} />
-            <Info label="Participants" value={Number(summary.participants).toLocaleString()} />
-            <Info label="Tickets" value={Number(summary.totalTickets).toLocaleString()} />
-            <Info label="Pot" value={`${formatKas(summary.pot)} KAS`} />
-          </div>
-        </section>
+      <div className="flex w-fit rounded-md border border-slate-700 text-sm">
+        {(["round", "allTime"] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-4 py-1.5 ${view === option ? "bg-slate-800 text-orange-300" : "text-slate-400 hover:text-slate-200"}`}
+          >
+            {option === "round" ? "By round" : "All time"}
+          </button>
+        ))}
+      </div>
+
+      {view === "allTime" && <AllTimeLeaderboard />}
+
+      {view === "round" && (
+        <>
+          <section className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+            <label className="flex items-center gap-2">
+              <span className="text-xs uppercase tracking-wide text-slate-500">Round</span>
+              <input
+                type="number"
+                min="0"
+                value={roundId !== undefined ? Number(roundId) : ""}
+                onChange={(event) => {
+                  const value = Number.parseInt(event.target.value, 10);
+                  setRoundId(Number.isFinite(value) ? BigInt(Math.max(0, value)) : undefined);
+                }}
+                className="w-24 rounded-md border border-slate-700 bg-slate-950 px-3 py-1 text-right text-slate-100 focus:border-orange-400 focus:outline-none"
+              />
+            </label>
+            <span className="text-xs text-slate-500">
+              Latest finalized round: {latestRoundId && latestRoundId > 0n ? Number(latestRoundId - 1n) : "--"}
+            </span>
+          </section>
+
+          {summary && (
+            <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-5 shadow-lg">
+              <div className="grid grid-cols-1 gap-4 text-sm text-slate-300 md:grid-cols-2">
+                <Info label="Status" value={roundStatusLabel(summary.status)} />
+                <Info label="Participants" value={Number(summary.participants).toLocaleString()} />
+                <Info label="Tickets" value={Number(summary.totalTickets).toLocaleString()} />
+                <Info label="Pot" value={`${formatKas(summary.pot)} KAS`} />
+              </div>
+            </section>
+          )}
+
+          <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">Top Buyers</h2>
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <input
+                  type="search"
+                  placeholder="Search address"
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                  className="w-44 rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100 focus:border-orange-400 focus:outline-none"
+                />
+                <button
+                  onClick={handleExport}
+                  disabled={filtered.length === 0}
+                  className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+                >
+                  Export CSV
+                </button>
+              </div>
+            </div>
+            {isLoading && <p className="text-sm text-slate-400">Loading participants…</p>}
+            {!isLoading && filtered.length === 0 && (
+              <p className="text-sm text-slate-400">
+                {search ? "No participant matches that address." : "No participants in this round."}
+              </p>
+            )}
+            {visible.length > 0 && (
+              <table className="w-full table-fixed text-left text-sm">
+                <thead className="text-xs uppercase tracking-wide text-slate-500">
+                  <tr>
+                    <th className="w-12 px-2 py-2">#</th>
+                    <th className="px-2 py-2">Address</th>
+                    <th className="w-24 px-2 py-2 text-right">Tickets</th>
+                    <th className="w-24 px-2 py-2 text-right">Ticket Share</th>
+                    <th className="w-28 px-2 py-2 text-right">Paid In</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((buyer) => (
+                    <tr key={buyer.account} className="border-t border-slate-800">
+                      <td className="px-2 py-2 text-xs text-slate-500">{buyer.rank}</td>
+                      <td className="truncate px-2 py-2 font-mono text-xs text-slate-200">{buyer.account}</td>
+                      <td className="px-2 py-2 text-right text-slate-100">{Number(buyer.tickets).toLocaleString()}</td>
+                      <td className="px-2 py-2 text-right text-slate-100">{formatProbability(buyer.share)}</td>
+                      <td className="px-2 py-2 text-right text-slate-100">{formatKas(buyer.contributed)} KAS</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {filtered.length > PAGE_SIZE && (
+              <div className="flex items-center justify-end gap-2 text-xs text-slate-400">
+                <button
+                  onClick={() => setPage((prev) => prev - 1)}
+                  disabled={!canPrevPage}
+                  className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+                >
+                  Prev
+                </button>
+                <span>
+                  Page {page + 1} of {pageCount}
+                </span>
+                <button
+                  onClick={() => setPage((prev) => prev + 1)}
+                  disabled={!canNextPage}
+                  className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+            <p className="text-xs text-slate-500">
+              Ranked across all {ranked.length.toLocaleString()} participants of the round, read 500 at a time with
+              concurrent `getParticipantsSlice` calls. Ticket share is each buyer&apos;s fraction of tickets sold.
+            </p>
+          </section>
+
+          <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+            <h2 className="text-lg font-semibold">Recent Winners</h2>
+            {winners && winners.length > 0 ? (
+              <ul className="mt-3 space-y-2 text-sm">
+                {winners.map((winner, index) => (
+                  <li
+                    key={`${winner}-${index}`}
+                    className="flex items-center justify-between rounded border border-slate-800 bg-slate-900/80 px-3 py-2"
+                  >
+                    <span className="font-mono text-xs text-slate-300">{winner}</span>
+                    <span className="text-slate-100">{formatKas(prizes?.[index] ?? 0n)} KAS</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-slate-400">No winners resolved for the selected round.</p>
+            )}
+          </section>
+        </>
       )}
-
-      <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
-        <div className="flex items-center justify-between">
-          <h2 className="text-lg font-semibold">Top Buyers</h2>
-          <div className="flex items-center gap-2 text-xs text-slate-400">
-            <button
-              onClick={handlePagePrev}
-              disabled={!canPrevPage}
-              className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
-            >
-              Prev
-            </button>
-            <button
-              onClick={handlePageNext}
-              disabled={!canNextPage}
-              className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
-            >
-              Next
-            </button>
-          </div>
-        </div>
-        {isLoading && <p className="text-sm text-slate-400">Loading participants…</p>}
-        {!isLoading && topBuyers.length === 0 && <p className="text-sm text-slate-400">No participant data for this slice.</p>}
-        {topBuyers.length > 0 && (
-          <table className="w-full table-fixed text-left text-sm">
-            <thead className="text-xs uppercase tracking-wide text-slate-500">
-              <tr>
-                <th className="w-12 px-2 py-2">#</th>
-                <th className="px-2 py-2">Address</th>
-                <th className="w-32 px-2 py-2 text-right">Tickets</th>
-              </tr>
-            </thead>
-            <tbody>
-              {topBuyers.map((participant, index) => (
-                <tr key={`${participant.account}-${index}`} className="border-t border-slate-800">
-                  <td className="px-2 py-2 text-xs text-slate-500">{Number(start) + index + 1}</td>
-                  <td className="px-2 py-2 font-mono text-xs text-slate-200">{participant.account}</td>
-                  <td className="px-2 py-2 text-right text-slate-100">{Number(participant.tickets).toLocaleString()}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        )}
-        <p className="text-xs text-slate-500">
-          Results are loaded in batches of {Number(PAGE_SIZE)} participants using `getParticipantsSlice`. Fetch additional
-          pages to view the full leaderboard or ingest `TicketsPurchased` events off-chain for comprehensive analytics.
-        </p>
-      </section>
-
-      <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
-        <h2 className="text-lg font-semibold">Recent Winners</h2>
-        {winners && winners.length > 0 ? (
-          <ul className="mt-3 space-y-2 text-sm">
-            {winners.map((winner, index) => (
-              <li
-                key={`${winner}-${index}`}
-                className="flex items-center justify-between rounded border border-slate-800 bg-slate-900/80 px-3 py-2"
-              >
-                <span className="font-mono text-xs text-slate-300">{winner}</span>
-                <span className="text-slate-100">{formatKas(prizes?.[index] ?? 0n)} KAS</span>
-              </li>
-            ))}
-          </ul>
-        ) : (
-          <p className="text-sm text-slate-400">No winners resolved for the selected round.</p>
-        )}
-      </section>
     </main>
   );
 }
@@ -0,0 +1,141 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo } from "react";
+import { getAddress, isAddress } from "viem";
+import { useAccount } from "wagmi";
+
+import { useAllClaimables } from "@/hooks/useAllClaimables";
+import { useCurrentRoundId } from "@/hooks/useCurrentRoundId";
+import { useRaffleHistory } from "@/hooks/useRaffleHistory";
+import { formatKas } from "@/lib/format";
+import type { PlayerRound } from "@/lib/history";
+
+export default function PlayerPage({ params }: { params: { address: string } }) {
+  const account = useMemo(
+    () => (isAddress(params.address) ? getAddress(params.address) : undefined),
+    [params.address]
+  );
+
+  const { address: connectedAddress } = useAccount();
+  const { players, isLoading, error } = useRaffleHistory();
+  const { roundId: currentRoundId } = useCurrentRoundId();
+  const { claimables, total: outstanding } = useAllClaimables(account);
+
+  const player = account ? players.get(account.toLowerCase()) : undefined;
+  const claimableByRound = useMemo(
+    () => new Map(claimables.map((row) => [row.roundId.toString(), row.amount])),
+    [claimables]
+  );
+
+  const outcome = (round: PlayerRound) => {
+    if (round.refunded > 0n) return { label: `Refunded ${formatKas(round.refunded)} KAS`, className: "text-slate-300" };
+    if (round.prizes > 0n) {
+      const unclaimed = claimableByRound.get(round.roundId.toString());
+      if (unclaimed) return { label: `Unclaimed ${formatKas(unclaimed)} KAS`, className: "text-orange-300" };
+      if (round.claimed > 0n) return { label: `Claimed ${formatKas(round.claimed)} KAS`, className: "text-green-400" };
+      return { label: "Won", className: "text-green-400" };
+    }
+    if (round.roundId === currentRoundId) return { label: "In play", className: "text-orange-300" };
+    return { label: "No win", className: "text-slate-500" };
+  };
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-4xl flex-col gap-6 px-6 py-10">
+      <header className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="text-3xl font-semibold">Player</h1>
+          <p className="truncate font-mono text-sm text-slate-400">{account ?? params.address}</p>
+        </div>
+        <Link href="/leaderboard" className="text-sm text-orange-400 hover:text-orange-300">
+          Back to leaderboard
+        </Link>
+      </header>
+
+      {!account && <Notice>That is not a valid address.</Notice>}
+      {account && isLoading && <Notice>Scanning contract events…</Notice>}
+      {account && error && <Notice>Could not load event history: {error.message}</Notice>}
+      {account && !isLoading && !error && !player && <Notice>This address has not entered any round.</Notice>}
+
+      {player && (
+        <>
+          <section className="grid grid-cols-2 gap-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg md:grid-cols-4">
+            <Info label="Rounds Played" value={player.roundsPlayed.toLocaleString()} />
+            <Info label="Tickets Bought" value={Number(player.ticketsBought).toLocaleString()} />
+            <Info label="Spent" value={`${formatKas(player.spent)} KAS`} />
+            <Info label="Wins" value={player.wins.toLocaleString()} />
+            <Info label="Prizes Won" value={`${formatKas(player.prizesWon)} KAS`} />
+            <Info label="Refunded" value={`${formatKas(player.refunded)} KAS`} />
+            <Info label="Unclaimed" value={`${formatKas(outstanding)} KAS`} />
+            <Info label="Net P&L" value={`${formatKas(player.net)} KAS`} />
+          </section>
+
+          <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+            <h2 className="text-lg font-semibold">Rounds</h2>
+            <table className="w-full table-fixed text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="w-20 px-2 py-2">Round</th>
+                  <th className="px-2 py-2 text-right">Tickets</th>
+                  <th className="px-2 py-2 text-right">Spent</th>
+                  <th className="w-20 px-2 py-2">Tiers</th>
+                  <th className="px-2 py-2 text-right">Prize</th>
+                  <th className="w-48 px-2 py-2">Outcome</th>
+                </tr>
+              </thead>
+              <tbody>
+                {player.rounds.map((round) => {
+                  const status = outcome(round);
+                  return (
+                    <tr key={round.roundId.toString()} className="border-t border-slate-800">
+                      <td className="px-2 py-2 text-slate-100">
+                        {round.prizes > 0n ? (
+                          <Link href={`/verify/${round.roundId}`} className="hover:text-orange-300">
+                            #{Number(round.roundId)}
+                          </Link>
+                        ) : (
+                          `#${Number(round.roundId)}`
+                        )}
+                      </td>
+                      <td className="px-2 py-2 text-right text-slate-100">{Number(round.tickets).toLocaleString()}</td>
+                      <td className="px-2 py-2 text-right text-slate-100">{formatKas(round.spent)} KAS</td>
+                      <td className="px-2 py-2 text-xs text-slate-400">
+                        {round.tiers.length > 0 ? round.tiers.map((tier) => tier + 1).join(", ") : "--"}
+                      </td>
+                      <td className="px-2 py-2 text-right text-slate-100">
+                        {round.prizes > 0n ? `${formatKas(round.prizes)} KAS` : "--"}
+                      </td>
+                      <td className={`px-2 py-2 text-xs ${status.className}`}>{status.label}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {outstanding > 0n && connectedAddress?.toLowerCase() === account?.toLowerCase() && (
+              <Link href="/claims" className="inline-block text-sm text-orange-400 hover:text-orange-300">
+                Claim outstanding prizes
+              </Link>
+            )}
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
+
+function Notice({ children }: { children: React.ReactNode }) {
+  return (
+    <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 text-sm text-slate-400 shadow-lg">
+      {children}
+    </section>
+  );
+}
+
+function Info({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col">
+      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
+      <span className="text-sm font-semibold text-slate-100">{value}</span>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { OG_SIZE, notFoundImage, shareImage } from "@/lib/ogImage";
+import { formatKas, formatKasCompact } from "@/lib/format";
+import { ROUND_OUTCOME_LABELS, isRefund, roundOutcome, roundPot, winnerCount } from "@/lib/rounds";
+import { readRoundServer } from "@/lib/serverRaffle";
+import { parseRoundParam } from "@/lib/share";
+
+export const alt = "KASRaffle round summary";
+export const size = OG_SIZE;
+export const contentType = "image/png";
+export const revalidate = 60;
+
+export default async function RoundImage({ params }: { params: { roundId: string } }) {
+  const roundId = parseRoundParam(params.roundId);
+  const row = roundId ? await readRoundServer(roundId) : null;
+  if (!row) return notFoundImage("Round not found");
+
+  const { summary } = row;
+  const outcome = roundOutcome(summary);
+  const drawn = outcome === "drawn";
+
+  return shareImage({
+    eyebrow: `Round #${Number(summary.id)} · ${ROUND_OUTCOME_LABELS[outcome]}`,
+    headline: drawn ? "Pot" : isRefund(outcome) ? "Refunded" : "Pot so far",
+    amount: isRefund(outcome) ? "No pot" : `${formatKas(roundPot(summary))} KAS`,
+    stats: [
+      { label: "Tickets", value: Number(summary.totalTickets).toLocaleString() },
+      { label: "Players", value: Number(summary.participants).toLocaleString() },
+      ...(drawn
+        ? [
+            { label: "Prizes", value: `${winnerCount(row)}` },
+            { label: "Top prize", value: `${formatKasCompact(row.prizes[0])} KAS` },
+            { label: "Rolled over", value: `${formatKasCompact(summary.rolloverShare)} KAS` }
+          ]
+        : [])
+    ]
+  });
+}
@@ -0,0 +1,100 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { zeroAddress } from "viem";
+
+import { formatKas, shortAddress } from "@/lib/format";
+import { ROUND_OUTCOME_LABELS, isRefund, roundOutcome, roundPot } from "@/lib/rounds";
+import { readRoundServer } from "@/lib/serverRaffle";
+import { ordinal, parseRoundParam, roundShareText } from "@/lib/share";
+
+export const revalidate = 60;
+
+type RoundSharePageProps = { params: { roundId: string } };
+
+export async function generateMetadata({ params }: RoundSharePageProps): Promise<Metadata> {
+  const roundId = parseRoundParam(params.roundId);
+  const row = roundId ? await readRoundServer(roundId) : null;
+  if (!row) return { title: "Round not found · KASRaffle" };
+
+  const { title, description } = roundShareText(row);
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: "website", url: `/round/${row.summary.id}` },
+    twitter: { card: "summary_large_image", title, description }
+  };
+}
+
+export default async function RoundSharePage({ params }: RoundSharePageProps) {
+  const roundId = parseRoundParam(params.roundId);
+  const row = roundId ? await readRoundServer(roundId) : null;
+  if (!row) notFound();
+
+  const { summary } = row;
+  const id = Number(summary.id);
+  const outcome = roundOutcome(summary);
+  const { description } = roundShareText(row);
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-3xl flex-col gap-6 px-6 py-10">
+      <header>
+        <p className="text-sm text-slate-400">
+          Round #{id} · {ROUND_OUTCOME_LABELS[outcome]}
+        </p>
+        <h1 className="text-4xl font-semibold text-orange-400">
+          {isRefund(outcome) ? "No pot" : `${formatKas(roundPot(summary))} KAS`}
+        </h1>
+        <p className="mt-2 text-sm text-slate-300">{description}</p>
+      </header>
+
+      {outcome === "drawn" && (
+        <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+          <h2 className="text-lg font-semibold">Winners</h2>
+          <ul className="mt-3 space-y-2 text-sm">
+            {row.winners.map((winner, tier) =>
+              winner === zeroAddress ? null : (
+                <li
+                  key={tier}
+                  className="flex items-center justify-between rounded border border-slate-800 bg-slate-900/80 px-3 py-2"
+                >
+                  <span className="text-xs text-slate-500">{ordinal(tier + 1)}</span>
+                  <Link
+                    href={`/win/${id}/${winner}`}
+                    className="font-mono text-xs text-slate-300 hover:text-orange-300"
+                  >
+                    {shortAddress(winner)}
+                  </Link>
+                  <span className="text-slate-100">{formatKas(row.prizes[tier] ?? 0n)} KAS</span>
+                </li>
+              )
+            )}
+          </ul>
+        </section>
+      )}
+
+      <div className="flex flex-wrap gap-3 text-sm">
+        <Link
+          href="/"
+          className="rounded-md bg-orange-500 px-4 py-2 font-semibold text-slate-950 transition hover:bg-orange-400"
+        >
+          Play the current round
+        </Link>
+        <Link
+          href={`/history/${id}`}
+          className="rounded-md border border-slate-700 px-4 py-2 hover:border-orange-400 hover:text-orange-300"
+        >
+          Full breakdown
+        </Link>
+        {outcome === "drawn" && (
+          <Link
+            href={`/verify/${id}`}
+            className="rounded-md border border-slate-700 px-4 py-2 hover:border-orange-400 hover:text-orange-300"
+          >
+            Verify the draw
+          </Link>
+        )}
+      </div>
+    </main>
+  );
+}
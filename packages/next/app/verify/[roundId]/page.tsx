@@ -0,0 +1,223 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo } from "react";
+import { zeroHash } from "viem";
+
+import { useAllParticipants } from "@/hooks/useAllParticipants";
+import { useRoundSummary } from "@/hooks/useRoundSummary";
+import { useWinners } from "@/hooks/useWinners";
+import { useWinningTicketIndices } from "@/hooks/useWinningTicketIndices";
+import { verifyRound } from "@/lib/fairness";
+import { RoundStatus, roundStatusLabel } from "@/lib/format";
+
+export default function VerifyRoundPage({ params }: { params: { roundId: string } }) {
+  const roundId = useMemo(() => {
+    try {
+      return BigInt(params.roundId);
+    } catch {
+      return undefined;
+    }
+  }, [params.roundId]);
+
+  const { summary, isLoading: isLoadingSummary } = useRoundSummary(roundId);
+  const { winners } = useWinners(roundId);
+  const { indices } = useWinningTicketIndices(roundId);
+  const { participants, isLoading: isLoadingParticipants } = useAllParticipants(roundId);
+
+  const isDrawn = !!summary && summary.status === RoundStatus.Closed && summary.seed !== zeroHash && summary.totalTickets > 0n;
+
+  // The contract stores one winning index per prize tier, so its length is the tier count used at draw time.
+  const report = useMemo(() => {
+    if (!summary || !isDrawn || !participants || !winners || !indices) return undefined;
+    return verifyRound({
+      seed: summary.seed,
+      totalTickets: summary.totalTickets,
+      tierCount: indices.length,
+      participants,
+      onChainWinners: winners,
+      onChainIndices: indices
+    });
+  }, [summary, isDrawn, participants, winners, indices]);
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-4xl flex-col gap-6 px-6 py-10">
+      <header className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Verify Round {roundId !== undefined ? `#${Number(roundId)}` : ""}</h1>
+          <p className="text-sm text-slate-400">Recomputes the draw in your browser from on-chain data.</p>
+        </div>
+        <Link
+          href={roundId !== undefined ? `/history/${roundId}` : "/history"}
+          className="text-sm text-orange-400 hover:text-orange-300"
+        >
+          Back to round
+        </Link>
+      </header>
+
+      {roundId === undefined && <Notice>Invalid round id.</Notice>}
+      {roundId !== undefined && isLoadingSummary && <Notice>Loading round data…</Notice>}
+      {summary && !isDrawn && (
+        <Notice>
+          Round is {roundStatusLabel(summary.status)}
+          {summary.totalTickets === 0n ? " with no tickets sold" : ""}; there is no draw to verify.
+        </Notice>
+      )}
+      {isDrawn && !report && (
+        <Notice>{isLoadingParticipants ? "Loading participant list…" : "Loading draw data…"}</Notice>
+      )}
+
+      {summary && report && (
+        <>
+          <section
+            className={`rounded-xl border p-6 shadow-lg ${
+              report.isValid ? "border-green-700 bg-green-950/40" : "border-red-700 bg-red-950/40"
+            }`}
+          >
+            <h2 className="text-lg font-semibold">{report.isValid ? "Draw verified" : "Verification failed"}</h2>
+            {report.isValid ? (
+              <p className="mt-1 text-sm text-slate-300">
+                Every winner matches the recomputed picks and ticket ranges.
+              </p>
+            ) : (
+              <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-red-300">
+                {report.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <Step title="1. Inputs">
+            <div className="grid grid-cols-1 gap-3 text-sm md:grid-cols-3">
+              <Info label="Total tickets" value={Number(summary.totalTickets).toLocaleString()} />
+              <Info label="Participants" value={Number(summary.participants).toLocaleString()} />
+              <Info label="Prize tiers" value={String(indices?.length ?? 0)} />
+            </div>
+            <Info label="Seed" value={summary.seed} mono />
+            <p className="text-xs text-slate-500">
+              The seed mixes prevrandao, the previous blockhash and round data at close time. Its entropy cannot be
+              checked client-side; everything derived from it below can.
+            </p>
+          </Step>
+
+          <Step title="2. Picks">
+            <p className="text-xs text-slate-500">ticket = uint256(keccak256(abi.encode(seed, i))) % totalTickets + 1</p>
+            <table className="w-full table-fixed text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="w-12 px-2 py-2">i</th>
+                  <th className="px-2 py-2">Hash</th>
+                  <th className="w-28 px-2 py-2 text-right">Ticket</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.picks.map((pick) => (
+                  <tr key={pick.index} className="border-t border-slate-800">
+                    <td className="px-2 py-2 text-slate-400">{pick.index}</td>
+                    <td className="truncate px-2 py-2 font-mono text-xs text-slate-300">{pick.hash}</td>
+                    <td className="px-2 py-2 text-right text-slate-100">{pick.ticket.toString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Step>
+
+          <Step title="3. Sorted tickets vs. winningTicketIndices">
+            <table className="w-full table-fixed text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="w-16 px-2 py-2">Tier</th>
+                  <th className="px-2 py-2 text-right">Recomputed</th>
+                  <th className="px-2 py-2 text-right">On-chain</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.sortedTickets.map((ticket, index) => (
+                  <tr key={index} className="border-t border-slate-800">
+                    <td className="px-2 py-2 text-slate-400">{index + 1}</td>
+                    <td className="px-2 py-2 text-right text-slate-100">{ticket.toString()}</td>
+                    <td className={`px-2 py-2 text-right ${indices?.[index] === ticket ? "text-green-400" : "text-red-400"}`}>
+                      {indices?.[index]?.toString() ?? "--"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Step>
+
+          <Step title="4. Ticket ranges">
+            <p className="text-xs text-slate-500">
+              Participants own consecutive ranges in purchase order; each sorted ticket resolves to the range holding it.
+            </p>
+            <table className="w-full table-fixed text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="w-28 px-2 py-2">Ticket</th>
+                  <th className="w-40 px-2 py-2">Range</th>
+                  <th className="px-2 py-2">Participant</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.assignments.map((assignment, index) => (
+                  <tr key={index} className="border-t border-slate-800">
+                    <td className="px-2 py-2 text-slate-100">{assignment.ticket.toString()}</td>
+                    <td className="px-2 py-2 text-slate-400">
+                      {assignment.rangeStart.toString()}–{assignment.rangeEnd.toString()}
+                    </td>
+                    <td className="truncate px-2 py-2 font-mono text-xs text-slate-300">
+                      #{assignment.participantIndex} {assignment.account}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Step>
+
+          <Step title="5. Winners vs. getWinners">
+            <ul className="space-y-2 text-sm">
+              {report.winners.map((winner) => (
+                <li
+                  key={winner.position}
+                  className="flex items-center justify-between gap-3 rounded border border-slate-800 bg-slate-900/80 px-3 py-2"
+                >
+                  <span className="text-xs text-slate-500">Tier {winner.position + 1}</span>
+                  <span className="flex-1 truncate font-mono text-xs text-slate-300">{winner.onChain ?? "--"}</span>
+                  <span className={winner.matches ? "text-green-400" : "text-red-400"}>
+                    {winner.matches ? "match" : `expected ${winner.expected ?? "--"}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Step>
+        </>
+      )}
+    </main>
+  );
+}
+
+function Step({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Notice({ children }: { children: React.ReactNode }) {
+  return (
+    <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 text-sm text-slate-400 shadow-lg">
+      {children}
+    </section>
+  );
+}
+
+function Info({ label, value, mono = false }: { label: string; value: string; mono?: boolean }) {
+  return (
+    <div className="flex flex-col">
+      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
+      <span className={`break-all text-sm font-semibold text-slate-100 ${mono ? "font-mono text-xs" : ""}`}>{value}</span>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { formatKas, formatKasCompact, shortAddress } from "@/lib/format";
+import { OG_SIZE, notFoundImage, shareImage } from "@/lib/ogImage";
+import { roundPot } from "@/lib/rounds";
+import { readRoundServer } from "@/lib/serverRaffle";
+import { parseAddressParam, parseRoundParam, tierLabel, winFor } from "@/lib/share";
+
+export const alt = "KASRaffle win";
+export const size = OG_SIZE;
+export const contentType = "image/png";
+export const revalidate = 60;
+
+export default async function WinImage({ params }: { params: { roundId: string; address: string } }) {
+  const roundId = parseRoundParam(params.roundId);
+  const account = parseAddressParam(params.address);
+  const row = roundId && account ? await readRoundServer(roundId) : null;
+  const win = row && account ? winFor(row, account) : undefined;
+  if (!row || !account || !win) return notFoundImage("No win found");
+
+  return shareImage({
+    eyebrow: `Round #${Number(row.summary.id)}`,
+    headline: `${shortAddress(account)} won the ${tierLabel(win.tiers)}`,
+    amount: `${formatKas(win.prize)} KAS`,
+    stats: [
+      { label: "Pot", value: `${formatKasCompact(roundPot(row.summary))} KAS` },
+      { label: "Tickets", value: Number(row.summary.totalTickets).toLocaleString() },
+      { label: "Players", value: Number(row.summary.participants).toLocaleString() }
+    ]
+  });
+}
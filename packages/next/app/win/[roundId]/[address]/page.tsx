@@ -0,0 +1,89 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { formatKas } from "@/lib/format";
+import { roundPot } from "@/lib/rounds";
+import { readRoundServer } from "@/lib/serverRaffle";
+import { parseAddressParam, parseRoundParam, tierLabel, winFor, winShareText } from "@/lib/share";
+
+export const revalidate = 60;
+
+type WinSharePageProps = { params: { roundId: string; address: string } };
+
+async function loadWin(params: WinSharePageProps["params"]) {
+  const roundId = parseRoundParam(params.roundId);
+  const account = parseAddressParam(params.address);
+  const row = roundId && account ? await readRoundServer(roundId) : null;
+  const win = row && account ? winFor(row, account) : undefined;
+  return row && account && win ? { row, account, win } : undefined;
+}
+
+export async function generateMetadata({ params }: WinSharePageProps): Promise<Metadata> {
+  const result = await loadWin(params);
+  if (!result) return { title: "Win not found · KASRaffle" };
+
+  const { title, description } = winShareText(result.row, result.account, result.win);
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      url: `/win/${result.row.summary.id}/${result.account}`
+    },
+    twitter: { card: "summary_large_image", title, description }
+  };
+}
+
+export default async function WinSharePage({ params }: WinSharePageProps) {
+  const result = await loadWin(params);
+  if (!result) notFound();
+
+  const { row, account, win } = result;
+  const id = Number(row.summary.id);
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-3xl flex-col gap-6 px-6 py-10">
+      <header>
+        <p className="text-sm text-slate-400">
+          Round #{id} · {tierLabel(win.tiers)}
+        </p>
+        <h1 className="text-4xl font-semibold text-orange-400">{formatKas(win.prize)} KAS</h1>
+        <p className="mt-2 break-all font-mono text-xs text-slate-300">{account}</p>
+        <p className="mt-2 text-sm text-slate-300">
+          Won from a {formatKas(roundPot(row.summary))} KAS pot with {Number(row.summary.totalTickets).toLocaleString()}{" "}
+          tickets in play.
+        </p>
+      </header>
+
+      <div className="flex flex-wrap gap-3 text-sm">
+        <Link
+          href="/"
+          className="rounded-md bg-orange-500 px-4 py-2 font-semibold text-slate-950 transition hover:bg-orange-400"
+        >
+          Try your luck
+        </Link>
+        <Link
+          href={`/round/${id}`}
+          className="rounded-md border border-slate-700 px-4 py-2 hover:border-orange-400 hover:text-orange-300"
+        >
+          Round #{id}
+        </Link>
+        <Link
+          href={`/verify/${id}`}
+          className="rounded-md border border-slate-700 px-4 py-2 hover:border-orange-400 hover:text-orange-300"
+        >
+          Verify the draw
+        </Link>
+        <Link
+          href={`/player/${account}`}
+          className="rounded-md border border-slate-700 px-4 py-2 hover:border-orange-400 hover:text-orange-300"
+        >
+          Player history
+        </Link>
+      </div>
+    </main>
+  );
+}
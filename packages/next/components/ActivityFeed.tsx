@@ -0,0 +1,88 @@
+"use client";
+
+import Link from "next/link";
+import { useAccount } from "wagmi";
+
+import { useActivityFeed } from "@/hooks/useActivityFeed";
+import { type LiveMode, useLiveMode } from "@/hooks/useRaffleEventSync";
+import type { ActivityItem } from "@/lib/activity";
+import { formatKas, shortAddress } from "@/lib/format";
+
+const MODE_LABELS: Record<LiveMode, { label: string; className: string }> = {
+  live: { label: "Live", className: "bg-green-400" },
+  polling: { label: "Polling", className: "bg-orange-400" },
+  off: { label: "Offline", className: "bg-slate-500" }
+};
+
+export function ActivityFeed({ limit = 12 }: { limit?: number }) {
+  const { items, isLoading } = useActivityFeed();
+  const mode = useLiveMode();
+  const { chain } = useAccount();
+  const explorerUrl = chain?.blockExplorers?.default.url;
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Activity</h2>
+        <span className="flex items-center gap-2 text-xs text-slate-400">
+          <span className={`h-2 w-2 rounded-full ${MODE_LABELS[mode].className}`} />
+          {MODE_LABELS[mode].label}
+        </span>
+      </div>
+
+      {isLoading && <p className="text-sm text-slate-400">Loading recent events…</p>}
+      {!isLoading && (!items || items.length === 0) && <p className="text-sm text-slate-400">No recent activity.</p>}
+
+      {items && items.length > 0 && (
+        <ul className="space-y-2 text-sm">
+          {items.slice(0, limit).map((item) => (
+            <li
+              key={item.id}
+              className="flex items-center justify-between gap-3 rounded border border-slate-800 bg-slate-900/80 px-3 py-2"
+            >
+              <span className="text-slate-200">
+                <span className="mr-2 text-xs text-slate-500">#{Number(item.roundId)}</span>
+                <ActivityText item={item} />
+              </span>
+              <span className="shrink-0 font-mono text-xs text-slate-500">
+                {explorerUrl ? (
+                  <a href={`${explorerUrl}/tx/${item.transactionHash}`} target="_blank" rel="noreferrer" className="hover:text-orange-300">
+                    block {item.blockNumber.toString()}
+                  </a>
+                ) : (
+                  `block ${item.blockNumber.toString()}`
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function ActivityText({ item }: { item: ActivityItem }) {
+  switch (item.eventName) {
+    case "TicketsPurchased":
+      return (
+        <>
+          <span className="font-mono text-xs">{shortAddress(item.buyer)}</span> bought{" "}
+          {Number(item.tickets).toLocaleString()} ticket(s) for {formatKas(item.value)} KAS
+        </>
+      );
+    case "RoundReady":
+      return <>Round closed with a {formatKas(item.pot)} KAS pot</>;
+    case "DrawingStarted":
+      return <>Winning tickets drawn</>;
+    case "WinnersResolved":
+      return (
+        <>
+          {item.winners.length} winner(s) resolved for{" "}
+          {formatKas(item.prizes.reduce((sum, prize) => sum + prize, 0n))} KAS ·{" "}
+          <Link href={`/verify/${item.roundId}`} className="text-orange-400 hover:text-orange-300">
+            verify
+          </Link>
+        </>
+      );
+  }
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+
+import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { downloadFile } from "@/lib/download";
+import { type SafeBatchTransaction, buildSafeBatch } from "@/lib/safe";
+
+export type AdminMode = "wallet" | "safe";
+
+type AdminModePanelProps = {
+  owner?: `0x${string}`;
+  isContractOwner?: boolean;
+  mode: AdminMode;
+  onModeChange: (mode: AdminMode) => void;
+  transactions: SafeBatchTransaction[];
+  onRemove: (index: number) => void;
+  onClear: () => void;
+};
+
+export function AdminModePanel({
+  owner,
+  isContractOwner,
+  mode,
+  onModeChange,
+  transactions,
+  onRemove,
+  onClear
+}: AdminModePanelProps) {
+  const contract = useKasRaffleContract();
+  const [batchName, setBatchName] = useState("KASRaffle admin batch");
+
+  const handleDownload = () => {
+    if (!owner) return;
+    const file = buildSafeBatch({ chainId: contract.chainId, safeAddress: owner, name: batchName, transactions });
+    downloadFile(`kasraffle-safe-batch-${file.createdAt}.json`, JSON.stringify(file, null, 2), "application/json");
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Signing Mode</h2>
+          <p className="text-sm text-slate-400">
+            Owner <span className="font-mono text-xs text-slate-300">{owner ?? "…"}</span>
+            {isContractOwner !== undefined &&
+              (isContractOwner ? " is a contract (Safe)." : " is an externally owned account.")}
+          </p>
+        </div>
+        <div className="flex rounded-md border border-slate-700 text-xs font-semibold">
+          {(["wallet", "safe"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => onModeChange(option)}
+              disabled={option === "safe" && !isContractOwner}
+              className={`px-3 py-2 transition disabled:cursor-not-allowed disabled:opacity-40 ${mode === option ? "bg-orange-500 text-slate-950" : "text-slate-300 hover:text-orange-300"}`}
+            >
+              {option === "wallet" ? "Send from wallet" : "Build Safe batch"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === "wallet" && isContractOwner && (
+        <p className="text-xs text-amber-300">
+          The owner is a contract, so transactions sent from a wallet will revert with an ownership error.
+        </p>
+      )}
+
+      {mode === "safe" && (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-400">
+            Actions below are simulated as the Safe and queued here. Download the batch and load it in the Safe
+            Transaction Builder for the owners to sign.
+          </p>
+          {transactions.length === 0 ? (
+            <p className="text-sm text-slate-400">No transactions queued.</p>
+          ) : (
+            <ol className="space-y-1 text-xs">
+              {transactions.map((tx, index) => (
+                <li
+                  key={index}
+                  className="flex items-center justify-between gap-3 rounded border border-slate-800 px-3 py-2"
+                >
+                  <span className="truncate font-mono text-slate-200">
+                    {index + 1}. {tx.summary}
+                  </span>
+                  <button onClick={() => onRemove(index)} className="text-slate-500 hover:text-red-400">
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={batchName}
+              onChange={(event) => setBatchName(event.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
+            />
+            <button
+              onClick={handleDownload}
+              disabled={transactions.length === 0 || !owner}
+              className="rounded-md bg-orange-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-orange-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Download batch JSON
+            </button>
+            <button
+              onClick={onClear}
+              disabled={transactions.length === 0}
+              className="rounded-md border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-red-400 hover:text-red-300 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
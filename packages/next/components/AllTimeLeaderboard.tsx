@@ -0,0 +1,154 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+
+import { useRaffleHistory } from "@/hooks/useRaffleHistory";
+import { downloadCsv, toCsv } from "@/lib/csv";
+import { formatKas } from "@/lib/format";
+import { type PlayerSortKey, rankPlayers } from "@/lib/history";
+
+const PAGE_SIZE = 50;
+
+const COLUMNS: { key: PlayerSortKey; label: string }[] = [
+  { key: "ticketsBought", label: "Tickets" },
+  { key: "spent", label: "Spent" },
+  { key: "roundsPlayed", label: "Rounds" },
+  { key: "wins", label: "Wins" },
+  { key: "prizesWon", label: "Prizes" },
+  { key: "net", label: "Net P&L" }
+];
+
+export function AllTimeLeaderboard() {
+  const { players, isLoading, error } = useRaffleHistory();
+  const [sortKey, setSortKey] = useState<PlayerSortKey>("ticketsBought");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(0);
+
+  const ranked = useMemo(() => rankPlayers(players.values(), sortKey), [players, sortKey]);
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const withRank = ranked.map((player, index) => ({ rank: index + 1, player }));
+    return query ? withRank.filter(({ player }) => player.account.toLowerCase().includes(query)) : withRank;
+  }, [ranked, search]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const handleExport = () => {
+    const csv = toCsv(
+      ["rank", "address", "tickets", "spent_wei", "rounds", "wins", "prizes_wei", "refunded_wei", "net_wei"],
+      filtered.map(({ rank, player }) => [
+        rank,
+        player.account,
+        player.ticketsBought,
+        player.spent,
+        player.roundsPlayed,
+        player.wins,
+        player.prizesWon,
+        player.refunded,
+        player.net
+      ])
+    );
+    downloadCsv(`kasraffle-all-time-${sortKey}.csv`, csv);
+  };
+
+  return (
+    <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">All-Time Players</h2>
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <input
+            type="search"
+            placeholder="Search address"
+            value={search}
+            onChange={(event) => {
+              setSearch(event.target.value);
+              setPage(0);
+            }}
+            className="w-44 rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100 focus:border-orange-400 focus:outline-none"
+          />
+          <button
+            onClick={handleExport}
+            disabled={filtered.length === 0}
+            className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {isLoading && <p className="text-sm text-slate-400">Scanning contract events…</p>}
+      {error && <p className="text-sm text-red-400">Could not load event history: {error.message}</p>}
+      {!isLoading && !error && filtered.length === 0 && <p className="text-sm text-slate-400">No players found.</p>}
+
+      {visible.length > 0 && (
+        <table className="w-full table-fixed text-left text-sm">
+          <thead className="text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="w-12 px-2 py-2">#</th>
+              <th className="px-2 py-2">Address</th>
+              {COLUMNS.map((column) => (
+                <th key={column.key} className="w-24 px-2 py-2 text-right">
+                  <button
+                    onClick={() => setSortKey(column.key)}
+                    className={sortKey === column.key ? "text-orange-300" : "hover:text-slate-300"}
+                  >
+                    {column.label}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(({ rank, player }) => (
+              <tr key={player.account} className="border-t border-slate-800">
+                <td className="px-2 py-2 text-xs text-slate-500">{rank}</td>
+                <td className="truncate px-2 py-2 font-mono text-xs">
+                  <Link href={`/player/${player.account}`} className="text-slate-200 hover:text-orange-300">
+                    {player.account}
+                  </Link>
+                </td>
+                <td className="px-2 py-2 text-right text-slate-100">{Number(player.ticketsBought).toLocaleString()}</td>
+                <td className="px-2 py-2 text-right text-slate-100">{formatKas(player.spent)}</td>
+                <td className="px-2 py-2 text-right text-slate-100">{player.roundsPlayed}</td>
+                <td className="px-2 py-2 text-right text-slate-100">{player.wins}</td>
+                <td className="px-2 py-2 text-right text-slate-100">{formatKas(player.prizesWon)}</td>
+                <td className={`px-2 py-2 text-right ${player.net < 0n ? "text-red-400" : "text-green-400"}`}>
+                  {formatKas(player.net)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {filtered.length > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2 text-xs text-slate-400">
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+          >
+            Prev
+          </button>
+          <span>
+            Page {currentPage + 1} of {pageCount}
+          </span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage + 1 >= pageCount}
+            className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+          >
+            Next
+          </button>
+        </div>
+      )}
+      <p className="text-xs text-slate-500">
+        Built from `TicketsPurchased`, `WinnersResolved`, `Claimed` and `Refunded` logs. Amounts are in KAS; net P&amp;L
+        counts prizes won and refunds against everything spent, including tickets in the open round.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import type { ChangeEvent } from "react";
+
+export function FormField({
+  label,
+  value,
+  onChange,
+  type = "text",
+  placeholder,
+  min,
+  max,
+  step,
+  required
+}: {
+  label: string;
+  value: string;
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  type?: string;
+  placeholder?: string;
+  min?: string;
+  max?: string;
+  step?: string;
+  required?: boolean;
+}) {
+  return (
+    <label className="flex flex-col gap-2 text-sm text-slate-300">
+      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
+      <input
+        type={type}
+        value={value}
+        onChange={onChange}
+        placeholder={placeholder}
+        min={min}
+        max={max}
+        step={step}
+        required={required}
+        className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
+      />
+    </label>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 8;
+
+export type ChartSeries = {
+  label: string;
+  color: string;
+  /** One value per point, already converted to display units. */
+  values: number[];
+  dashed?: boolean;
+};
+
+type LineChartProps = {
+  series: ChartSeries[];
+  /** Shown under the chart next to the legend, e.g. the round range. */
+  caption?: ReactNode;
+};
+
+export function LineChart({ series, caption }: LineChartProps) {
+  const length = Math.max(0, ...series.map((line) => line.values.length));
+  const max = Math.max(...series.flatMap((line) => line.values), Number.EPSILON);
+  const x = (index: number) =>
+    CHART_PADDING + (length === 1 ? 0.5 : index / (length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - (value / max) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="h-44 w-full rounded-md border border-slate-800 bg-slate-950"
+        preserveAspectRatio="none"
+      >
+        {series.map((line) => (
+          <polyline
+            key={line.label}
+            fill="none"
+            stroke={line.color}
+            strokeWidth={2}
+            strokeDasharray={line.dashed ? "6 4" : undefined}
+            vectorEffect="non-scaling-stroke"
+            points={line.values.map((value, index) => `${x(index)},${y(value)}`).join(" ")}
+          >
+            <title>{line.label}</title>
+          </polyline>
+        ))}
+      </svg>
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+        <div className="flex flex-wrap gap-4">
+          {series.map((line) => (
+            <span key={line.label} className="flex items-center gap-1">
+              <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: line.color }} />
+              {line.label}
+            </span>
+          ))}
+        </div>
+        {caption && <span>{caption}</span>}
+      </div>
+    </div>
+  );
+}
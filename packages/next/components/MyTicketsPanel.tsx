@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import { useAccount } from "wagmi";
+
+import { useMyEntry } from "@/hooks/useMyEntry";
+import { useRaffleConfig } from "@/hooks/useRaffleConfig";
+import type { RoundStruct } from "@/hooks/useRound";
+import { useTicketPurchases } from "@/hooks/useTicketPurchases";
+import { useTierBps } from "@/hooks/useTierBps";
+import { formatKas } from "@/lib/format";
+import { entryOdds, formatProbability, winnersShareOf } from "@/lib/odds";
+
+export function MyTicketsPanel({ round }: { round?: RoundStruct }) {
+  const { address, chain } = useAccount();
+  const { entry, isLoading, refetch: refetchEntry } = useMyEntry(round?.id);
+  const { purchases, refetch: refetchPurchases } = useTicketPurchases(round?.id, address as `0x${string}` | undefined);
+  const { values } = useRaffleConfig();
+  const { tiers } = useTierBps();
+
+  // Any purchase moves totalTickets, which is the cue that our slot or range may have changed.
+  const totalTickets = round?.totalTickets;
+  useEffect(() => {
+    if (!totalTickets) return;
+    void refetchEntry();
+    void refetchPurchases();
+  }, [totalTickets, refetchEntry, refetchPurchases]);
+
+  // Shares are only fixed at close; until then project them from the live pot.
+  const winnersShare = useMemo(() => {
+    if (!round) return 0n;
+    if (round.winnersShare > 0n) return round.winnersShare;
+    return winnersShareOf(round.ticketPot + round.seededRollover, values.winnersBps ?? 0);
+  }, [round, values.winnersBps]);
+
+  const odds = useMemo(() => {
+    if (!entry || !round || !tiers) return undefined;
+    return entryOdds({
+      rangeStart: entry.rangeStart,
+      rangeEnd: entry.rangeEnd,
+      totalTickets: round.totalTickets,
+      winnersShare,
+      tierBps: tiers
+    });
+  }, [entry, round, tiers, winnersShare]);
+
+  const explorerUrl = chain?.blockExplorers?.default.url;
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <h2 className="text-xl font-semibold">My Tickets</h2>
+
+      {!address && <p className="text-sm text-slate-400">Connect a wallet to see your entry.</p>}
+      {address && isLoading && <p className="text-sm text-slate-400">Looking up your entry…</p>}
+      {address && !isLoading && !entry && (
+        <p className="text-sm text-slate-400">You have no tickets in round #{Number(round?.id ?? 0n)} yet.</p>
+      )}
+
+      {entry && round && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <Info label="Tickets" value={Number(entry.tickets).toLocaleString()} />
+            <Info label="Ticket Numbers" value={`${entry.rangeStart.toString()}–${entry.rangeEnd.toString()}`} />
+            <Info label="Chance to Win Any" value={formatProbability(odds?.anyWinProbability ?? 0)} />
+            <Info label="Expected Value" value={`${formatKas(odds?.expectedValue ?? 0n, 4)} KAS`} />
+          </div>
+
+          {odds && odds.tiers.length > 0 && (
+            <table className="w-full table-fixed text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="w-16 px-2 py-2">Tier</th>
+                  <th className="px-2 py-2 text-right">Prize</th>
+                  <th className="px-2 py-2 text-right">Chance</th>
+                  <th className="px-2 py-2 text-right">Expected</th>
+                </tr>
+              </thead>
+              <tbody>
+                {odds.tiers.map((tier) => (
+                  <tr key={tier.tier} className="border-t border-slate-800">
+                    <td className="px-2 py-2 text-slate-400">{tier.tier + 1}</td>
+                    <td className="px-2 py-2 text-right text-slate-100">{formatKas(tier.prize)} KAS</td>
+                    <td className="px-2 py-2 text-right text-slate-100">{formatProbability(tier.probability)}</td>
+                    <td className="px-2 py-2 text-right text-slate-100">{formatKas(tier.expectedValue, 4)} KAS</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-slate-500">
+            Each tier draws one ticket with replacement and the draws are sorted, so tier 1 goes to the lowest ticket
+            drawn: low ticket numbers lean towards the first tiers. One entry can win several tiers. Prizes are
+            projected from the current pot and change as more tickets are sold.
+          </p>
+        </>
+      )}
+
+      {purchases && purchases.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-slate-300">Purchase History</h3>
+          <ul className="mt-2 space-y-1 text-xs">
+            {purchases.map((purchase) => (
+              <li
+                key={purchase.transactionHash}
+                className="flex items-center justify-between gap-3 rounded border border-slate-800 bg-slate-900/80 px-3 py-2"
+              >
+                <span className="text-slate-100">
+                  {Number(purchase.tickets).toLocaleString()} ticket(s) · {formatKas(purchase.amount)} KAS
+                </span>
+                <span className="truncate font-mono text-slate-500">
+                  {explorerUrl ? (
+                    <a
+                      href={`${explorerUrl}/tx/${purchase.transactionHash}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="hover:text-orange-300"
+                    >
+                      block {purchase.blockNumber.toString()}
+                    </a>
+                  ) : (
+                    `block ${purchase.blockNumber.toString()}`
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function Info({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col">
+      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
+      <span className="text-sm font-semibold text-slate-100">{value}</span>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { isAddress, isAddressEqual, zeroAddress } from "viem";
+import { useBytecode } from "wagmi";
+
+import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { useRenounceOwnership, useTransferOwnership } from "@/hooks/useOwnership";
+import { usePaused } from "@/hooks/usePaused";
+
+type OwnershipCardProps = {
+  owner?: `0x${string}`;
+  /** Non-owners see who owns the contract but get no controls. */
+  readOnly: boolean;
+  onChanged: () => void;
+};
+
+export function OwnershipCard({ owner, readOnly, onChanged }: OwnershipCardProps) {
+  const contract = useKasRaffleContract();
+  const { paused } = usePaused();
+  const transfer = useTransferOwnership();
+  const renounce = useRenounceOwnership();
+
+  const [newOwner, setNewOwner] = useState("");
+  const [confirmOwner, setConfirmOwner] = useState("");
+  const [renounceConfirm, setRenounceConfirm] = useState("");
+
+  const candidate = isAddress(newOwner) ? newOwner : undefined;
+  const { data: candidateCode } = useBytecode({ address: candidate, query: { enabled: Boolean(candidate) } });
+  const candidateIsContract = Boolean(candidateCode && candidateCode !== "0x");
+
+  useEffect(() => {
+    if (transfer.receipt.isSuccess || renounce.receipt.isSuccess) onChanged();
+  }, [onChanged, renounce.receipt.isSuccess, transfer.receipt.isSuccess]);
+
+  const transferProblem = (() => {
+    if (!newOwner) return undefined;
+    if (!candidate) return "Not a valid address.";
+    if (isAddressEqual(candidate, zeroAddress))
+      return "The zero address cannot own the contract; use renounce instead.";
+    if (owner && isAddressEqual(candidate, owner)) return "That address already owns the contract.";
+    if (contract.address && isAddressEqual(candidate, contract.address)) {
+      return "The raffle cannot own itself; nobody could ever call an admin function again.";
+    }
+    if (confirmOwner && confirmOwner.toLowerCase() !== newOwner.toLowerCase()) {
+      return "The confirmation does not match the new owner.";
+    }
+    return undefined;
+  })();
+  const canTransfer =
+    !!candidate && !transferProblem && confirmOwner.toLowerCase() === newOwner.toLowerCase() && !transfer.isPending;
+
+  const canRenounce =
+    !!contract.address && renounceConfirm.toLowerCase() === contract.address.toLowerCase() && !renounce.isPending;
+
+  const handleTransfer = async () => {
+    if (!canTransfer || !candidate) return;
+    try {
+      await transfer.transferOwnership(candidate);
+      setConfirmOwner("");
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleRenounce = async () => {
+    if (!canRenounce) return;
+    try {
+      await renounce.renounceOwnership();
+      setRenounceConfirm("");
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <div>
+        <h2 className="text-lg font-semibold">Ownership</h2>
+        <p className="text-sm text-slate-400">
+          Current owner <span className="font-mono text-xs text-slate-200">{owner ?? "…"}</span>
+        </p>
+      </div>
+
+      {!readOnly && (
+        <>
+          <div className="space-y-3 rounded-md border border-amber-500/40 bg-amber-500/5 p-4">
+            <h3 className="text-sm font-semibold text-amber-300">Transfer ownership</h3>
+            <p className="text-xs text-slate-400">
+              Ownership moves in a single step: the new address does not have to accept. If it cannot sign transactions,
+              every admin control is lost for good.
+            </p>
+            <input
+              type="text"
+              value={newOwner}
+              onChange={(event) => setNewOwner(event.target.value.trim())}
+              placeholder="New owner 0x..."
+              className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 font-mono text-xs text-slate-100 focus:border-orange-400 focus:outline-none"
+            />
+            <input
+              type="text"
+              value={confirmOwner}
+              onChange={(event) => setConfirmOwner(event.target.value.trim())}
+              onPaste={(event) => event.preventDefault()}
+              placeholder="Type the new owner again to confirm"
+              className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 font-mono text-xs text-slate-100 focus:border-orange-400 focus:outline-none"
+            />
+            {candidate && !transferProblem && (
+              <p className="text-xs text-slate-400">
+                {candidateIsContract
+                  ? "The new owner is a contract. Make sure it can call KASRaffle admin functions, e.g. a Safe."
+                  : "The new owner is an externally owned account. Make sure someone holds its key."}
+              </p>
+            )}
+            {transferProblem && <p className="text-xs text-red-400">{transferProblem}</p>}
+            <button
+              onClick={handleTransfer}
+              disabled={!canTransfer}
+              className="rounded-md bg-amber-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {transfer.isPending ? "Transferring…" : "Transfer ownership"}
+            </button>
+            {transfer.error && <p className="text-xs text-red-400">{transfer.error.message}</p>}
+            {transfer.receipt.isSuccess && <p className="text-xs text-green-400">Ownership transferred.</p>}
+          </div>
+
+          <div className="space-y-3 rounded-md border border-red-500/50 bg-red-500/5 p-4">
+            <h3 className="text-sm font-semibold text-red-300">Renounce ownership</h3>
+            <p className="text-xs text-slate-400">
+              Irreversible. Nobody will be able to withdraw fees, sweep excess, change parameters or pause the raffle
+              again. Accrued fees stay locked in the contract forever.
+            </p>
+            {paused && (
+              <p className="text-xs font-semibold text-red-400">
+                The raffle is paused. Renouncing now freezes it permanently: no purchases, draws, refunds or claims.
+              </p>
+            )}
+            <input
+              type="text"
+              value={renounceConfirm}
+              onChange={(event) => setRenounceConfirm(event.target.value.trim())}
+              placeholder={`Type the raffle address ${contract.address ?? ""} to confirm`}
+              className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 font-mono text-xs text-slate-100 focus:border-red-400 focus:outline-none"
+            />
+            <button
+              onClick={handleRenounce}
+              disabled={!canRenounce}
+              className="rounded-md bg-red-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-red-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {renounce.isPending ? "Renouncing…" : "Renounce ownership"}
+            </button>
+            {renounce.error && <p className="text-xs text-red-400">{renounce.error.message}</p>}
+            {renounce.receipt.isSuccess && <p className="text-xs text-green-400">Ownership renounced.</p>}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
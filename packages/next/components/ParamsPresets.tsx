@@ -0,0 +1,110 @@
+"use client";
+
+import { type ParamsPreset, parsePreset, serializePreset, validateParams } from "@kasraffle/sdk";
+import { type ChangeEvent, useRef, useState } from "react";
+
+import { downloadFile } from "@/lib/download";
+import { type ParamsForm, parseParamsForm, toParamsForm } from "@/lib/params";
+import { BUILT_IN_PRESETS, presetFilename } from "@/lib/presets";
+
+type ParamsPresetsProps = {
+  form: ParamsForm;
+  onApply: (form: ParamsForm) => void;
+};
+
+export function ParamsPresets({ form, onApply }: ParamsPresetsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [selected, setSelected] = useState(BUILT_IN_PRESETS[0]?.name ?? "");
+  const [exportName, setExportName] = useState("");
+  const [message, setMessage] = useState<{ tone: "error" | "info"; text: string } | null>(null);
+
+  const apply = (preset: ParamsPreset) => {
+    onApply(toParamsForm(preset.params));
+    setMessage({ tone: "info", text: `Loaded "${preset.name}" into the form. Review the preview before updating.` });
+  };
+
+  const handleApplyBuiltIn = () => {
+    const preset = BUILT_IN_PRESETS.find((candidate) => candidate.name === selected);
+    if (preset) apply(preset);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      apply(parsePreset(await file.text()));
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Could not read preset." });
+    }
+  };
+
+  const handleExport = () => {
+    try {
+      const params = parseParamsForm(form);
+      const problem = validateParams(params)[0];
+      if (problem) throw new Error(`Fix the form before exporting: ${problem.message}`);
+      const name = exportName.trim() || "Custom";
+      downloadFile(presetFilename(name), serializePreset({ name, params }), "application/json");
+      setMessage({ tone: "info", text: `Exported "${name}".` });
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Could not export preset." });
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-slate-800 bg-slate-950/60 p-4 text-sm">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Presets</h3>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selected}
+          onChange={(event) => setSelected(event.target.value)}
+          className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
+        >
+          {BUILT_IN_PRESETS.map((preset) => (
+            <option key={preset.name} value={preset.name}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleApplyBuiltIn}
+          className="rounded-md border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:border-orange-400 hover:text-orange-300"
+        >
+          Load preset
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="rounded-md border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:border-orange-400 hover:text-orange-300"
+        >
+          Import JSON
+        </button>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      <p className="text-xs text-slate-500">
+        {BUILT_IN_PRESETS.find((preset) => preset.name === selected)?.description}
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={exportName}
+          onChange={(event) => setExportName(event.target.value)}
+          placeholder="Preset name"
+          className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
+        />
+        <button
+          type="button"
+          onClick={handleExport}
+          className="rounded-md border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:border-orange-400 hover:text-orange-300"
+        >
+          Export form as JSON
+        </button>
+      </div>
+      {message && (
+        <p className={`text-xs ${message.tone === "error" ? "text-red-400" : "text-slate-400"}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
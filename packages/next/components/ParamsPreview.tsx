@@ -0,0 +1,68 @@
+"use client";
+
+import type { ParamIssue } from "@kasraffle/sdk";
+
+import type { ParamChange } from "@/lib/params";
+
+type ParamsPreviewProps = {
+  changes: ParamChange[];
+  issues: ParamIssue[];
+  impacts: ParamIssue[];
+  parseError?: string;
+  roundLabel?: string;
+};
+
+export function ParamsPreview({ changes, issues, impacts, parseError, roundLabel }: ParamsPreviewProps) {
+  if (parseError) {
+    return (
+      <p className="rounded-md border border-red-500/60 bg-red-500/10 px-3 py-2 text-xs text-red-300">{parseError}</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-slate-800 bg-slate-950/60 p-4 text-sm">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Preview</h3>
+      {changes.length === 0 ? (
+        <p className="text-xs text-slate-400">No changes from the on-chain configuration.</p>
+      ) : (
+        <table className="w-full text-left text-xs">
+          <thead className="uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="py-1">Parameter</th>
+              <th className="py-1 text-right">On-chain</th>
+              <th className="py-1 text-right">Proposed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((change) => (
+              <tr key={change.key} className="border-t border-slate-800">
+                <td className="py-1 text-slate-300">{change.label}</td>
+                <td className="py-1 text-right text-slate-500 line-through">{change.from}</td>
+                <td className="py-1 text-right text-orange-300">{change.to}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <IssueList title="Checks" issues={issues} />
+      <IssueList title={roundLabel ? `Effect on ${roundLabel}` : "Effect on the current round"} issues={impacts} />
+    </div>
+  );
+}
+
+function IssueList({ title, issues }: { title: string; issues: ParamIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <h4 className="text-xs font-semibold text-slate-400">{title}</h4>
+      <ul className="space-y-1 text-xs">
+        {issues.map((issue, index) => (
+          <li key={index} className={issue.severity === "error" ? "text-red-400" : "text-amber-300"}>
+            {issue.severity === "error" ? "✕" : "!"} {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { tryParseAmount } from "@kasraffle/sdk";
+import { useMemo, useState } from "react";
+import { useAccount, useBalance } from "wagmi";
+
+import { useBuyTickets } from "@/hooks/useBuyTickets";
+import { useFiatEquivalent } from "@/hooks/useFiatEquivalent";
+import { useMyEntry } from "@/hooks/useMyEntry";
+import { usePaused } from "@/hooks/usePaused";
+import { useRaffleConfig } from "@/hooks/useRaffleConfig";
+import type { RoundStruct } from "@/hooks/useRound";
+import { RoundStatus, formatKas, roundStatusLabel } from "@/lib/format";
+import { maxBuyableTickets, quotePurchase } from "@/lib/purchase";
+
+type InputMode = "tickets" | "amount";
+
+export function PurchaseWidget({ round, onPurchased }: { round?: RoundStruct; onPurchased?: () => unknown }) {
+  const { address } = useAccount();
+  const { data: balance } = useBalance({ address });
+  const { values } = useRaffleConfig();
+  const { paused } = usePaused();
+  const { entry } = useMyEntry(round?.id);
+  const { buy, isPending, error, receipt } = useBuyTickets();
+
+  const [mode, setMode] = useState<InputMode>("tickets");
+  const [ticketInput, setTicketInput] = useState("1");
+  const [amountInput, setAmountInput] = useState("");
+
+  const price = values.ticketPrice;
+
+  const value = useMemo(() => {
+    if (!price) return 0n;
+    if (mode === "tickets") {
+      return /^\d+$/.test(ticketInput) ? price * BigInt(ticketInput) : 0n;
+    }
+    return tryParseAmount(amountInput, { allowZero: true }) ?? 0n;
+  }, [amountInput, mode, price, ticketInput]);
+
+  const quote = useMemo(() => quotePurchase(value, price ?? 0n), [price, value]);
+  const costFiat = useFiatEquivalent(quote.cost);
+
+  const capacity = useMemo(() => {
+    if (!round || values.maxTicketsPerRound === undefined) return undefined;
+    if (values.maxTicketsPerAddress === undefined || values.maxParticipants === undefined) return undefined;
+    return maxBuyableTickets({
+      maxTicketsPerRound: values.maxTicketsPerRound,
+      maxTicketsPerAddress: values.maxTicketsPerAddress,
+      maxParticipants: values.maxParticipants,
+      totalTickets: round.totalTickets,
+      participants: round.participants,
+      heldTickets: entry?.tickets
+    });
+  }, [entry?.tickets, round, values.maxParticipants, values.maxTicketsPerAddress, values.maxTicketsPerRound]);
+
+  const affordable = balance && price ? balance.value / price : undefined;
+  const maxTickets =
+    capacity && affordable !== undefined ? (affordable < capacity.max ? affordable : capacity.max) : capacity?.max;
+
+  const blocker = (() => {
+    if (!address) return "Connect a wallet to buy tickets.";
+    if (paused) return "The raffle is paused by the owner.";
+    if (!round || !price) return "Loading round…";
+    if (round.status !== RoundStatus.Open) {
+      return `Round #${Number(round.id)} is ${roundStatusLabel(round.status)}; tickets go on sale again when the next round opens.`;
+    }
+    if (quote.tickets === 0n) return `Enter at least one ticket price (${formatKas(price)} KAS).`;
+    if (capacity && quote.tickets > capacity.max) {
+      return capacity.max === 0n && capacity.limitedBy === "maxParticipants"
+        ? `This round is full: it already has maxParticipants (${values.maxParticipants}) buyers.`
+        : `You would exceed ${capacity.limitedBy} by ${quote.tickets - capacity.max}.`;
+    }
+    if (balance && value > balance.value) return "Insufficient KAS balance for this purchase.";
+    return undefined;
+  })();
+
+  const handleMax = () => {
+    if (!maxTickets || !price) return;
+    setMode("tickets");
+    setTicketInput(maxTickets.toString());
+  };
+
+  const handleBuy = async () => {
+    if (blocker) return;
+    try {
+      await buy(value);
+      await onPurchased?.();
+    } catch (cause) {
+      console.error(cause);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold">Buy Tickets</h2>
+        <div className="flex rounded-md border border-slate-700 text-xs">
+          {(["tickets", "amount"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 ${mode === option ? "bg-slate-800 text-orange-300" : "text-slate-400 hover:text-slate-200"}`}
+            >
+              {option === "tickets" ? "Tickets" : "KAS amount"}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="mt-2 text-sm text-slate-400">Ticket price: {price ? `${formatKas(price)} KAS` : "--"}</p>
+
+      <div className="mt-4 flex items-center gap-3">
+        {mode === "tickets" ? (
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={ticketInput}
+            onChange={(event) => setTicketInput(event.target.value)}
+            className="w-28 rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-right text-slate-100 focus:border-orange-400 focus:outline-none"
+          />
+        ) : (
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="0.0"
+            value={amountInput}
+            onChange={(event) => setAmountInput(event.target.value.trim())}
+            className="w-28 rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-right text-slate-100 focus:border-orange-400 focus:outline-none"
+          />
+        )}
+        <button
+          onClick={handleMax}
+          disabled={!maxTickets}
+          className="rounded-md border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-300 transition hover:border-orange-400 hover:text-orange-300 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Max{maxTickets !== undefined ? ` (${maxTickets.toLocaleString()})` : ""}
+        </button>
+        <button
+          onClick={handleBuy}
+          disabled={Boolean(blocker) || isPending}
+          className="rounded-md bg-orange-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-orange-400 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isPending ? "Processing..." : `Buy ${quote.tickets.toLocaleString()} (${formatKas(value, 4)} KAS)`}
+        </button>
+      </div>
+
+      <dl className="mt-4 grid grid-cols-3 gap-3 text-sm">
+        <Info label="Tickets" value={quote.tickets.toLocaleString()} />
+        <Info label="Cost" value={`${formatKas(quote.cost, 4)} KAS`} detail={costFiat && `≈ ${costFiat}`} />
+        <Info label="Refunded" value={`${formatKas(quote.remainder, 6)} KAS`} />
+      </dl>
+      {capacity && (
+        <p className="mt-2 text-xs text-slate-500">
+          You can add up to {capacity.max.toLocaleString()} more ticket(s) this round (limited by {capacity.limitedBy}
+          {entry ? `; you hold ${entry.tickets.toLocaleString()}` : ""}).
+        </p>
+      )}
+
+      {blocker && address && <p className="mt-4 text-sm text-orange-300">{blocker}</p>}
+      {error && <p className="mt-4 text-sm text-red-400">{error.message}</p>}
+      {receipt.data?.status === "success" && <p className="mt-4 text-sm text-green-400">Purchase confirmed on-chain.</p>}
+    </div>
+  );
+}
+
+function Info({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="flex flex-col">
+      <dt className="text-xs uppercase tracking-wide text-slate-500">{label}</dt>
+      <dd className="font-semibold text-slate-100">{value}</dd>
+      {detail && <dd className="text-xs text-slate-500">{detail}</dd>}
+    </div>
+  );
+}
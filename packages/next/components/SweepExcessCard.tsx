@@ -0,0 +1,153 @@
+"use client";
+
+import { parseKas } from "@kasraffle/sdk";
+import { useEffect, useMemo, useState } from "react";
+import { formatEther, isAddress } from "viem";
+import { useAccount } from "wagmi";
+
+import { useSweepExcess } from "@/hooks/useSweepExcess";
+import { useTreasury } from "@/hooks/useTreasury";
+import { formatKas } from "@/lib/format";
+
+export function SweepExcessCard() {
+  const { address } = useAccount();
+  const { state, report, refetch } = useTreasury();
+  const { sweepExcess, isPending, error, hash, receipt } = useSweepExcess();
+  const [recipient, setRecipient] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+
+  // Default to the connected owner once, without refilling a field the admin cleared.
+  useEffect(() => {
+    if (address) setRecipient((current) => current || address);
+  }, [address]);
+
+  useEffect(() => {
+    if (receipt.isSuccess) void refetch();
+  }, [receipt.isSuccess, refetch]);
+
+  const { amount, amountError } = useMemo((): { amount?: bigint; amountError?: string } => {
+    if (!amountInput.trim()) return {};
+    try {
+      return { amount: parseKas(amountInput) };
+    } catch (error) {
+      return { amountError: (error as Error).message };
+    }
+  }, [amountInput]);
+  const max = report?.excess ?? 0n;
+  const recipientValid = isAddress(recipient);
+
+  const problem = useMemo(() => {
+    if (!report) return undefined;
+    if (max === 0n) return "Nothing to sweep: the balance does not exceed liabilities.";
+    if (recipient && !recipientValid) return "Recipient is not a valid address.";
+    if (amountError) return amountError;
+    if (amount !== undefined && amount > max) {
+      return `Exceeds the sweepable excess by ${formatKas(amount - max, 6)} KAS.`;
+    }
+    return undefined;
+  }, [amount, amountError, max, recipient, recipientValid, report]);
+
+  const canSweep = !!report && !problem && recipientValid && amount !== undefined && !isPending;
+  const swept = amount !== undefined && amount <= max ? amount : 0n;
+
+  const handleSweep = async () => {
+    if (!canSweep || amount === undefined) return;
+    try {
+      await sweepExcess(recipient as `0x${string}`, amount);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <div>
+        <h2 className="text-lg font-semibold">Sweep Excess</h2>
+        <p className="text-sm text-slate-400">
+          Recover KAS sent to the contract outside the raffle. Only the balance above liabilities can leave.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-[2fr_1fr]">
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-xs uppercase tracking-wide text-slate-500">Recipient</span>
+          <input
+            type="text"
+            value={recipient}
+            onChange={(event) => setRecipient(event.target.value.trim())}
+            className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 font-mono text-xs text-slate-100 focus:border-orange-400 focus:outline-none"
+            placeholder="0x..."
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-xs uppercase tracking-wide text-slate-500">Amount (KAS)</span>
+          <div className="flex gap-2">
+            <input
+              inputMode="decimal"
+              value={amountInput}
+              onChange={(event) => setAmountInput(event.target.value)}
+              className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-orange-400 focus:outline-none"
+              placeholder="0.0"
+            />
+            <button
+              type="button"
+              onClick={() => setAmountInput(formatEther(max))}
+              disabled={max === 0n}
+              className="rounded-md border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:border-orange-400 hover:text-orange-300 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Max
+            </button>
+          </div>
+        </label>
+      </div>
+
+      {state && report && (
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="py-1" />
+              <th className="py-1 text-right">Before</th>
+              <th className="py-1 text-right">After</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-100">
+            <BreakdownRow label="Contract balance" before={state.balance} after={state.balance - swept} />
+            <BreakdownRow label="Fees accrued" before={state.feesAccrued} after={state.feesAccrued} />
+            <BreakdownRow label="Rollover bank" before={state.rolloverBank} after={state.rolloverBank} />
+            <BreakdownRow
+              label="Unclaimed prizes"
+              before={state.unclaimedPrizesTotal}
+              after={state.unclaimedPrizesTotal}
+            />
+            <BreakdownRow label="Total liabilities" before={report.liabilities} after={report.liabilities} />
+            <BreakdownRow label="Sweepable excess" before={max} after={max - swept} />
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <button
+          onClick={handleSweep}
+          disabled={!canSweep}
+          className="self-start rounded-md bg-orange-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-orange-400 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isPending ? "Sweeping…" : "Sweep"}
+        </button>
+        {problem && <p className="text-xs text-amber-300">{problem}</p>}
+        {error && <p className="text-xs text-red-400">{error.message}</p>}
+        {hash && receipt.isLoading && <p className="text-xs text-slate-400">Waiting for confirmation…</p>}
+        {receipt.isSuccess && <p className="text-xs text-green-400">Sweep confirmed.</p>}
+      </div>
+    </section>
+  );
+}
+
+function BreakdownRow({ label, before, after }: { label: string; before: bigint; after: bigint }) {
+  return (
+    <tr className="border-t border-slate-800">
+      <td className="py-1 text-slate-400">{label}</td>
+      <td className="py-1 text-right">{formatKas(before, 6)} KAS</td>
+      <td className={`py-1 text-right ${after !== before ? "text-orange-300" : ""}`}>{formatKas(after, 6)} KAS</td>
+    </tr>
+  );
+}
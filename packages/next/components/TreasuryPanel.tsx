@@ -0,0 +1,111 @@
+"use client";
+
+import { useMemo } from "react";
+import { formatEther } from "viem";
+
+import { LineChart } from "@/components/LineChart";
+import { useRaffleHistory } from "@/hooks/useRaffleHistory";
+import { useTreasury } from "@/hooks/useTreasury";
+import { RoundStatus, formatKas } from "@/lib/format";
+import { type TreasuryPoint, treasurySeries } from "@/lib/treasury";
+
+const SERIES: { key: keyof TreasuryPoint; label: string; color: string }[] = [
+  { key: "cumulativeFees", label: "Fees accrued (cumulative)", color: "#fb923c" },
+  { key: "cumulativeTips", label: "Keeper tips paid (cumulative)", color: "#38bdf8" },
+  { key: "rollover", label: "Rollover carried", color: "#4ade80" }
+];
+
+export function TreasuryPanel() {
+  const { state, report, isLoading, error } = useTreasury();
+  const { logs, isLoading: isLoadingHistory, error: historyError } = useRaffleHistory();
+  const series = useMemo(() => treasurySeries(logs ?? []), [logs]);
+
+  const countsTicketPot = !!state && state.currentRoundId !== 0n && state.currentRoundStatus !== RoundStatus.Closed;
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+      <div>
+        <h2 className="text-xl font-semibold">Treasury &amp; Solvency</h2>
+        <p className="text-sm text-slate-400">
+          Liabilities recomputed from contract state exactly as <code>_totalLiabilities</code> does. Anything above them
+          is sweepable excess.
+        </p>
+      </div>
+
+      {isLoading && <p className="text-sm text-slate-400">Reading treasury state…</p>}
+      {error && <p className="text-sm text-red-400">Could not read treasury state: {error.message}</p>}
+
+      {state && report && (
+        <>
+          {!report.isSolvent && (
+            <div className="rounded-md border border-red-500/60 bg-red-500/10 px-4 py-3 text-sm text-red-300">
+              Solvency shortfall: the contract holds {formatKas(report.shortfall, 4)} KAS less than it owes. Claims,
+              refunds or fee withdrawals will start failing once the balance runs out.
+            </div>
+          )}
+          <dl className="grid grid-cols-1 gap-4 text-sm sm:grid-cols-3">
+            <Stat label="Contract Balance" value={`${formatKas(state.balance, 4)} KAS`} />
+            <Stat label="Total Liabilities" value={`${formatKas(report.liabilities, 4)} KAS`} />
+            <Stat
+              label={report.isSolvent ? "Sweepable Excess" : "Shortfall"}
+              value={`${formatKas(report.isSolvent ? report.excess : report.shortfall, 4)} KAS`}
+              tone={report.isSolvent ? undefined : "text-red-400"}
+            />
+            <Stat label="Fees Accrued" value={`${formatKas(state.feesAccrued, 4)} KAS`} />
+            <Stat label="Rollover Bank" value={`${formatKas(state.rolloverBank, 4)} KAS`} />
+            <Stat label="Unclaimed Prizes" value={`${formatKas(state.unclaimedPrizesTotal, 4)} KAS`} />
+            <Stat
+              label={`Round #${state.currentRoundId} Ticket Pot`}
+              value={`${formatKas(state.currentTicketPot, 4)} KAS${countsTicketPot ? "" : " (not counted)"}`}
+            />
+          </dl>
+          <p className="text-xs text-slate-500">As of block {state.blockNumber.toString()}.</p>
+        </>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-200">Over time</h3>
+        {isLoadingHistory && <p className="text-sm text-slate-400">Scanning contract events…</p>}
+        {historyError && <p className="text-sm text-red-400">Could not load event history: {historyError.message}</p>}
+        {!isLoadingHistory && !historyError && series.length === 0 && (
+          <p className="text-sm text-slate-400">No rounds have been drawn yet.</p>
+        )}
+        {series.length > 0 && <TreasuryChart points={series} />}
+      </div>
+    </section>
+  );
+}
+
+function TreasuryChart({ points }: { points: TreasuryPoint[] }) {
+  const toKas = (value: bigint) => Number(formatEther(value));
+  const series = SERIES.map(({ key, label, color }) => ({
+    label,
+    color,
+    values: points.map((point) => toKas(point[key] as bigint))
+  }));
+  const max = Math.max(...series.flatMap((line) => line.values), Number.EPSILON);
+
+  const first = points[0].roundId;
+  const last = points[points.length - 1].roundId;
+
+  return (
+    <div className="space-y-2">
+      <LineChart
+        series={series}
+        caption={`Rounds #${first.toString()}–#${last.toString()} · peak ${max.toFixed(2)} KAS`}
+      />
+      <p className="text-xs text-slate-500">
+        Withdrawn to the fee vault so far: {formatKas(points[points.length - 1].cumulativeWithdrawn, 4)} KAS.
+      </p>
+    </div>
+  );
+}
+
+function Stat({ label, value, tone }: { label: string; value: string; tone?: string }) {
+  return (
+    <div>
+      <dt className="text-xs uppercase tracking-wide text-slate-500">{label}</dt>
+      <dd className={`text-sm font-semibold ${tone ?? "text-slate-100"}`}>{value}</dd>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { ThemeProvider } from "next-themes";
 import { PropsWithChildren, useMemo, useState } from "react";
 import { WagmiProvider } from "wagmi";
 
+import { LiveModeContext, useRaffleEventSync } from "@/hooks/useRaffleEventSync";
 import { wagmiConfig } from "@/lib/wagmiConfig";
 
 export function Providers({ children }: PropsWithChildren) {
@@ -26,10 +27,15 @@ export function Providers({ children }: PropsWithChildren) {
       <QueryClientProvider client={queryClient}>
         <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
           <RainbowKitProvider theme={rainbowThemes.light} modalSize="compact">
-            {children}
+            <RaffleEvents>{children}</RaffleEvents>
           </RainbowKitProvider>
         </ThemeProvider>
       </QueryClientProvider>
     </WagmiProvider>
   );
 }
+
+function RaffleEvents({ children }: PropsWithChildren) {
+  const mode = useRaffleEventSync();
+  return <LiveModeContext.Provider value={mode}>{children}</LiveModeContext.Provider>;
+}
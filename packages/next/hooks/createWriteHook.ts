@@ -0,0 +1,105 @@
+"use client";
+
+import {
+  type ErrorExplanations,
+  type KasRaffleCall,
+  type KasRaffleClient,
+  type KasRaffleWriteFunction,
+  PreflightError,
+  describeContractError
+} from "@kasraffle/sdk";
+import { useCallback, useState } from "react";
+import { useAccount, useWaitForTransactionReceipt } from "wagmi";
+
+import { useKasRaffleClient } from "@/hooks/useKasRaffleClient";
+import { useSafeBatch } from "@/hooks/useSafeBatch";
+import { describeCall } from "@/lib/safe";
+
+export type WriteFunctionName = KasRaffleWriteFunction;
+
+export type WriteRequest<F extends WriteFunctionName> = Omit<KasRaffleCall<F>, "functionName">;
+
+export type PreflightContext = {
+  client: KasRaffleClient;
+  account: `0x${string}`;
+};
+
+export type WriteHookOptions<F extends WriteFunctionName> = {
+  /** Returns a user-facing reason to refuse the call before it is simulated, or nothing to proceed. */
+  preflight?: (context: PreflightContext, request: WriteRequest<F>) => Promise<string | undefined>;
+  /** Per-call wording for errors whose meaning depends on the function, e.g. `ErrInvalidParams`. */
+  errors?: ErrorExplanations;
+};
+
+/**
+ * Builds a write hook that checks, simulates, then sends one KASRaffle function through
+ * the SDK client. `error` carries a decoded, user-facing message rather than the raw RPC
+ * error. Under a `SafeBatchContext` the call is simulated as the Safe and queued instead
+ * of sent, and `write` resolves to `undefined` rather than a transaction hash.
+ */
+export function createWriteHook<F extends WriteFunctionName>(functionName: F, options: WriteHookOptions<F> = {}) {
+  return function useContractWrite() {
+    const client = useKasRaffleClient();
+    const { address: wallet } = useAccount();
+    const batch = useSafeBatch();
+    const [hash, setHash] = useState<`0x${string}` | undefined>();
+    const [error, setError] = useState<Error | null>(null);
+    const [isPending, setIsPending] = useState(false);
+
+    const write = useCallback(
+      async (request: WriteRequest<F> = {}): Promise<`0x${string}` | undefined> => {
+        setError(null);
+        setIsPending(true);
+        try {
+          if (!client) throw new PreflightError("KASRaffle address unavailable");
+          const account = batch?.safeAddress ?? wallet;
+          if (!account) throw new PreflightError("Connect a wallet first.");
+
+          const problem = await options.preflight?.({ client, account }, request);
+          if (problem) throw new PreflightError(problem);
+
+          const call = { functionName, ...request } as KasRaffleCall;
+
+          if (batch) {
+            await client.simulate(call, account);
+            batch.add({
+              to: client.address,
+              value: request.value ?? 0n,
+              data: client.encode(call),
+              summary: describeCall(functionName, (request.args ?? []) as readonly unknown[], request.value)
+            });
+            return undefined;
+          }
+
+          if (!client.walletClient) throw new PreflightError("Connect a wallet first.");
+          const sent = await client.write(call);
+          setHash(sent);
+          return sent;
+        } catch (cause) {
+          const decoded = new Error(describeContractError(cause, options.errors), { cause });
+          setError(decoded);
+          throw decoded;
+        } finally {
+          setIsPending(false);
+        }
+      },
+      [batch, client, wallet]
+    );
+
+    const reset = useCallback(() => {
+      setError(null);
+      setHash(undefined);
+    }, []);
+
+    const receipt = useWaitForTransactionReceipt({ hash });
+
+    return {
+      write,
+      reset,
+      hash,
+      error,
+      isPending,
+      receipt
+    };
+  };
+}
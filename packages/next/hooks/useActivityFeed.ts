@@ -0,0 +1,42 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+
+import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { activityQueryKey, mergeActivity, toActivityItem } from "@/lib/activity";
+
+/** How far back the feed is seeded on first load; live events are prepended by `useRaffleEventSync`. */
+const LOOKBACK_BLOCKS = 5_000n;
+
+export function useActivityFeed() {
+  const contract = useKasRaffleContract();
+  const publicClient = usePublicClient();
+  const enabled = Boolean(contract.address) && Boolean(publicClient);
+
+  const query = useQuery({
+    queryKey: activityQueryKey(contract.chainId, contract.address),
+    enabled,
+    staleTime: Infinity,
+    queryFn: async () => {
+      if (!publicClient || !contract.address) return [];
+      const latest = await publicClient.getBlockNumber();
+      const fromBlock = latest > LOOKBACK_BLOCKS ? latest - LOOKBACK_BLOCKS : 0n;
+      const logs = await publicClient.getContractEvents({
+        address: contract.address,
+        abi: contract.abi,
+        fromBlock: fromBlock > contract.deployBlock ? fromBlock : contract.deployBlock,
+        toBlock: latest
+      });
+      return mergeActivity(
+        [],
+        logs.flatMap((log) => toActivityItem(log) ?? [])
+      );
+    }
+  });
+
+  return {
+    ...query,
+    items: query.data
+  };
+}
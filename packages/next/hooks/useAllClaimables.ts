@@ -0,0 +1,57 @@
+"use client";
+
+import { useMemo } from "react";
+import { useAccount } from "wagmi";
+
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
+import { useRaffleHistory } from "@/hooks/useRaffleHistory";
+
+export type ClaimableRound = {
+  roundId: bigint;
+  amount: bigint;
+  tiers: number[];
+};
+
+/**
+ * Kasplex has no multicall3, so reading every past round would cost two `eth_call`s per round.
+ * The event history already says where the account won and whether it claimed, so only those
+ * rounds are checked on-chain. New wins show up when the history refreshes (at most a minute).
+ */
+export function useAllClaimables(account?: `0x${string}`) {
+  const { address: connectedAddress } = useAccount();
+  const target = account ?? connectedAddress;
+  const { players, isLoading: isLoadingHistory } = useRaffleHistory();
+
+  // Won and not yet claimed, by the logs; `claim` pays every tier of a round at once.
+  const candidates = useMemo(() => {
+    const player = target ? players.get(target.toLowerCase()) : undefined;
+    if (!player) return [];
+    return player.rounds.filter((round) => round.tiers.length > 0 && round.claimed === 0n);
+  }, [players, target]);
+
+  const query = useKasRaffleQuery(
+    ["allClaimables", target?.toLowerCase(), candidates.map((round) => round.roundId.toString()).join(",")],
+    async (client): Promise<ClaimableRound[]> => {
+      if (!target) return [];
+      const amounts = await client.claimableForRounds(
+        candidates.map((round) => round.roundId),
+        target
+      );
+      // History rounds are newest first already.
+      return candidates.flatMap((round, index) =>
+        amounts[index] > 0n ? [{ roundId: round.roundId, amount: amounts[index], tiers: round.tiers }] : []
+      );
+    },
+    { enabled: Boolean(target) && candidates.length > 0 }
+  );
+
+  const claimables = useMemo(() => (candidates.length > 0 ? (query.data ?? []) : []), [candidates.length, query.data]);
+  const total = useMemo(() => claimables.reduce((sum, row) => sum + row.amount, 0n), [claimables]);
+
+  return {
+    ...query,
+    isLoading: Boolean(target) && (isLoadingHistory || query.isLoading),
+    claimables,
+    total
+  };
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useCurrentRoundId } from "@/hooks/useCurrentRoundId";
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
+
+/**
+ * Loads a round's full participant list; the client reads the count, then fetches every
+ * page concurrently. Rounds before the current one can no longer change, so their list
+ * is cached for the session.
+ */
+export function useAllParticipants(roundId?: bigint) {
+  const { roundId: currentRoundId } = useCurrentRoundId();
+  const isSettled = roundId !== undefined && currentRoundId !== undefined && roundId < currentRoundId;
+
+  const query = useKasRaffleQuery(["allParticipants", roundId], (client) => client.getParticipants(roundId ?? 0n), {
+    enabled: roundId !== undefined,
+    staleTime: isSettled ? Infinity : undefined
+  });
+
+  return {
+    ...query,
+    count: query.data ? BigInt(query.data.length) : undefined,
+    participants: query.data
+  };
+}
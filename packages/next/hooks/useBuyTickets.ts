@@ -1,35 +1,57 @@
 "use client";
 
+import { PARTICIPANTS_PAGE_SIZE } from "@kasraffle/sdk";
 import { useCallback } from "react";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { type PreflightContext, createWriteHook } from "@/hooks/createWriteHook";
+import { RoundStatus, formatKas } from "@/lib/format";
+
+/** Mirrors the cap checks in `_buyTickets` so the buyer learns by how much they are over before signing. */
+async function checkCaps({ client, account }: PreflightContext, value: bigint) {
+  const [round, config, paused] = await Promise.all([client.getCurrentRound(), client.getConfig(), client.isPaused()]);
+  const { ticketPrice, maxTicketsPerRound, maxTicketsPerAddress, maxParticipants } = config;
+
+  if (paused) return "The raffle is paused by the owner. Try again once it resumes.";
+  if (round.status !== RoundStatus.Open) {
+    return `Round #${round.id} is no longer open. Tickets go on sale again when the next round opens.`;
+  }
+
+  const tickets = value / ticketPrice;
+  if (tickets === 0n) return `Send at least one ticket price (${formatKas(ticketPrice)} KAS).`;
+
+  const newTotal = round.totalTickets + tickets;
+  if (newTotal > maxTicketsPerRound) {
+    return `You would exceed maxTicketsPerRound by ${newTotal - maxTicketsPerRound}; ${maxTicketsPerRound - round.totalTickets} ticket(s) remain in this round.`;
+  }
+
+  // There is no per-address getter, so find the buyer's slot in the participant list.
+  let held: bigint | undefined;
+  for (let start = 0n; start < round.participants && held === undefined; start += PARTICIPANTS_PAGE_SIZE) {
+    const slice = await client.getParticipantsSlice(round.id, start, PARTICIPANTS_PAGE_SIZE);
+    held = slice.find((participant) => participant.account.toLowerCase() === account.toLowerCase())?.tickets;
+  }
+
+  if (held === undefined && round.participants >= maxParticipants) {
+    return `This round is full: it already has maxParticipants (${maxParticipants}) buyers.`;
+  }
+  const afterPurchase = (held ?? 0n) + tickets;
+  if (afterPurchase > maxTicketsPerAddress) {
+    return `You would exceed maxTicketsPerAddress by ${afterPurchase - maxTicketsPerAddress}; you hold ${held ?? 0n} of ${maxTicketsPerAddress}.`;
+  }
+  return undefined;
+}
+
+const useBuyTicketsWrite = createWriteHook("buyTickets", {
+  preflight: (context, { value }) => checkCaps(context, value ?? 0n)
+});
 
 export function useBuyTickets() {
-  const contract = useKasRaffleContract();
-  const { data: hash, error, isPending, writeContractAsync, reset } = useWriteContract();
-
-  const buy = useCallback(
-    async (value: bigint) => {
-      if (!contract.address) throw new Error("KASRaffle address unavailable");
-      return writeContractAsync({
-        address: contract.address,
-        abi: contract.abi,
-        functionName: "buyTickets",
-        value
-      });
-    },
-    [contract.address, contract.abi, writeContractAsync]
-  );
-
-  const receipt = useWaitForTransactionReceipt({ hash });
+  const { write, ...rest } = useBuyTicketsWrite();
+
+  const buy = useCallback((value: bigint) => write({ value }), [write]);
 
   return {
     buy,
-    reset,
-    hash,
-    error,
-    isPending,
-    receipt
+    ...rest
   };
 }
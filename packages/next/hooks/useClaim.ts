@@ -1,35 +1,18 @@
 "use client";
 
 import { useCallback } from "react";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { createWriteHook } from "@/hooks/createWriteHook";
 
-export function useClaim() {
-  const contract = useKasRaffleContract();
-  const { data: hash, error, isPending, writeContractAsync, reset } = useWriteContract();
+const useClaimWrite = createWriteHook("claim");
 
-  const claim = useCallback(
-    async (roundId: bigint) => {
-      if (!contract.address) throw new Error("KASRaffle address unavailable");
-      return writeContractAsync({
-        address: contract.address,
-        abi: contract.abi,
-        functionName: "claim",
-        args: [roundId]
-      });
-    },
-    [contract.address, contract.abi, writeContractAsync]
-  );
+export function useClaim() {
+  const { write, ...rest } = useClaimWrite();
 
-  const receipt = useWaitForTransactionReceipt({ hash });
+  const claim = useCallback((roundId: bigint) => write({ args: [roundId] }), [write]);
 
   return {
     claim,
-    reset,
-    hash,
-    error,
-    isPending,
-    receipt
+    ...rest
   };
 }
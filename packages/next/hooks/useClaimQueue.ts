@@ -0,0 +1,98 @@
+"use client";
+
+import { describeContractError } from "@kasraffle/sdk";
+import { useCallback, useRef, useState } from "react";
+
+import { useKasRaffleClient } from "@/hooks/useKasRaffleClient";
+
+export type ClaimStatus = "idle" | "queued" | "signing" | "confirming" | "confirmed" | "failed";
+
+export type ClaimState = {
+  status: ClaimStatus;
+  hash?: `0x${string}`;
+  error?: string;
+};
+
+export function useClaimQueue() {
+  const client = useKasRaffleClient();
+  const [states, setStates] = useState<Record<string, ClaimState>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelled = useRef(false);
+
+  const update = useCallback((roundId: bigint, state: ClaimState) => {
+    setStates((prev) => ({ ...prev, [roundId.toString()]: state }));
+  }, []);
+
+  const claimOne = useCallback(
+    async (roundId: bigint) => {
+      if (!client) throw new Error("KASRaffle address unavailable");
+
+      update(roundId, { status: "signing" });
+      try {
+        const hash = await client.claim(roundId);
+        update(roundId, { status: "confirming", hash });
+        const receipt = await client.publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== "success") {
+          update(roundId, { status: "failed", hash, error: "Transaction reverted" });
+          return false;
+        }
+        update(roundId, { status: "confirmed", hash });
+        return true;
+      } catch (error) {
+        update(roundId, { status: "failed", error: describeContractError(error) });
+        return false;
+      }
+    },
+    [client, update]
+  );
+
+  const claim = useCallback(
+    async (roundId: bigint) => {
+      setIsRunning(true);
+      try {
+        return await claimOne(roundId);
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [claimOne]
+  );
+
+  /** Claims each round in order, one wallet prompt at a time. A failed round does not stop the queue. */
+  const claimAll = useCallback(
+    async (roundIds: bigint[]) => {
+      cancelled.current = false;
+      setIsRunning(true);
+      roundIds.forEach((roundId) => update(roundId, { status: "queued" }));
+      try {
+        for (const roundId of roundIds) {
+          if (cancelled.current) {
+            update(roundId, { status: "idle" });
+            continue;
+          }
+          await claimOne(roundId);
+        }
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [claimOne, update]
+  );
+
+  const cancel = useCallback(() => {
+    cancelled.current = true;
+  }, []);
+
+  const stateFor = useCallback(
+    (roundId: bigint): ClaimState => states[roundId.toString()] ?? { status: "idle" },
+    [states]
+  );
+
+  return {
+    claim,
+    claimAll,
+    cancel,
+    stateFor,
+    isRunning
+  };
+}
@@ -1,32 +1,22 @@
 "use client";
 
-import { useMemo } from "react";
-import { useAccount, useReadContract } from "wagmi";
+import { zeroAddress } from "viem";
+import { useAccount } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
 
 export function useClaimable(roundId: bigint | undefined, account?: `0x${string}`) {
-  const contract = useKasRaffleContract();
   const { address: connectedAddress } = useAccount();
   const target = account ?? connectedAddress;
 
-  const enabled = useMemo(
-    () => Boolean(contract.address) && typeof roundId !== "undefined" && Boolean(target),
-    [contract.address, roundId, target]
+  const query = useKasRaffleQuery(
+    ["claimable", roundId, target?.toLowerCase()],
+    (client) => client.claimable(roundId ?? 0n, target ?? zeroAddress),
+    { enabled: roundId !== undefined && Boolean(target) }
   );
 
-  const query = useReadContract({
-    address: contract.address,
-    abi: contract.abi,
-    functionName: "claimable",
-    args: target && roundId !== undefined ? [roundId, target] : undefined,
-    query: { enabled }
-  });
-
-  const amount = query.data as unknown as bigint | undefined;
-
   return {
     ...query,
-    amount
+    amount: query.data
   };
 }
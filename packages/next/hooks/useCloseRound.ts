@@ -1,31 +1,18 @@
 "use client";
 
 import { useCallback } from "react";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { createWriteHook } from "@/hooks/createWriteHook";
 
-export function useCloseRound() {
-  const contract = useKasRaffleContract();
-  const { data: hash, error, isPending, writeContractAsync, reset } = useWriteContract();
+const useCloseRoundWrite = createWriteHook("closeRound");
 
-  const closeRound = useCallback(async () => {
-    if (!contract.address) throw new Error("KASRaffle address unavailable");
-    return writeContractAsync({
-      address: contract.address,
-      abi: contract.abi,
-      functionName: "closeRound"
-    });
-  }, [contract.address, contract.abi, writeContractAsync]);
+export function useCloseRound() {
+  const { write, ...rest } = useCloseRoundWrite();
 
-  const receipt = useWaitForTransactionReceipt({ hash });
+  const closeRound = useCallback(() => write(), [write]);
 
   return {
     closeRound,
-    reset,
-    hash,
-    error,
-    isPending,
-    receipt
+    ...rest
   };
 }
@@ -0,0 +1,13 @@
+"use client";
+
+import { formatFiat } from "@kasraffle/sdk";
+import { useMemo } from "react";
+
+import { useKasPrice } from "@/hooks/useKasPrice";
+
+/** "$12.34" for a wei amount, or undefined while the price is unknown or no feed is configured. */
+export function useFiatEquivalent(value?: bigint): string | undefined {
+  const { data: rate } = useKasPrice();
+
+  return useMemo(() => (rate && value !== undefined ? formatFiat(value, rate) : undefined), [rate, value]);
+}
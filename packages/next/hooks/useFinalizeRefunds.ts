@@ -1,35 +1,21 @@
 "use client";
 
 import { useCallback } from "react";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { createWriteHook } from "@/hooks/createWriteHook";
+
+const useFinalizeRefundsWrite = createWriteHook("finalizeRefunds");
 
 export function useFinalizeRefunds() {
-  const contract = useKasRaffleContract();
-  const { data: hash, error, isPending, writeContractAsync, reset } = useWriteContract();
+  const { write, ...rest } = useFinalizeRefundsWrite();
 
   const finalizeRefunds = useCallback(
-    async (roundId: bigint, maxSteps: bigint) => {
-      if (!contract.address) throw new Error("KASRaffle address unavailable");
-      return writeContractAsync({
-        address: contract.address,
-        abi: contract.abi,
-        functionName: "finalizeRefunds",
-        args: [roundId, maxSteps]
-      });
-    },
-    [contract.address, contract.abi, writeContractAsync]
+    (roundId: bigint, maxSteps: bigint) => write({ args: [roundId, maxSteps] }),
+    [write]
   );
 
-  const receipt = useWaitForTransactionReceipt({ hash });
-
   return {
     finalizeRefunds,
-    reset,
-    hash,
-    error,
-    isPending,
-    receipt
+    ...rest
   };
 }
@@ -1,35 +1,18 @@
 "use client";
 
 import { useCallback } from "react";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { createWriteHook } from "@/hooks/createWriteHook";
 
-export function useFinalizeRound() {
-  const contract = useKasRaffleContract();
-  const { data: hash, error, isPending, writeContractAsync, reset } = useWriteContract();
+const useFinalizeRoundWrite = createWriteHook("finalizeRound");
 
-  const finalizeRound = useCallback(
-    async (maxSteps: bigint) => {
-      if (!contract.address) throw new Error("KASRaffle address unavailable");
-      return writeContractAsync({
-        address: contract.address,
-        abi: contract.abi,
-        functionName: "finalizeRound",
-        args: [maxSteps]
-      });
-    },
-    [contract.address, contract.abi, writeContractAsync]
-  );
+export function useFinalizeRound() {
+  const { write, ...rest } = useFinalizeRoundWrite();
 
-  const receipt = useWaitForTransactionReceipt({ hash });
+  const finalizeRound = useCallback((maxSteps: bigint) => write({ args: [maxSteps] }), [write]);
 
   return {
     finalizeRound,
-    reset,
-    hash,
-    error,
-    isPending,
-    receipt
+    ...rest
   };
 }
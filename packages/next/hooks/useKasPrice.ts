@@ -0,0 +1,22 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import { env } from "@/lib/env";
+import { fetchKasPrice } from "@/lib/fiat";
+
+/** Public price APIs rate-limit hard; a five-minute-old price is plenty for an "≈" figure. */
+const PRICE_STALE_MS = 5 * 60_000;
+
+export function useKasPrice() {
+  const { priceUrl, currency } = env.fiat;
+
+  return useQuery({
+    queryKey: ["kasPrice", priceUrl, currency],
+    enabled: Boolean(priceUrl),
+    staleTime: PRICE_STALE_MS,
+    refetchInterval: PRICE_STALE_MS,
+    retry: false,
+    queryFn: () => fetchKasPrice(priceUrl, currency)
+  });
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { KasRaffleClient } from "@kasraffle/sdk";
+import { skipToken, useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { usePublicClient, useWalletClient } from "wagmi";
+
+import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+
+/** The SDK client for the connected chain's deployment; it can write once a wallet is connected. */
+export function useKasRaffleClient(): KasRaffleClient | undefined {
+  const { address } = useKasRaffleContract();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  return useMemo(
+    () => (address && publicClient ? new KasRaffleClient({ address, publicClient, walletClient }) : undefined),
+    [address, publicClient, walletClient]
+  );
+}
+
+type KasRaffleQueryOptions = {
+  enabled?: boolean;
+  staleTime?: number;
+};
+
+/**
+ * `useQuery` over a client read. The key carries the chain and contract address so
+ * `useRaffleEventSync` invalidates it with wagmi's own reads; bigints are stringified
+ * because the default key hasher is `JSON.stringify`.
+ */
+export function useKasRaffleQuery<T>(
+  key: readonly [string, ...unknown[]],
+  read: (client: KasRaffleClient) => Promise<T>,
+  { enabled = true, staleTime }: KasRaffleQueryOptions = {}
+) {
+  const contract = useKasRaffleContract();
+  const client = useKasRaffleClient();
+  const [name, ...parts] = key;
+
+  return useQuery({
+    queryKey: [
+      name,
+      contract.chainId,
+      contract.address?.toLowerCase(),
+      ...parts.map((part) => (typeof part === "bigint" ? part.toString() : part))
+    ],
+    queryFn: client && enabled ? () => read(client) : skipToken,
+    staleTime
+  });
+}
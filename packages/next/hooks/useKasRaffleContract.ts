@@ -1,21 +1,23 @@
 "use client";
 
+import { kasRaffleAbi } from "@kasraffle/sdk";
 import { useMemo } from "react";
 import { useChainId } from "wagmi";
 
-import { getKasRaffleAddress } from "@/lib/addresses";
-import { kasRaffleAbi } from "@/lib/abi/kasRaffle";
+import { getKasRaffleAddress, getKasRaffleDeployBlock } from "@/lib/addresses";
 
 export function useKasRaffleContract() {
   const chainId = useChainId();
   const address = useMemo(() => getKasRaffleAddress(chainId), [chainId]);
+  const deployBlock = useMemo(() => getKasRaffleDeployBlock(chainId), [chainId]);
 
   return useMemo(
     () => ({
       chainId,
       address,
+      deployBlock,
       abi: kasRaffleAbi
     }),
-    [address, chainId]
+    [address, chainId, deployBlock]
   );
 }
@@ -0,0 +1,45 @@
+"use client";
+
+import { useMemo } from "react";
+import { useAccount } from "wagmi";
+
+import { useAllParticipants } from "@/hooks/useAllParticipants";
+
+export type MyEntry = {
+  participantIndex: number;
+  tickets: bigint;
+  /** First and last ticket number owned, 1-based, as walked by `finalizeRound`. */
+  rangeStart: bigint;
+  rangeEnd: bigint;
+};
+
+export function useMyEntry(roundId?: bigint, account?: `0x${string}`) {
+  const { address: connectedAddress } = useAccount();
+  const target = account ?? connectedAddress;
+  const { participants, ...query } = useAllParticipants(roundId);
+
+  // Repeat purchases top up the buyer's existing slot, so each account owns one contiguous range.
+  const entry = useMemo(() => {
+    if (!participants || !target) return undefined;
+    const lowerTarget = target.toLowerCase();
+    let cumulative = 0n;
+    for (const [participantIndex, participant] of participants.entries()) {
+      if (participant.account.toLowerCase() === lowerTarget) {
+        return {
+          participantIndex,
+          tickets: participant.tickets,
+          rangeStart: cumulative + 1n,
+          rangeEnd: cumulative + participant.tickets
+        } satisfies MyEntry;
+      }
+      cumulative += participant.tickets;
+    }
+    return null;
+  }, [participants, target]);
+
+  return {
+    ...query,
+    participants,
+    entry
+  };
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useBytecode, useReadContract } from "wagmi";
+
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
+import { safeOwnersAbi } from "@/lib/safe";
+
+/**
+ * `owner()` plus whether it has code, i.e. is a Safe or another contract rather than an EOA.
+ * For a contract owner, `safeOwners` is its Safe `getOwners()`; it stays undefined if the contract is not a Safe.
+ */
+export function useOwner() {
+  const query = useKasRaffleQuery(["owner"], (client) => client.getOwner());
+  const owner = query.data;
+
+  const bytecode = useBytecode({ address: owner, query: { enabled: Boolean(owner) } });
+  const isContractOwner = owner ? Boolean(bytecode.data && bytecode.data !== "0x") : undefined;
+
+  const safeOwners = useReadContract({
+    address: owner,
+    abi: safeOwnersAbi,
+    functionName: "getOwners",
+    query: { enabled: Boolean(isContractOwner), retry: false }
+  });
+
+  return {
+    ...query,
+    isLoading: query.isLoading || bytecode.isLoading || safeOwners.isLoading,
+    owner,
+    isContractOwner,
+    safeOwners: safeOwners.data
+  };
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback } from "react";
+
+import { createWriteHook } from "@/hooks/createWriteHook";
+
+const useTransferOwnershipWrite = createWriteHook("transferOwnership");
+const useRenounceOwnershipWrite = createWriteHook("renounceOwnership");
+
+export function useTransferOwnership() {
+  const { write, ...rest } = useTransferOwnershipWrite();
+
+  const transferOwnership = useCallback((newOwner: `0x${string}`) => write({ args: [newOwner] }), [write]);
+
+  return {
+    transferOwnership,
+    ...rest
+  };
+}
+
+export function useRenounceOwnership() {
+  const { write, ...rest } = useRenounceOwnershipWrite();
+
+  const renounceOwnership = useCallback(() => write(), [write]);
+
+  return {
+    renounceOwnership,
+    ...rest
+  };
+}
@@ -1,29 +1,16 @@
 "use client";
 
-import { useMemo } from "react";
-import { useReadContract } from "wagmi";
-
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
 
 export function useParticipantsCount(roundId?: bigint) {
-  const contract = useKasRaffleContract();
-  const enabled = useMemo(
-    () => Boolean(contract.address) && typeof roundId !== "undefined",
-    [contract.address, roundId]
+  const query = useKasRaffleQuery(
+    ["participantsCount", roundId],
+    (client) => client.getParticipantsCount(roundId ?? 0n),
+    { enabled: roundId !== undefined }
   );
 
-  const query = useReadContract({
-    address: contract.address,
-    abi: contract.abi,
-    functionName: "getParticipantsCount",
-    args: roundId !== undefined ? [roundId] : undefined,
-    query: { enabled }
-  });
-
-  const count = query.data as unknown as bigint | undefined;
-
   return {
     ...query,
-    count
+    count: query.data
   };
 }
@@ -1,34 +1,20 @@
 "use client";
 
-import { useMemo } from "react";
-import { useReadContract } from "wagmi";
+import type { Participant } from "@kasraffle/sdk";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
 
-export type Participant = {
-  account: `0x${string}`;
-  tickets: bigint;
-};
+export type { Participant };
 
 export function useParticipantsSlice(roundId: bigint | undefined, start: bigint, limit: bigint) {
-  const contract = useKasRaffleContract();
-  const enabled = useMemo(
-    () => Boolean(contract.address) && typeof roundId !== "undefined" && limit > 0n,
-    [contract.address, roundId, limit]
+  const query = useKasRaffleQuery(
+    ["participantsSlice", roundId, start, limit],
+    (client) => client.getParticipantsSlice(roundId ?? 0n, start, limit),
+    { enabled: roundId !== undefined && limit > 0n }
   );
 
-  const query = useReadContract({
-    address: contract.address,
-    abi: contract.abi,
-    functionName: "getParticipantsSlice",
-    args: roundId !== undefined ? [roundId, start, limit] : undefined,
-    query: { enabled }
-  });
-
-  const participants = query.data as unknown as Participant[] | undefined;
-
   return {
     ...query,
-    participants
+    participants: query.data
   };
 }
@@ -1,33 +1,20 @@
 "use client";
 
 import { useCallback } from "react";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { createWriteHook } from "@/hooks/createWriteHook";
 
 function createPauseHook(functionName: "pause" | "unpause") {
-  return function usePauseAction() {
-    const contract = useKasRaffleContract();
-    const { data: hash, error, isPending, writeContractAsync, reset } = useWriteContract();
+  const useWrite = createWriteHook(functionName);
 
-    const action = useCallback(async () => {
-      if (!contract.address) throw new Error("KASRaffle address unavailable");
-      return writeContractAsync({
-        address: contract.address,
-        abi: contract.abi,
-        functionName
-      });
-    }, [contract.address, contract.abi, writeContractAsync]);
+  return function usePauseAction() {
+    const { write, ...rest } = useWrite();
 
-    const receipt = useWaitForTransactionReceipt({ hash });
+    const action = useCallback(() => write(), [write]);
 
     return {
       action,
-      reset,
-      hash,
-      error,
-      isPending,
-      receipt
+      ...rest
     };
   };
 }
@@ -0,0 +1,12 @@
+"use client";
+
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
+
+export function usePaused() {
+  const query = useKasRaffleQuery(["paused"], (client) => client.isPaused());
+
+  return {
+    ...query,
+    paused: query.data
+  };
+}
@@ -1,50 +1,18 @@
 "use client";
 
-import { useMemo } from "react";
-import { useReadContracts } from "wagmi";
+import type { RaffleConfig } from "@kasraffle/sdk";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
 
-const FUNCTIONS = [
-  "ticketPrice",
-  "roundDuration",
-  "minTicketsToDraw",
-  "maxParticipants",
-  "maxTicketsPerAddress",
-  "maxTicketsPerRound",
-  "winnersBps",
-  "feeBps",
-  "rolloverBps",
-  "keeperTipWei",
-  "keeperTipMaxWei"
-] as const;
-
-type ConfigKeys = (typeof FUNCTIONS)[number];
+const EMPTY: Partial<RaffleConfig> = {};
 
 export function useRaffleConfig() {
-  const contract = useKasRaffleContract();
-  const enabled = useMemo(() => Boolean(contract.address), [contract.address]);
-
-  const result = useReadContracts({
-    contracts: FUNCTIONS.map((functionName) => ({
-      address: contract.address,
-      abi: contract.abi,
-      functionName
-    })),
-    allowFailure: true,
-    query: { enabled }
-  });
-
-  const values: Partial<Record<ConfigKeys, bigint>> = {};
-  if (result.data) {
-    result.data.forEach((entry, index) => {
-      if (!entry.result) return;
-      values[FUNCTIONS[index]] = entry.result as unknown as bigint;
-    });
-  }
+  const query = useKasRaffleQuery(["raffleConfig"], (client) => client.getConfig());
 
   return {
-    ...result,
-    values
+    ...query,
+    /** `setParams`-shaped, so it can be diffed against a proposal or passed straight back. */
+    config: query.data,
+    values: query.data ?? EMPTY
   };
 }
@@ -0,0 +1,111 @@
+"use client";
+
+import { type Query, useQueryClient } from "@tanstack/react-query";
+import { createContext, useContext, useEffect, useState } from "react";
+import { usePublicClient } from "wagmi";
+
+import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { HISTORY_QUERY_KEY } from "@/hooks/useRaffleHistory";
+import { type ActivityItem, activityQueryKey, mergeActivity, toActivityItem } from "@/lib/activity";
+
+export type LiveMode = "off" | "live" | "polling";
+
+/** Consecutive watcher errors tolerated before giving up on logs and polling reads instead. */
+const MAX_WATCH_ERRORS = 3;
+
+/**
+ * Reads of a single round, keyed by round id after the chain and address. A round before the current one is
+ * Closed, so these only change when an event names that round; everything else stays cached.
+ */
+const ROUND_QUERIES = new Set<unknown>([
+  "allParticipants",
+  "participantsCount",
+  "participantsSlice",
+  "roundSummary",
+  "ticketPurchases",
+  "winners",
+  "winningTicketIndices"
+]);
+
+export const LiveModeContext = createContext<LiveMode>("off");
+
+export function useLiveMode() {
+  return useContext(LiveModeContext);
+}
+
+/**
+ * Watches every KASRaffle event and invalidates the cached contract reads so other
+ * people's purchases and lifecycle transitions show up without a manual refresh.
+ * Reads of settled rounds are left alone unless an event names them (a claim, say).
+ * Activity-feed events are also patched straight into the feed's cache entry.
+ *
+ * viem already falls back from `eth_newFilter` to `eth_getLogs` on RPCs without
+ * filter support; if log polling fails as well, reads are refetched on an interval.
+ */
+export function useRaffleEventSync(): LiveMode {
+  const contract = useKasRaffleContract();
+  const publicClient = usePublicClient();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<LiveMode>("off");
+
+  useEffect(() => {
+    const address = contract.address;
+    if (!publicClient || !address) {
+      setMode("off");
+      return;
+    }
+
+    const lowerAddress = address.toLowerCase();
+    const feedKey = activityQueryKey(contract.chainId, address);
+
+    // wagmi's read hooks, and our own log queries, all carry the contract address in their key.
+    // The feed is patched below; the full history scan and the all-rounds summaries refresh on their own schedule.
+    const skipped = new Set<unknown>([feedKey[0], HISTORY_QUERY_KEY, "roundSummaries"]);
+    const isLiveQuery = (query: Query, touchedRounds: ReadonlySet<string>) => {
+      const [name, , , roundId] = query.queryKey;
+      if (skipped.has(name) || !query.queryHash.toLowerCase().includes(lowerAddress)) return false;
+      if (!ROUND_QUERIES.has(name) || typeof roundId !== "string") return true;
+      const currentRoundId = queryClient.getQueryData<bigint>(["currentRoundId", contract.chainId, lowerAddress]);
+      return currentRoundId === undefined || BigInt(roundId) >= currentRoundId || touchedRounds.has(roundId);
+    };
+    const invalidate = (touchedRounds: ReadonlySet<string> = new Set()) =>
+      queryClient.invalidateQueries({ predicate: (query) => isLiveQuery(query, touchedRounds) });
+
+    let errors = 0;
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const unwatch = publicClient.watchContractEvent({
+      address,
+      abi: contract.abi,
+      onLogs: (logs) => {
+        errors = 0;
+        const items = logs.flatMap((log) => toActivityItem(log) ?? []);
+        if (items.length > 0 && queryClient.getQueryData(feedKey)) {
+          queryClient.setQueryData<ActivityItem[]>(feedKey, (current) => mergeActivity(current ?? [], items));
+        }
+        const touchedRounds = new Set(
+          logs.flatMap((log) =>
+            "roundId" in log.args && log.args.roundId !== undefined ? [log.args.roundId.toString()] : []
+          )
+        );
+        void invalidate(touchedRounds);
+      },
+      onError: (error) => {
+        errors++;
+        if (errors < MAX_WATCH_ERRORS || timer) return;
+        console.warn("[events] Watching contract events failed; falling back to polling", error);
+        unwatch();
+        setMode("polling");
+        timer = setInterval(() => void invalidate(), publicClient.pollingInterval);
+      }
+    });
+    setMode("live");
+
+    return () => {
+      unwatch();
+      if (timer) clearInterval(timer);
+    };
+  }, [contract.abi, contract.address, contract.chainId, publicClient, queryClient]);
+
+  return mode;
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { usePublicClient } from "wagmi";
+
+import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { aggregatePlayers } from "@/lib/history";
+import { getRaffleEvents } from "@/lib/logs";
+
+export const HISTORY_QUERY_KEY = "raffleHistory";
+
+/** A full log scan is too heavy to repeat on every event, so the result is only refreshed once a minute. */
+const HISTORY_STALE_MS = 60_000;
+
+export function useRaffleHistory() {
+  const contract = useKasRaffleContract();
+  const publicClient = usePublicClient();
+  const enabled = Boolean(contract.address) && Boolean(publicClient);
+
+  const query = useQuery({
+    queryKey: [HISTORY_QUERY_KEY, contract.chainId, contract.address?.toLowerCase()],
+    enabled,
+    staleTime: HISTORY_STALE_MS,
+    queryFn: async () => {
+      if (!publicClient || !contract.address) return [];
+      const latest = await publicClient.getBlockNumber();
+      return getRaffleEvents(publicClient, contract.address, contract.deployBlock, latest);
+    }
+  });
+
+  const players = useMemo(() => aggregatePlayers(query.data ?? []), [query.data]);
+
+  return {
+    ...query,
+    logs: query.data,
+    players
+  };
+}
@@ -1,45 +1,20 @@
 "use client";
 
+import type { Round } from "@kasraffle/sdk";
 import { useMemo } from "react";
-import { useReadContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
 
-export type RoundStruct = {
-  id: bigint;
-  startTime: bigint;
-  endTime: bigint;
-  status: bigint;
-  participants: bigint;
-  totalTickets: bigint;
-  ticketPot: bigint;
-  seededRollover: bigint;
-  pot: bigint;
-  winnersShare: bigint;
-  feeShare: bigint;
-  rolloverShare: bigint;
-  seed: `0x${string}`;
-};
+export type RoundStruct = Round;
 
 export function useRound() {
-  const contract = useKasRaffleContract();
+  const query = useKasRaffleQuery(["currentRound"], (client) => client.getCurrentRound());
 
-  const enabled = useMemo(() => Boolean(contract.address), [contract.address]);
-
-  const query = useReadContract({
-    address: contract.address,
-    abi: contract.abi,
-    functionName: "getCurrentRound",
-    query: {
-      enabled
-    }
-  });
-
-  return useMemo(() => {
-    const round = query.data as unknown as RoundStruct | undefined;
-    return {
+  return useMemo(
+    () => ({
       ...query,
-      round
-    };
-  }, [query]);
+      round: query.data
+    }),
+    [query]
+  );
 }
@@ -0,0 +1,42 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { useCurrentRoundId } from "@/hooks/useCurrentRoundId";
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
+import type { RoundRow } from "@/lib/rounds";
+
+/** Every summary is re-read when it goes stale, so keep that rare; a new round changes the key anyway. */
+const SUMMARIES_STALE_MS = 60_000;
+
+/**
+ * Loads `getRoundSummary` and `getWinners` for every round up to the current one, newest
+ * first, in two batched client reads so filters can run over all rounds.
+ */
+export function useRoundSummaries() {
+  const { roundId: currentRoundId, isLoading: isLoadingRoundId } = useCurrentRoundId();
+
+  const roundIds = useMemo(() => {
+    if (!currentRoundId) return [] as bigint[];
+    return Array.from({ length: Number(currentRoundId) }, (_, index) => currentRoundId - BigInt(index));
+  }, [currentRoundId]);
+
+  const query = useKasRaffleQuery(
+    ["roundSummaries", currentRoundId],
+    async (client): Promise<RoundRow[]> => {
+      const [summaries, winners] = await Promise.all([
+        client.getRounds(roundIds),
+        client.getWinnersForRounds(roundIds)
+      ]);
+      return summaries.map((summary, index) => ({ summary, ...winners[index] }));
+    },
+    { enabled: roundIds.length > 0, staleTime: SUMMARIES_STALE_MS }
+  );
+
+  return {
+    ...query,
+    isLoading: isLoadingRoundId || query.isLoading,
+    currentRoundId,
+    rows: query.data
+  };
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+
+import type { SafeBatchTransaction } from "@/lib/safe";
+
+export type SafeBatch = {
+  safeAddress: `0x${string}`;
+  add: (transaction: SafeBatchTransaction) => void;
+};
+
+/** When set, write hooks simulate as the Safe and queue their call here instead of asking the wallet to send it. */
+export const SafeBatchContext = createContext<SafeBatch | null>(null);
+
+export function useSafeBatch() {
+  return useContext(SafeBatchContext);
+}
+
+export function useSafeBatchState(safeAddress?: `0x${string}`) {
+  const [transactions, setTransactions] = useState<SafeBatchTransaction[]>([]);
+
+  const add = useCallback((transaction: SafeBatchTransaction) => {
+    setTransactions((current) => [...current, transaction]);
+  }, []);
+
+  const remove = useCallback((index: number) => {
+    setTransactions((current) => current.filter((_, position) => position !== index));
+  }, []);
+
+  const clear = useCallback(() => setTransactions([]), []);
+
+  const batch = useMemo<SafeBatch | null>(() => (safeAddress ? { safeAddress, add } : null), [add, safeAddress]);
+
+  return {
+    batch,
+    transactions,
+    remove,
+    clear
+  };
+}
@@ -1,35 +1,20 @@
 "use client";
 
 import { useCallback } from "react";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { createWriteHook } from "@/hooks/createWriteHook";
 
-export function useSetFeeVault() {
-  const contract = useKasRaffleContract();
-  const { data: hash, error, isPending, writeContractAsync, reset } = useWriteContract();
+const useSetFeeVaultWrite = createWriteHook("setFeeVault", {
+  errors: { ErrInvalidParams: "The fee vault cannot be the zero address." }
+});
 
-  const setFeeVault = useCallback(
-    async (vault: `0x${string}`) => {
-      if (!contract.address) throw new Error("KASRaffle address unavailable");
-      return writeContractAsync({
-        address: contract.address,
-        abi: contract.abi,
-        functionName: "setFeeVault",
-        args: [vault]
-      });
-    },
-    [contract.address, contract.abi, writeContractAsync]
-  );
+export function useSetFeeVault() {
+  const { write, ...rest } = useSetFeeVaultWrite();
 
-  const receipt = useWaitForTransactionReceipt({ hash });
+  const setFeeVault = useCallback((vault: `0x${string}`) => write({ args: [vault] }), [write]);
 
   return {
     setFeeVault,
-    reset,
-    hash,
-    error,
-    isPending,
-    receipt
+    ...rest
   };
 }
@@ -1,63 +1,24 @@
 "use client";
 
+import { type ParamsArgs, toSetParamsArgs } from "@kasraffle/sdk";
 import { useCallback } from "react";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { createWriteHook } from "@/hooks/createWriteHook";
 
-interface ParamsArgs {
-  ticketPrice: bigint;
-  roundDuration: bigint;
-  minTicketsToDraw: bigint;
-  maxParticipants: bigint;
-  maxTicketsPerAddress: bigint;
-  maxTicketsPerRound: bigint;
-  winnersBps: number;
-  feeBps: number;
-  rolloverBps: number;
-  keeperTipWei: bigint;
-  keeperTipMaxWei: bigint;
-  tierBps: number[];
-}
+const useSetParamsWrite = createWriteHook("setParams", {
+  errors: {
+    ErrInvalidParams:
+      "Parameters rejected: check the price and duration (min 5 minutes), non-zero caps with maxTicketsPerAddress ≤ maxTicketsPerRound, shares and tiers each summing to 10,000 bps, and keeperTipWei ≤ keeperTipMaxWei."
+  }
+});
 
 export function useSetParams() {
-  const contract = useKasRaffleContract();
-  const { data: hash, error, isPending, writeContractAsync, reset } = useWriteContract();
-
-  const setParams = useCallback(
-    async (args: ParamsArgs) => {
-      if (!contract.address) throw new Error("KASRaffle address unavailable");
-      return writeContractAsync({
-        address: contract.address,
-        abi: contract.abi,
-        functionName: "setParams",
-        args: [
-          args.ticketPrice,
-          args.roundDuration,
-          args.minTicketsToDraw,
-          args.maxParticipants,
-          args.maxTicketsPerAddress,
-          args.maxTicketsPerRound,
-          args.winnersBps,
-          args.feeBps,
-          args.rolloverBps,
-          args.keeperTipWei,
-          args.keeperTipMaxWei,
-          args.tierBps
-        ]
-      });
-    },
-    [contract.address, contract.abi, writeContractAsync]
-  );
+  const { write, ...rest } = useSetParamsWrite();
 
-  const receipt = useWaitForTransactionReceipt({ hash });
+  const setParams = useCallback((args: ParamsArgs) => write({ args: toSetParamsArgs(args) }), [write]);
 
   return {
     setParams,
-    reset,
-    hash,
-    error,
-    isPending,
-    receipt
+    ...rest
   };
 }
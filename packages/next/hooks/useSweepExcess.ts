@@ -0,0 +1,38 @@
+"use client";
+
+import { useCallback } from "react";
+import { zeroAddress } from "viem";
+
+import { type PreflightContext, createWriteHook } from "@/hooks/createWriteHook";
+import { formatKas } from "@/lib/format";
+import { readTreasuryState, treasuryReport } from "@/lib/treasury";
+
+/** Re-derives the sweepable excess at send time; balances move between rendering the card and signing. */
+async function checkExcess({ client }: PreflightContext, to: `0x${string}`, amount: bigint) {
+  if (to === zeroAddress) return "The recipient cannot be the zero address.";
+  if (amount === 0n) return "Enter an amount above zero.";
+
+  const { excess } = treasuryReport(await readTreasuryState(client.publicClient, client.address));
+  if (excess === 0n) return "There is no excess to sweep: the balance does not exceed liabilities.";
+  if (amount > excess) {
+    return `Only ${formatKas(excess, 6)} KAS is above liabilities; ${formatKas(amount - excess, 6)} KAS of this sweep would come out of user funds.`;
+  }
+}
+
+const useSweepExcessWrite = createWriteHook("sweepExcess", {
+  preflight: (context, { args }) => (args ? checkExcess(context, args[0], args[1]) : Promise.resolve(undefined)),
+  errors: {
+    ErrInvalidParams: "The sweep must go to a non-zero address and cannot exceed the balance above liabilities."
+  }
+});
+
+export function useSweepExcess() {
+  const { write, ...rest } = useSweepExcessWrite();
+
+  const sweepExcess = useCallback((to: `0x${string}`, amount: bigint) => write({ args: [to, amount] }), [write]);
+
+  return {
+    sweepExcess,
+    ...rest
+  };
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+
+import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+
+export type TicketPurchase = {
+  tickets: bigint;
+  amount: bigint;
+  totalTicketsAfter: bigint;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+};
+
+export function useTicketPurchases(roundId?: bigint, buyer?: `0x${string}`) {
+  const contract = useKasRaffleContract();
+  const publicClient = usePublicClient();
+  const enabled = Boolean(contract.address) && Boolean(publicClient) && roundId !== undefined && Boolean(buyer);
+
+  const query = useQuery({
+    queryKey: ["ticketPurchases", contract.chainId, contract.address, roundId?.toString(), buyer],
+    enabled,
+    queryFn: async () => {
+      if (!publicClient || !contract.address) return [] as TicketPurchase[];
+      const logs = await publicClient.getContractEvents({
+        address: contract.address,
+        abi: contract.abi,
+        eventName: "TicketsPurchased",
+        args: { roundId, buyer },
+        fromBlock: contract.deployBlock,
+        toBlock: "latest",
+        strict: true
+      });
+      return logs.map(
+        (log): TicketPurchase => ({
+          tickets: log.args.tickets,
+          amount: log.args.value,
+          totalTicketsAfter: log.args.totalTickets,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash
+        })
+      );
+    }
+  });
+
+  return {
+    ...query,
+    purchases: query.data
+  };
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { usePublicClient } from "wagmi";
+
+import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { readTreasuryState, treasuryReport } from "@/lib/treasury";
+
+export function useTreasury() {
+  const contract = useKasRaffleContract();
+  const publicClient = usePublicClient();
+  const enabled = Boolean(contract.address) && Boolean(publicClient);
+
+  const query = useQuery({
+    queryKey: ["treasury", contract.chainId, contract.address?.toLowerCase()],
+    enabled,
+    queryFn: async () => {
+      if (!publicClient || !contract.address) return null;
+      return readTreasuryState(publicClient, contract.address);
+    }
+  });
+
+  const report = useMemo(() => (query.data ? treasuryReport(query.data) : undefined), [query.data]);
+
+  return {
+    ...query,
+    state: query.data ?? undefined,
+    report
+  };
+}
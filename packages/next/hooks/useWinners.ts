@@ -1,27 +1,15 @@
 "use client";
 
-import { useMemo } from "react";
-import { useReadContract } from "wagmi";
-
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
 
 export function useWinners(roundId?: bigint) {
-  const contract = useKasRaffleContract();
-  const enabled = useMemo(() => Boolean(contract.address) && typeof roundId !== "undefined", [contract.address, roundId]);
-
-  const query = useReadContract({
-    address: contract.address,
-    abi: contract.abi,
-    functionName: "getWinners",
-    args: roundId !== undefined ? [roundId] : undefined,
-    query: { enabled }
+  const query = useKasRaffleQuery(["winners", roundId], (client) => client.getWinners(roundId ?? 0n), {
+    enabled: roundId !== undefined
   });
 
-  const data = query.data as unknown as [readonly `0x${string}`[], readonly bigint[]] | undefined;
-
   return {
     ...query,
-    winners: data?.[0],
-    prizes: data?.[1]
+    winners: query.data?.winners,
+    prizes: query.data?.prizes
   };
 }
@@ -0,0 +1,16 @@
+"use client";
+
+import { useKasRaffleQuery } from "@/hooks/useKasRaffleClient";
+
+export function useWinningTicketIndices(roundId?: bigint) {
+  const query = useKasRaffleQuery(
+    ["winningTicketIndices", roundId],
+    (client) => client.getWinningTicketIndices(roundId ?? 0n),
+    { enabled: roundId !== undefined }
+  );
+
+  return {
+    ...query,
+    indices: query.data
+  };
+}
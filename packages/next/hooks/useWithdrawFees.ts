@@ -1,35 +1,20 @@
 "use client";
 
 import { useCallback } from "react";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
-import { useKasRaffleContract } from "@/hooks/useKasRaffleContract";
+import { createWriteHook } from "@/hooks/createWriteHook";
 
-export function useWithdrawFees() {
-  const contract = useKasRaffleContract();
-  const { data: hash, error, isPending, writeContractAsync, reset } = useWriteContract();
+const useWithdrawFeesWrite = createWriteHook("withdrawFees", {
+  errors: { ErrInvalidParams: "The amount must be above zero and no more than the accrued fees." }
+});
 
-  const withdrawFees = useCallback(
-    async (amount: bigint) => {
-      if (!contract.address) throw new Error("KASRaffle address unavailable");
-      return writeContractAsync({
-        address: contract.address,
-        abi: contract.abi,
-        functionName: "withdrawFees",
-        args: [amount]
-      });
-    },
-    [contract.address, contract.abi, writeContractAsync]
-  );
+export function useWithdrawFees() {
+  const { write, ...rest } = useWithdrawFeesWrite();
 
-  const receipt = useWaitForTransactionReceipt({ hash });
+  const withdrawFees = useCallback((amount: bigint) => write({ args: [amount] }), [write]);
 
   return {
     withdrawFees,
-    reset,
-    hash,
-    error,
-    isPending,
-    receipt
+    ...rest
   };
 }
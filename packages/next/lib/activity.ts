@@ -0,0 +1,75 @@
+import type { Log } from "viem";
+
+export const ACTIVITY_EVENTS = ["TicketsPurchased", "RoundReady", "DrawingStarted", "WinnersResolved"] as const;
+
+export type ActivityEventName = (typeof ACTIVITY_EVENTS)[number];
+
+type ActivityBase = {
+  id: string;
+  roundId: bigint;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+};
+
+export type ActivityItem =
+  | (ActivityBase & { eventName: "TicketsPurchased"; buyer: `0x${string}`; tickets: bigint; value: bigint })
+  | (ActivityBase & { eventName: "RoundReady"; pot: bigint; winnersShare: bigint })
+  | (ActivityBase & { eventName: "DrawingStarted"; seed: `0x${string}` })
+  | (ActivityBase & { eventName: "WinnersResolved"; winners: readonly `0x${string}`[]; prizes: readonly bigint[] });
+
+export const ACTIVITY_LIMIT = 50;
+
+type DecodedLog = Log<bigint, number, false> & { eventName?: string; args?: unknown };
+
+/** Maps a decoded KASRaffle log to a feed row. Pending logs and events outside the feed are dropped. */
+export function toActivityItem(log: DecodedLog): ActivityItem | undefined {
+  if (log.removed || log.blockNumber === null || log.transactionHash === null || log.logIndex === null) return undefined;
+  if (!log.eventName || !(ACTIVITY_EVENTS as readonly string[]).includes(log.eventName)) return undefined;
+
+  const args = log.args as Record<string, unknown>;
+  const base: ActivityBase = {
+    id: `${log.transactionHash}-${log.logIndex}`,
+    roundId: args.roundId as bigint,
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+    transactionHash: log.transactionHash
+  };
+
+  switch (log.eventName as ActivityEventName) {
+    case "TicketsPurchased":
+      return {
+        ...base,
+        eventName: "TicketsPurchased",
+        buyer: args.buyer as `0x${string}`,
+        tickets: args.tickets as bigint,
+        value: args.value as bigint
+      };
+    case "RoundReady":
+      return { ...base, eventName: "RoundReady", pot: args.pot as bigint, winnersShare: args.winnersShare as bigint };
+    case "DrawingStarted":
+      return { ...base, eventName: "DrawingStarted", seed: args.seed as `0x${string}` };
+    case "WinnersResolved":
+      return {
+        ...base,
+        eventName: "WinnersResolved",
+        winners: args.winners as readonly `0x${string}`[],
+        prizes: args.prizes as readonly bigint[]
+      };
+  }
+}
+
+/** Newest first, deduplicated by log id, capped at `ACTIVITY_LIMIT`. */
+export function mergeActivity(current: readonly ActivityItem[], incoming: readonly ActivityItem[]): ActivityItem[] {
+  const byId = new Map<string, ActivityItem>();
+  for (const item of [...incoming, ...current]) {
+    if (!byId.has(item.id)) byId.set(item.id, item);
+  }
+  return [...byId.values()]
+    .sort((a, b) => (a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : a.blockNumber > b.blockNumber ? -1 : 1))
+    .slice(0, ACTIVITY_LIMIT);
+}
+
+export function activityQueryKey(chainId: number, address?: `0x${string}`) {
+  return ["raffleActivity", chainId, address?.toLowerCase()] as const;
+}
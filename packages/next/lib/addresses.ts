@@ -1,18 +1,22 @@
-import { env } from "@/lib/env";
+// Relative imports only, like chains.ts: packages/cli loads these with plain tsx.
+
+import { env } from "./env";
 
 export type SupportedChainId = number;
 
-const addresses: Record<SupportedChainId, { kasRaffle?: `0x${string}` }> = {};
+const addresses: Record<SupportedChainId, { kasRaffle?: `0x${string}`; deployBlock: bigint }> = {};
 
 if (env.contracts.kasRaffleTestnet) {
   addresses[env.chainIds.testnet] = {
-    kasRaffle: env.contracts.kasRaffleTestnet as `0x${string}`
+    kasRaffle: env.contracts.kasRaffleTestnet as `0x${string}`,
+    deployBlock: env.deployBlocks.testnet
   };
 }
 
 if (env.chainIds.mainnet && env.contracts.kasRaffleMainnet) {
   addresses[env.chainIds.mainnet] = {
-    kasRaffle: env.contracts.kasRaffleMainnet as `0x${string}`
+    kasRaffle: env.contracts.kasRaffleMainnet as `0x${string}`,
+    deployBlock: env.deployBlocks.mainnet
   };
 }
 
@@ -21,4 +25,10 @@ export function getKasRaffleAddress(chainId?: SupportedChainId): `0x${string}` |
   return addresses[chainId]?.kasRaffle;
 }
 
+/** First block worth scanning for contract events; `0n` when the deployment block is not configured. */
+export function getKasRaffleDeployBlock(chainId?: SupportedChainId): bigint {
+  if (!chainId) return 0n;
+  return addresses[chainId]?.deployBlock ?? 0n;
+}
+
 export const supportedChainIds = Object.keys(addresses).map((id) => Number(id));
@@ -1,6 +1,6 @@
-import { defineChain } from "viem";
+import { type Chain, defineChain } from "viem";
 
-import { env } from "@/lib/env";
+import { env } from "./env";
 
 export const kasplexTestnet = defineChain({
   id: env.chainIds.testnet,
@@ -52,6 +52,6 @@ export const kasplexMainnet = defineChain({
   }
 });
 
-export const kasplexChains = env.chainIds.mainnet
+export const kasplexChains: readonly [Chain, ...Chain[]] = env.chainIds.mainnet
   ? [kasplexTestnet, kasplexMainnet]
   : [kasplexTestnet];
@@ -0,0 +1,14 @@
+import { downloadFile } from "@/lib/download";
+
+function escapeCell(value: string | number | bigint): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: readonly string[], rows: readonly (readonly (string | number | bigint)[])[]): string {
+  return [header, ...rows].map((row) => row.map(escapeCell).join(",")).join("\n");
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  downloadFile(filename, csv, "text/csv;charset=utf-8");
+}
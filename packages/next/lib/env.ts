@@ -10,6 +10,8 @@ const fallback = (value: string | undefined, label: string): string => {
 
 export const env = {
   walletConnectProjectId: fallback(process.env.NEXT_PUBLIC_WALLETCONNECT_ID, "NEXT_PUBLIC_WALLETCONNECT_ID"),
+  /** Absolute origin used for OpenGraph URLs in share cards. */
+  siteUrl: process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
   chainIds: {
     testnet: Number(process.env.NEXT_PUBLIC_CHAIN_ID_TESTNET ?? 167012),
     mainnet: Number(process.env.NEXT_PUBLIC_CHAIN_ID_MAINNET ?? 0)
@@ -28,5 +30,14 @@ export const env = {
   contracts: {
     kasRaffleTestnet: process.env.NEXT_PUBLIC_KASRAFFLE_TESTNET,
     kasRaffleMainnet: process.env.NEXT_PUBLIC_KASRAFFLE_MAINNET
+  },
+  /** Optional KAS price feed for fiat equivalents; unset hides them. */
+  fiat: {
+    priceUrl: process.env.NEXT_PUBLIC_KAS_PRICE_URL || "",
+    currency: (process.env.NEXT_PUBLIC_FIAT_CURRENCY || "USD").toUpperCase()
+  },
+  deployBlocks: {
+    testnet: BigInt(process.env.NEXT_PUBLIC_KASRAFFLE_DEPLOY_BLOCK_TESTNET ?? 0),
+    mainnet: BigInt(process.env.NEXT_PUBLIC_KASRAFFLE_DEPLOY_BLOCK_MAINNET ?? 0)
   }
 } as const;
@@ -0,0 +1,154 @@
+import { encodeAbiParameters, hexToBigInt, keccak256 } from "viem";
+
+export type FairnessParticipant = {
+  account: `0x${string}`;
+  tickets: bigint;
+};
+
+export type TicketPick = {
+  index: number;
+  hash: `0x${string}`;
+  ticket: bigint;
+};
+
+export type TicketAssignment = {
+  ticket: bigint;
+  participantIndex: number;
+  account: `0x${string}`;
+  rangeStart: bigint;
+  rangeEnd: bigint;
+};
+
+export type WinnerCheck = {
+  position: number;
+  expected?: `0x${string}`;
+  onChain?: `0x${string}`;
+  matches: boolean;
+};
+
+export type FairnessReport = {
+  picks: TicketPick[];
+  sortedTickets: bigint[];
+  assignments: TicketAssignment[];
+  winners: WinnerCheck[];
+  indicesMatch?: boolean;
+  ticketsMatch: boolean;
+  isValid: boolean;
+  issues: string[];
+};
+
+export type FairnessInput = {
+  seed: `0x${string}`;
+  totalTickets: bigint;
+  tierCount: number;
+  participants: readonly FairnessParticipant[];
+  onChainWinners: readonly `0x${string}`[];
+  onChainIndices?: readonly bigint[];
+};
+
+/** `(uint(keccak256(abi.encode(seed, i))) % totalTickets) + 1`, as computed in `closeRound`. */
+export function pickTicket(seed: `0x${string}`, index: number, totalTickets: bigint): TicketPick {
+  const hash = keccak256(encodeAbiParameters([{ type: "bytes32" }, { type: "uint256" }], [seed, BigInt(index)]));
+  return { index, hash, ticket: (hexToBigInt(hash) % totalTickets) + 1n };
+}
+
+/**
+ * Walks participants in purchase order over cumulative ticket ranges, exactly like
+ * `finalizeRound`: each participant owns tickets `(cumulative, cumulative + tickets]`
+ * and every sorted pick that falls inside that range resolves to them.
+ */
+export function assignTickets(
+  sortedTickets: readonly bigint[],
+  participants: readonly FairnessParticipant[]
+): TicketAssignment[] {
+  const assignments: TicketAssignment[] = [];
+  let cursor = 0;
+  let cumulative = 0n;
+
+  for (const [participantIndex, participant] of participants.entries()) {
+    if (cursor >= sortedTickets.length) break;
+    if (participant.tickets === 0n) continue;
+
+    const nextBoundary = cumulative + participant.tickets;
+    while (cursor < sortedTickets.length && sortedTickets[cursor] <= nextBoundary) {
+      assignments.push({
+        ticket: sortedTickets[cursor],
+        participantIndex,
+        account: participant.account,
+        rangeStart: cumulative + 1n,
+        rangeEnd: nextBoundary
+      });
+      cursor++;
+    }
+    cumulative = nextBoundary;
+  }
+
+  return assignments;
+}
+
+export function verifyRound(input: FairnessInput): FairnessReport {
+  const issues: string[] = [];
+
+  if (input.totalTickets === 0n) {
+    return {
+      picks: [],
+      sortedTickets: [],
+      assignments: [],
+      winners: [],
+      ticketsMatch: false,
+      isValid: false,
+      issues: ["Round sold no tickets, so no winners were drawn."]
+    };
+  }
+
+  const picks = Array.from({ length: input.tierCount }, (_, index) =>
+    pickTicket(input.seed, index, input.totalTickets)
+  );
+  const sortedTickets = picks.map((pick) => pick.ticket).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const participantTickets = input.participants.reduce((sum, participant) => sum + participant.tickets, 0n);
+  const ticketsMatch = participantTickets === input.totalTickets;
+  if (!ticketsMatch) {
+    issues.push(
+      `Participant list sums to ${participantTickets} tickets but the round recorded ${input.totalTickets}.`
+    );
+  }
+
+  let indicesMatch: boolean | undefined;
+  if (input.onChainIndices) {
+    indicesMatch =
+      input.onChainIndices.length === sortedTickets.length &&
+      input.onChainIndices.every((ticket, index) => ticket === sortedTickets[index]);
+    if (!indicesMatch) issues.push("Recomputed winning tickets differ from the contract's winningTicketIndices.");
+  }
+
+  const assignments = assignTickets(sortedTickets, input.participants);
+  const positions = Math.max(assignments.length, input.onChainWinners.length);
+  const winners: WinnerCheck[] = Array.from({ length: positions }, (_, position) => {
+    const expected = assignments[position]?.account;
+    const onChain = input.onChainWinners[position];
+    return {
+      position,
+      expected,
+      onChain,
+      matches: Boolean(expected && onChain && expected.toLowerCase() === onChain.toLowerCase())
+    };
+  });
+
+  const mismatched = winners.filter((winner) => !winner.matches).length;
+  if (mismatched > 0) issues.push(`${mismatched} winner position(s) do not match getWinners.`);
+  if (winners.length !== input.tierCount) {
+    issues.push(`Expected ${input.tierCount} winners but resolved ${winners.length}.`);
+  }
+
+  return {
+    picks,
+    sortedTickets,
+    assignments,
+    winners,
+    indicesMatch,
+    ticketsMatch,
+    isValid: issues.length === 0,
+    issues
+  };
+}
@@ -0,0 +1,22 @@
+import type { FiatRate } from "@kasraffle/sdk";
+
+/**
+ * Reads a CoinGecko `simple/price` response (`{ "kaspa": { "usd": 0.1 } }`). The JSON number goes through
+ * `toLocaleString` rather than `String` so tiny prices come out as digits, never as "1e-7".
+ */
+export function parseKasPrice(body: unknown, currency: string): FiatRate {
+  const price = (body as { kaspa?: Record<string, unknown> } | null)?.kaspa?.[currency.toLowerCase()];
+  if (typeof price !== "number" || !Number.isFinite(price) || price < 0) {
+    throw new Error(`The price feed has no KAS price in ${currency}.`);
+  }
+  return {
+    currency,
+    perKas: price.toLocaleString("en-US", { useGrouping: false, maximumFractionDigits: 18 })
+  };
+}
+
+export async function fetchKasPrice(url: string, currency: string): Promise<FiatRate> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`The price feed answered ${response.status}.`);
+  return parseKasPrice(await response.json(), currency);
+}
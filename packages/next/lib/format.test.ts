@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { formatKas, formatKasCompact } from "./format";
+
+const KAS = 10n ** 18n;
+const en = { locale: "en-US" } as const;
+
+describe("formatKas", () => {
+  test("renders undefined as -- but zero as 0", () => {
+    assert.equal(formatKas(undefined), "--");
+    assert.equal(formatKas(), "--");
+    assert.equal(formatKas(0n, 2, en), "0");
+  });
+
+  test("passes precision through as maxFractionDigits", () => {
+    const value = 1234n * KAS + 567_890_000_000_000_000n;
+    assert.equal(formatKas(value, 2, en), "1,234.57");
+    assert.equal(formatKas(value, 4, en), "1,234.5679");
+    assert.equal(formatKas(value, 0, en), "1,235");
+  });
+
+  test("keeps the sign of negative values", () => {
+    assert.equal(formatKas((-5n * KAS) / 2n, 2, en), "-2.5");
+  });
+});
+
+describe("formatKasCompact", () => {
+  test("renders undefined as -- but zero as 0", () => {
+    assert.equal(formatKasCompact(undefined), "--");
+    assert.equal(formatKasCompact(0n), "0");
+  });
+
+  test("uses one fraction digit and a suffix", () => {
+    assert.equal(formatKasCompact(1234n * KAS).replace(/[^\dK]/g, "."), "1.2K");
+    assert.equal(formatKasCompact(999_960n * KAS), "1M");
+  });
+});
@@ -1,27 +1,25 @@
-import { formatEther } from "viem";
+import { type FormatAmountOptions, RoundStatus, formatKas as formatKasAmount, roundStatusName } from "@kasraffle/sdk";
 
-export function formatKas(value?: bigint, precision = 2): string {
-  if (!value) return "0";
-  const formatted = parseFloat(formatEther(value));
-  return formatted.toLocaleString(undefined, {
-    maximumFractionDigits: precision,
-    minimumFractionDigits: 0
-  });
+type KasFormatOptions = Omit<FormatAmountOptions, "decimals" | "maxFractionDigits">;
+
+/** Exact wei formatting, negatives included. `undefined` means not loaded yet and renders as "--", not "0". */
+export function formatKas(value?: bigint, precision = 2, options: KasFormatOptions = {}): string {
+  if (value === undefined) return "--";
+  return formatKasAmount(value, { ...options, maxFractionDigits: precision });
+}
+
+/** 1.2K, 3.4M: for share cards and other places where the width is fixed. */
+export function formatKasCompact(value?: bigint): string {
+  return formatKas(value, 1, { notation: "compact" });
+}
+
+export { RoundStatus };
+
+export function roundStatusLabel(status?: RoundStatus): string {
+  return roundStatusName(status ?? RoundStatus.Open);
 }
 
-export function roundStatusLabel(status?: bigint): string {
-  switch (Number(status ?? 0)) {
-    case 0:
-      return "Open";
-    case 1:
-      return "Ready";
-    case 2:
-      return "Drawing";
-    case 3:
-      return "Refunding";
-    case 4:
-      return "Closed";
-    default:
-      return "Unknown";
-  }
+export function shortAddress(address?: string): string {
+  if (!address) return "--";
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
 }
@@ -0,0 +1,114 @@
+import type { RaffleEventLog } from "@/lib/logs";
+
+export type PlayerRound = {
+  roundId: bigint;
+  tickets: bigint;
+  spent: bigint;
+  /** Zero-based prize tiers won this round. */
+  tiers: number[];
+  prizes: bigint;
+  claimed: bigint;
+  refunded: bigint;
+};
+
+export type PlayerStats = {
+  account: `0x${string}`;
+  ticketsBought: bigint;
+  spent: bigint;
+  roundsPlayed: number;
+  wins: number;
+  prizesWon: bigint;
+  refunded: bigint;
+  claimed: bigint;
+  /** Prizes won plus refunds, minus everything spent on tickets (open rounds included). */
+  net: bigint;
+  rounds: PlayerRound[];
+};
+
+/**
+ * Folds raw KASRaffle logs into per-address totals. Events are used instead of
+ * `getParticipantsSlice` because `finalizeRefunds` zeroes refunded entries.
+ */
+export function aggregatePlayers(logs: readonly RaffleEventLog[]): Map<string, PlayerStats> {
+  const players = new Map<string, PlayerStats>();
+
+  const roundFor = (account: `0x${string}`, roundId: bigint) => {
+    const key = account.toLowerCase();
+    let player = players.get(key);
+    if (!player) {
+      player = {
+        account,
+        ticketsBought: 0n,
+        spent: 0n,
+        roundsPlayed: 0,
+        wins: 0,
+        prizesWon: 0n,
+        refunded: 0n,
+        claimed: 0n,
+        net: 0n,
+        rounds: []
+      };
+      players.set(key, player);
+    }
+    let round = player.rounds.find((entry) => entry.roundId === roundId);
+    if (!round) {
+      round = { roundId, tickets: 0n, spent: 0n, tiers: [], prizes: 0n, claimed: 0n, refunded: 0n };
+      player.rounds.push(round);
+    }
+    return { player, round };
+  };
+
+  for (const log of logs) {
+    switch (log.eventName) {
+      case "TicketsPurchased": {
+        const { player, round } = roundFor(log.args.buyer, log.args.roundId);
+        round.tickets += log.args.tickets;
+        round.spent += log.args.value;
+        player.ticketsBought += log.args.tickets;
+        player.spent += log.args.value;
+        break;
+      }
+      case "WinnersResolved": {
+        log.args.winners.forEach((winner, tier) => {
+          const prize = log.args.prizes[tier] ?? 0n;
+          const { player, round } = roundFor(winner, log.args.roundId);
+          round.tiers.push(tier);
+          round.prizes += prize;
+          player.wins += 1;
+          player.prizesWon += prize;
+        });
+        break;
+      }
+      case "Claimed": {
+        const { player, round } = roundFor(log.args.winner, log.args.roundId);
+        round.claimed += log.args.amount;
+        player.claimed += log.args.amount;
+        break;
+      }
+      case "Refunded": {
+        const { player, round } = roundFor(log.args.account, log.args.roundId);
+        round.refunded += log.args.amount;
+        player.refunded += log.args.amount;
+        break;
+      }
+    }
+  }
+
+  for (const player of players.values()) {
+    player.rounds.sort((a, b) => (a.roundId === b.roundId ? 0 : a.roundId > b.roundId ? -1 : 1));
+    player.roundsPlayed = player.rounds.filter((round) => round.tickets > 0n).length;
+    player.net = player.prizesWon + player.refunded - player.spent;
+  }
+
+  return players;
+}
+
+export type PlayerSortKey = "ticketsBought" | "spent" | "roundsPlayed" | "wins" | "prizesWon" | "net";
+
+export function rankPlayers(players: Iterable<PlayerStats>, key: PlayerSortKey): PlayerStats[] {
+  return [...players].sort((a, b) => {
+    const left = a[key];
+    const right = b[key];
+    return left === right ? 0 : left > right ? -1 : 1;
+  });
+}
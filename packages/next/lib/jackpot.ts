@@ -0,0 +1,95 @@
+import { BPS_DENOM, splitPot } from "@kasraffle/sdk";
+
+import type { RoundStruct } from "@/hooks/useRound";
+import { roundOutcome } from "@/lib/rounds";
+
+export { type PotSplit, splitPot } from "@kasraffle/sdk";
+
+export type JackpotPoint = {
+  roundId: bigint;
+  seededRollover: bigint;
+  ticketPot: bigint;
+  pot: bigint;
+  winnersShare: bigint;
+  feeShare: bigint;
+  rolloverShare: bigint;
+};
+
+/**
+ * One point per drawn round, oldest first. `finalizeRound` zeroes `ticketPot`, so it is
+ * rebuilt from the pot; refunded rounds never split a pot and are left out.
+ */
+export function jackpotSeries(rounds: readonly RoundStruct[]): JackpotPoint[] {
+  return rounds
+    .filter((round) => roundOutcome(round) === "drawn")
+    .map((round) => ({
+      roundId: round.id,
+      seededRollover: round.seededRollover,
+      ticketPot: round.pot - round.seededRollover,
+      pot: round.pot,
+      winnersShare: round.winnersShare,
+      feeShare: round.feeShare,
+      rolloverShare: round.rolloverShare
+    }))
+    .sort((a, b) => (a.roundId === b.roundId ? 0 : a.roundId < b.roundId ? -1 : 1));
+}
+
+export type SeedProjection = {
+  /** Pot the current round would split if it were drawn with the tickets sold so far. */
+  pot: bigint;
+  /** Next round's `seededRollover` if the current round is drawn. */
+  ifDrawn: bigint;
+  /** Next round's `seededRollover` if the current round is refunded; the bank is left untouched. */
+  ifRefunded: bigint;
+  /** False once `closeRound` has fixed the split (Ready/Drawing) or decided on refunds. */
+  isEstimate: boolean;
+};
+
+/**
+ * Projects the next round's starting pot. While the round is open the bank still holds
+ * this round's seed, so the pot is `ticketPot + rolloverBank` split at the current bps.
+ */
+export function projectNextSeed({
+  round,
+  rolloverBank,
+  winnersBps,
+  feeBps
+}: {
+  round: RoundStruct;
+  rolloverBank: bigint;
+  winnersBps: number;
+  feeBps: number;
+}): SeedProjection {
+  switch (roundOutcome(round)) {
+    case "ready":
+    case "drawing":
+      return { pot: round.pot, ifDrawn: round.rolloverShare, ifRefunded: rolloverBank, isEstimate: false };
+    case "refunding":
+    case "refunded":
+      return { pot: 0n, ifDrawn: rolloverBank, ifRefunded: rolloverBank, isEstimate: false };
+    default: {
+      const pot = round.ticketPot + rolloverBank;
+      return {
+        pot,
+        ifDrawn: splitPot(pot, winnersBps, feeBps).rolloverShare,
+        ifRefunded: rolloverBank,
+        isEstimate: true
+      };
+    }
+  }
+}
+
+/**
+ * Seed the rollover converges to if every round sells `ticketPot` worth of tickets:
+ * s = (T + s) * r, so s = T * r / (1 - r). The jackpot therefore tops out rather than compounding forever.
+ */
+export function steadyStateSeed(ticketPot: bigint, rolloverBps: number): bigint | undefined {
+  if (BigInt(rolloverBps) >= BPS_DENOM) return undefined;
+  return (ticketPot * BigInt(rolloverBps)) / (BPS_DENOM - BigInt(rolloverBps));
+}
+
+export function averageTicketPot(points: readonly JackpotPoint[], lastN = 10): bigint {
+  const recent = points.slice(-lastN);
+  if (recent.length === 0) return 0n;
+  return recent.reduce((sum, point) => sum + point.ticketPot, 0n) / BigInt(recent.length);
+}
@@ -0,0 +1,29 @@
+import { kasRaffleAbi } from "@kasraffle/sdk";
+import type { GetContractEventsReturnType, PublicClient } from "viem";
+
+export type RaffleEventLog = GetContractEventsReturnType<typeof kasRaffleAbi, undefined, true>[number];
+
+/** Below this many blocks a failing `eth_getLogs` is treated as a real error rather than a range limit. */
+const MIN_SPLIT_SPAN = 100n;
+
+/**
+ * Fetches and decodes every KASRaffle event in `[fromBlock, toBlock]`. RPCs that cap
+ * the block range or result size reject wide queries, so failed ranges are halved
+ * until they succeed.
+ */
+export async function getRaffleEvents(
+  publicClient: PublicClient,
+  address: `0x${string}`,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<RaffleEventLog[]> {
+  try {
+    return await publicClient.getContractEvents({ address, abi: kasRaffleAbi, fromBlock, toBlock, strict: true as const });
+  } catch (error) {
+    if (toBlock - fromBlock < MIN_SPLIT_SPAN) throw error;
+    const middle = fromBlock + (toBlock - fromBlock) / 2n;
+    const earlier = await getRaffleEvents(publicClient, address, fromBlock, middle);
+    const later = await getRaffleEvents(publicClient, address, middle + 1n, toBlock);
+    return [...earlier, ...later];
+  }
+}
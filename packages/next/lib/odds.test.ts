@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { entryOdds } from "./odds";
+
+const KAS = 10n ** 18n;
+const tierBps = [5_000, 3_000, 2_000];
+const close = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-12, `${actual} ≠ ${expected}`);
+
+describe("entryOdds", () => {
+  test("favours the first tiers for low tickets and the last tiers for high ones", () => {
+    const low = entryOdds({ rangeStart: 1n, rangeEnd: 10n, totalTickets: 100n, winnersShare: 100n * KAS, tierBps });
+    const high = entryOdds({ rangeStart: 91n, rangeEnd: 100n, totalTickets: 100n, winnersShare: 100n * KAS, tierBps });
+
+    // Tier 1 is the smallest of three picks: it lands in 1..10 unless all three are above 10.
+    close(low.tiers[0].probability, 1 - 0.9 ** 3);
+    close(high.tiers[2].probability, 1 - 0.9 ** 3);
+    close(low.tiers[2].probability, 0.1 ** 3);
+    assert.ok(low.expectedValue > high.expectedValue);
+    close(low.anyWinProbability, high.anyWinProbability);
+  });
+
+  test("per-tier chances add up to the expected number of tiers won", () => {
+    for (const [rangeStart, rangeEnd] of [
+      [1n, 10n],
+      [37n, 52n],
+      [91n, 100n]
+    ]) {
+      const odds = entryOdds({ rangeStart, rangeEnd, totalTickets: 100n, winnersShare: 100n * KAS, tierBps });
+      const sum = odds.tiers.reduce((total, tier) => total + tier.probability, 0);
+      const share = Number(rangeEnd - rangeStart + 1n) / 100;
+      close(sum, tierBps.length * share);
+      // Each tier is a way to win at least one, and with a single tier the two coincide.
+      for (const tier of odds.tiers) assert.ok(tier.probability <= odds.anyWinProbability + 1e-12);
+      close(odds.anyWinProbability, 1 - (1 - share) ** tierBps.length);
+    }
+
+    const single = entryOdds({ rangeStart: 4n, rangeEnd: 9n, totalTickets: 30n, winnersShare: KAS, tierBps: [10_000] });
+    close(single.tiers[0].probability, single.anyWinProbability);
+    close(single.anyWinProbability, 6 / 30);
+  });
+
+  test("per-tier expected values add up to the total", () => {
+    const odds = entryOdds({ rangeStart: 37n, rangeEnd: 52n, totalTickets: 100n, winnersShare: 123n * KAS, tierBps });
+    assert.equal(
+      odds.tiers.reduce((total, tier) => total + tier.expectedValue, 0n),
+      odds.expectedValue
+    );
+    // With equal prizes the position stops mattering: 2 picks × 16% × 50 KAS, give or take per-tier flooring.
+    const even = entryOdds({
+      rangeStart: 37n,
+      rangeEnd: 52n,
+      totalTickets: 100n,
+      winnersShare: 100n * KAS,
+      tierBps: [5_000, 5_000]
+    });
+    assert.ok(16n * KAS - even.expectedValue <= 2n);
+  });
+
+  test("an entry holding every ticket wins every tier", () => {
+    const odds = entryOdds({ rangeStart: 1n, rangeEnd: 50n, totalTickets: 50n, winnersShare: 10n * KAS, tierBps });
+    for (const tier of odds.tiers) close(tier.probability, 1);
+    assert.equal(
+      odds.expectedValue,
+      odds.tiers.reduce((total, tier) => total + tier.prize, 0n)
+    );
+    assert.equal(odds.anyWinProbability, 1);
+  });
+
+  test("returns zero odds without tickets", () => {
+    const odds = entryOdds({ rangeStart: 1n, rangeEnd: 0n, totalTickets: 0n, winnersShare: KAS, tierBps });
+    assert.equal(odds.anyWinProbability, 0);
+    assert.equal(odds.expectedValue, 0n);
+    assert.deepEqual(
+      odds.tiers.map((tier) => tier.probability),
+      [0, 0, 0]
+    );
+  });
+});
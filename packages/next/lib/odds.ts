@@ -0,0 +1,100 @@
+import { tierPrizes } from "@kasraffle/sdk";
+
+export { tierPrizes } from "@kasraffle/sdk";
+
+const DENOM = 10_000n;
+
+export type TierOdds = {
+  tier: number;
+  prize: bigint;
+  /** Chance that this tier's pick, the tier-th smallest of the sorted draw, lands in the entry's range. */
+  probability: number;
+  expectedValue: bigint;
+};
+
+export type EntryOdds = {
+  tiers: TierOdds[];
+  /** Chance of winning at least one tier; picks are drawn with replacement. */
+  anyWinProbability: number;
+  expectedValue: bigint;
+};
+
+export function winnersShareOf(pot: bigint, winnersBps: number): bigint {
+  return (pot * BigInt(winnersBps)) / DENOM;
+}
+
+function binomial(n: number, k: number): bigint {
+  let result = 1n;
+  for (let i = 1; i <= k; i += 1) result = (result * BigInt(n - k + i)) / BigInt(i);
+  return result;
+}
+
+/**
+ * T^n · P(the k-th smallest of n uniform picks over [1, T] is at most x), i.e. at least k picks are <= x.
+ * Kept as an integer numerator so prizes can be weighted exactly.
+ */
+function orderStatisticCdf(k: number, n: number, x: bigint, total: bigint): bigint {
+  let sum = 0n;
+  for (let j = k; j <= n; j += 1) sum += binomial(n, j) * x ** BigInt(j) * (total - x) ** BigInt(n - j);
+  return sum;
+}
+
+function ratio(numerator: bigint, denominator: bigint): number {
+  return Number((numerator * 10n ** 18n) / denominator) / 1e18;
+}
+
+/**
+ * `closeRound` sorts the picks ascending and `finalizeRound` pays `prizes[i]` to the owner of the i-th smallest,
+ * so an entry's chance at each tier depends on where its ticket range sits, not just on its size.
+ */
+export function entryOdds({
+  rangeStart,
+  rangeEnd,
+  totalTickets,
+  winnersShare,
+  tierBps
+}: {
+  /** First and last ticket number owned, 1-based, as returned by `useMyEntry`. */
+  rangeStart: bigint;
+  rangeEnd: bigint;
+  totalTickets: bigint;
+  winnersShare: bigint;
+  tierBps: readonly number[];
+}): EntryOdds {
+  const prizes = tierPrizes(winnersShare, tierBps);
+  if (rangeEnd < rangeStart || totalTickets === 0n) {
+    return {
+      tiers: prizes.map((prize, tier) => ({ tier, prize, probability: 0, expectedValue: 0n })),
+      anyWinProbability: 0,
+      expectedValue: 0n
+    };
+  }
+
+  const picks = prizes.length;
+  const denominator = totalTickets ** BigInt(picks);
+  const tiers = prizes.map((prize, tier) => {
+    const numerator =
+      orderStatisticCdf(tier + 1, picks, rangeEnd, totalTickets) -
+      orderStatisticCdf(tier + 1, picks, rangeStart - 1n, totalTickets);
+    return {
+      tier,
+      prize,
+      probability: ratio(numerator, denominator),
+      expectedValue: (prize * numerator) / denominator
+    };
+  });
+
+  const tickets = rangeEnd - rangeStart + 1n;
+  return {
+    tiers,
+    anyWinProbability: 1 - ratio((totalTickets - tickets) ** BigInt(picks), denominator),
+    expectedValue: tiers.reduce((sum, tier) => sum + tier.expectedValue, 0n)
+  };
+}
+
+export function formatProbability(probability: number): string {
+  if (probability <= 0) return "0%";
+  if (probability >= 1) return "100%";
+  if (probability < 0.0001) return "<0.01%";
+  return `${(probability * 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`;
+}
@@ -0,0 +1,54 @@
+import { ImageResponse } from "next/og";
+
+export const OG_SIZE = { width: 1200, height: 630 };
+
+type ShareImageProps = {
+  eyebrow: string;
+  headline: string;
+  /** Large highlighted figure, e.g. the pot or the prize. */
+  amount: string;
+  stats: { label: string; value: string }[];
+};
+
+/** Satori only understands flexbox and inline styles, so this cannot reuse the Tailwind components. */
+export function shareImage({ eyebrow, headline, amount, stats }: ShareImageProps): ImageResponse {
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: 64,
+        background: "linear-gradient(180deg, #020617 0%, #0f172a 60%, #020617 100%)",
+        color: "#f1f5f9",
+        fontFamily: "sans-serif"
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 32, color: "#94a3b8" }}>
+        <span style={{ color: "#fb923c", fontWeight: 700 }}>KASRaffle</span>
+        <span>{eyebrow}</span>
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+        <span style={{ fontSize: 44, color: "#cbd5e1" }}>{headline}</span>
+        <span style={{ fontSize: 120, fontWeight: 800, color: "#fb923c", lineHeight: 1 }}>{amount}</span>
+      </div>
+      <div style={{ display: "flex", gap: 48 }}>
+        {stats.map((stat) => (
+          <div key={stat.label} style={{ display: "flex", flexDirection: "column" }}>
+            <span style={{ fontSize: 22, textTransform: "uppercase", letterSpacing: 2, color: "#64748b" }}>
+              {stat.label}
+            </span>
+            <span style={{ fontSize: 36, fontWeight: 700 }}>{stat.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>,
+    OG_SIZE
+  );
+}
+
+export function notFoundImage(message: string): ImageResponse {
+  return shareImage({ eyebrow: "Kasplex", headline: message, amount: "--", stats: [] });
+}
@@ -0,0 +1,99 @@
+import { type ParamIssue, type ParamKey, type ParamsArgs, parseKas, validateParams } from "@kasraffle/sdk";
+import { formatEther } from "viem";
+
+export {
+  PARAM_LABELS,
+  diffParams,
+  formatParam,
+  roundImpact,
+  type ParamChange,
+  type RoundSnapshot
+} from "@kasraffle/sdk";
+
+/** The admin form keeps every field as typed text; KAS amounts in ether, the duration in minutes. */
+export type ParamsForm = {
+  ticketPrice: string;
+  roundDurationMinutes: string;
+  minTicketsToDraw: string;
+  maxParticipants: string;
+  maxTicketsPerAddress: string;
+  maxTicketsPerRound: string;
+  winnersBps: string;
+  feeBps: string;
+  rolloverBps: string;
+  keeperTipWei: string;
+  keeperTipMaxWei: string;
+  tierBps: string;
+};
+
+function parseInteger(label: string, input: string): bigint {
+  const trimmed = input.trim();
+  if (!/^\d+$/.test(trimmed)) throw new Error(`${label} must be a whole number.`);
+  return BigInt(trimmed);
+}
+
+/** Turns form text into `setParams` arguments. Only rejects input that cannot be parsed; rule checks live in `lintParams`. */
+export function parseParamsForm(form: ParamsForm): ParamsArgs {
+  const tierBps = form.tierBps
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .map((value) => Number(parseInteger("Each tier", value)));
+  if (tierBps.length === 0) throw new Error("Tier BPS must contain at least one number.");
+
+  const minutes = Number.parseFloat(form.roundDurationMinutes);
+  if (!Number.isFinite(minutes) || minutes < 0) throw new Error("Round duration must be a number of minutes.");
+
+  return {
+    ticketPrice: parseKas(form.ticketPrice, { label: "Ticket price", allowZero: true }),
+    roundDuration: BigInt(Math.round(minutes * 60)),
+    minTicketsToDraw: parseInteger("Min tickets to draw", form.minTicketsToDraw),
+    maxParticipants: parseInteger("Max participants", form.maxParticipants),
+    maxTicketsPerAddress: parseInteger("Max tickets / address", form.maxTicketsPerAddress),
+    maxTicketsPerRound: parseInteger("Max tickets / round", form.maxTicketsPerRound),
+    winnersBps: Number(parseInteger("Winners share", form.winnersBps)),
+    feeBps: Number(parseInteger("Fee share", form.feeBps)),
+    rolloverBps: Number(parseInteger("Rollover share", form.rolloverBps)),
+    keeperTipWei: parseKas(form.keeperTipWei, { label: "Keeper tip", allowZero: true }),
+    keeperTipMaxWei: parseKas(form.keeperTipMaxWei, { label: "Keeper tip max", allowZero: true }),
+    tierBps
+  };
+}
+
+export function toParamsForm(params: ParamsArgs): ParamsForm {
+  return {
+    ticketPrice: formatEther(params.ticketPrice),
+    roundDurationMinutes: (Number(params.roundDuration) / 60).toString(),
+    minTicketsToDraw: params.minTicketsToDraw.toString(),
+    maxParticipants: params.maxParticipants.toString(),
+    maxTicketsPerAddress: params.maxTicketsPerAddress.toString(),
+    maxTicketsPerRound: params.maxTicketsPerRound.toString(),
+    winnersBps: params.winnersBps.toString(),
+    feeBps: params.feeBps.toString(),
+    rolloverBps: params.rolloverBps.toString(),
+    keeperTipWei: formatEther(params.keeperTipWei),
+    keeperTipMaxWei: formatEther(params.keeperTipMaxWei),
+    tierBps: params.tierBps.join(",")
+  };
+}
+
+/** The `setParams` require checks, followed by combinations the contract accepts but that misbehave. */
+export function lintParams(params: ParamsArgs): ParamIssue[] {
+  const issues = validateParams(params);
+  const warning = (key: ParamKey, message: string) => issues.push({ severity: "warning", key, message });
+
+  const zeroTiers = params.tierBps.flatMap((bps, index) => (bps === 0 ? [index + 1] : []));
+  if (zeroTiers.length > 0) {
+    warning("tierBps", `Tier ${zeroTiers.join(", ")} pays nothing but still draws a winner.`);
+  }
+  if (params.minTicketsToDraw < BigInt(params.tierBps.length)) {
+    warning(
+      "minTicketsToDraw",
+      `Min tickets to draw (${params.minTicketsToDraw}) is below the ${params.tierBps.length} tiers, so a round can draw with fewer tickets than prizes.`
+    );
+  }
+  if (params.minTicketsToDraw > params.maxTicketsPerRound) {
+    warning("minTicketsToDraw", "Min tickets to draw exceeds max tickets / round, so every round will refund.");
+  }
+  return issues;
+}
@@ -0,0 +1,19 @@
+import { type ParamsPreset, parsePreset } from "@kasraffle/sdk";
+
+import defaultPreset from "@/presets/default.json";
+import fiveTier from "@/presets/five-tier.json";
+import flashRound from "@/presets/flash-round.json";
+import whaleRound from "@/presets/whale-round.json";
+
+/** Bundled presets go through the same validator as imported files, so a bad edit fails the build. */
+export const BUILT_IN_PRESETS: ParamsPreset[] = [defaultPreset, flashRound, whaleRound, fiveTier].map((preset) =>
+  parsePreset(preset)
+);
+
+export function presetFilename(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `kasraffle-preset-${slug || "custom"}.json`;
+}
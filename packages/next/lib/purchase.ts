@@ -0,0 +1,44 @@
+export type PurchaseQuote = {
+  tickets: bigint;
+  cost: bigint;
+  /** Sent value the contract pays straight back: `value - tickets * ticketPrice`. */
+  remainder: bigint;
+};
+
+/** Mirrors `_buyTickets`: whole tickets only, and whatever is left over is refunded in the same call. */
+export function quotePurchase(value: bigint, ticketPrice: bigint): PurchaseQuote {
+  if (ticketPrice === 0n || value <= 0n) return { tickets: 0n, cost: 0n, remainder: value > 0n ? value : 0n };
+  const tickets = value / ticketPrice;
+  const cost = tickets * ticketPrice;
+  return { tickets, cost, remainder: value - cost };
+}
+
+export type PurchaseLimits = {
+  maxTicketsPerRound: bigint;
+  maxTicketsPerAddress: bigint;
+  maxParticipants: bigint;
+  totalTickets: bigint;
+  participants: bigint;
+  /** Tickets the buyer already holds this round; `undefined` if they have no slot yet. */
+  heldTickets?: bigint;
+};
+
+export type PurchaseCapacity = {
+  max: bigint;
+  limitedBy: "maxTicketsPerRound" | "maxTicketsPerAddress" | "maxParticipants";
+};
+
+/** The most tickets one more purchase can add before any cap in `_buyTickets` reverts. */
+export function maxBuyableTickets(limits: PurchaseLimits): PurchaseCapacity {
+  if (limits.heldTickets === undefined && limits.participants >= limits.maxParticipants) {
+    return { max: 0n, limitedBy: "maxParticipants" };
+  }
+
+  const roundRoom = limits.maxTicketsPerRound > limits.totalTickets ? limits.maxTicketsPerRound - limits.totalTickets : 0n;
+  const held = limits.heldTickets ?? 0n;
+  const addressRoom = limits.maxTicketsPerAddress > held ? limits.maxTicketsPerAddress - held : 0n;
+
+  return addressRoom < roundRoom
+    ? { max: addressRoom, limitedBy: "maxTicketsPerAddress" }
+    : { max: roundRoom, limitedBy: "maxTicketsPerRound" };
+}
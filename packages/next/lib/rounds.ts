@@ -0,0 +1,50 @@
+import { type RoundOutcome, roundOutcome, roundPot } from "@kasraffle/sdk";
+import { zeroAddress } from "viem";
+
+import type { RoundStruct } from "@/hooks/useRound";
+
+export { type RoundOutcome, isRefund, roundOutcome, roundPot } from "@kasraffle/sdk";
+
+export type RoundRow = {
+  summary: RoundStruct;
+  winners: readonly `0x${string}`[];
+  prizes: readonly bigint[];
+};
+
+export const ROUND_OUTCOME_LABELS: Record<RoundOutcome, string> = {
+  open: "Open",
+  ready: "Ready",
+  drawing: "Drawing",
+  refunding: "Refunding",
+  drawn: "Closed",
+  refunded: "Refunded"
+};
+
+export function winnerCount(row: RoundRow): number {
+  return row.winners.filter((winner) => winner !== zeroAddress).length;
+}
+
+export type RoundFilters = {
+  outcome: RoundOutcome | "all";
+  /** Inclusive pot bounds in wei. */
+  minPot?: bigint;
+  maxPot?: bigint;
+  /** Inclusive bounds on the round's end time, in unix seconds. */
+  endedAfter?: number;
+  endedBefore?: number;
+};
+
+export const DEFAULT_ROUND_FILTERS: RoundFilters = { outcome: "all" };
+
+export function filterRounds(rows: readonly RoundRow[], filters: RoundFilters): RoundRow[] {
+  return rows.filter(({ summary }) => {
+    if (filters.outcome !== "all" && roundOutcome(summary) !== filters.outcome) return false;
+    const pot = roundPot(summary);
+    if (filters.minPot !== undefined && pot < filters.minPot) return false;
+    if (filters.maxPot !== undefined && pot > filters.maxPot) return false;
+    const endTime = Number(summary.endTime);
+    if (filters.endedAfter !== undefined && endTime < filters.endedAfter) return false;
+    if (filters.endedBefore !== undefined && endTime > filters.endedBefore) return false;
+    return true;
+  });
+}
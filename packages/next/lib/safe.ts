@@ -0,0 +1,75 @@
+/** Safe Transaction Builder batch file, as produced by its "Export" and accepted by its "Load" drop zone. */
+export type SafeBatchFile = {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: {
+    to: `0x${string}`;
+    value: string;
+    data: `0x${string}`;
+  }[];
+};
+
+export type SafeBatchTransaction = {
+  to: `0x${string}`;
+  value: bigint;
+  data: `0x${string}`;
+  /** Human-readable call, e.g. `withdrawFees(1000000000000000000)`; also written into the batch description. */
+  summary: string;
+};
+
+/** The one Safe read the admin page needs: who may sign for it. */
+export const safeOwnersAbi = [
+  {
+    type: "function",
+    name: "getOwners",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address[]" }]
+  }
+] as const;
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+function formatArg(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(formatArg).join(", ")}]`;
+  return String(value);
+}
+
+export function describeCall(functionName: string, args: readonly unknown[] = [], value = 0n): string {
+  const call = `${functionName}(${args.map(formatArg).join(", ")})`;
+  return value > 0n ? `${call} with ${value} wei` : call;
+}
+
+export function buildSafeBatch({
+  chainId,
+  safeAddress,
+  name,
+  transactions
+}: {
+  chainId: number;
+  safeAddress: `0x${string}`;
+  name: string;
+  transactions: readonly SafeBatchTransaction[];
+}): SafeBatchFile {
+  return {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description: transactions.map((tx, index) => `${index + 1}. ${tx.summary}`).join("\n"),
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: ""
+    },
+    transactions: transactions.map((tx) => ({ to: tx.to, value: tx.value.toString(), data: tx.data }))
+  };
+}
@@ -0,0 +1,26 @@
+import { KasRaffleClient } from "@kasraffle/sdk";
+import { cache } from "react";
+import { createPublicClient, http } from "viem";
+
+import { getKasRaffleAddress } from "@/lib/addresses";
+import { kasplexChains } from "@/lib/chains";
+import type { RoundRow } from "@/lib/rounds";
+
+/** Share links carry no chain, so they resolve against mainnet when it is deployed and testnet otherwise. */
+const shareChain = [...kasplexChains].reverse().find((chain) => getKasRaffleAddress(chain.id));
+
+const publicClient = shareChain ? createPublicClient({ chain: shareChain, transport: http() }) : undefined;
+
+/**
+ * Server-side `getRoundSummary` + `getWinners`. Wrapped in `cache` so a page, its metadata
+ * and its OG image share one read per request. Returns `null` for rounds that never opened.
+ */
+export const readRoundServer = cache(async (roundId: bigint): Promise<RoundRow | null> => {
+  const address = shareChain ? getKasRaffleAddress(shareChain.id) : undefined;
+  if (!publicClient || !address) return null;
+
+  const client = new KasRaffleClient({ address, publicClient });
+  const [summary, { winners, prizes }] = await Promise.all([client.getRound(roundId), client.getWinners(roundId)]);
+  if (summary.id === 0n) return null;
+  return { summary, winners, prizes };
+});
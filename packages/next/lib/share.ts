@@ -0,0 +1,85 @@
+import { getAddress, isAddress } from "viem";
+
+import { formatKas, shortAddress } from "@/lib/format";
+import { ROUND_OUTCOME_LABELS, type RoundRow, roundOutcome, roundPot, winnerCount } from "@/lib/rounds";
+
+export function parseRoundParam(value: string): bigint | undefined {
+  if (!/^\d+$/.test(value)) return undefined;
+  const roundId = BigInt(value);
+  return roundId > 0n ? roundId : undefined;
+}
+
+export function parseAddressParam(value: string): `0x${string}` | undefined {
+  return isAddress(value) ? getAddress(value) : undefined;
+}
+
+export function ordinal(position: number): string {
+  const tens = position % 100;
+  if (tens >= 11 && tens <= 13) return `${position}th`;
+  switch (position % 10) {
+    case 1:
+      return `${position}st`;
+    case 2:
+      return `${position}nd`;
+    case 3:
+      return `${position}rd`;
+    default:
+      return `${position}th`;
+  }
+}
+
+export type WinShare = {
+  /** Zero-based tiers this address won; one address can take several. */
+  tiers: number[];
+  prize: bigint;
+};
+
+export function winFor(row: RoundRow, account: `0x${string}`): WinShare | undefined {
+  const lower = account.toLowerCase();
+  const tiers = row.winners.flatMap((winner, tier) => (winner.toLowerCase() === lower ? [tier] : []));
+  if (tiers.length === 0) return undefined;
+  return { tiers, prize: tiers.reduce((sum, tier) => sum + (row.prizes[tier] ?? 0n), 0n) };
+}
+
+export function tierLabel(tiers: number[]): string {
+  return `${tiers.map((tier) => ordinal(tier + 1)).join(" + ")} prize`;
+}
+
+export function roundShareText(row: RoundRow): { title: string; description: string } {
+  const { summary } = row;
+  const id = Number(summary.id);
+  const outcome = roundOutcome(summary);
+  const pot = `${formatKas(roundPot(summary))} KAS`;
+  const tickets = Number(summary.totalTickets).toLocaleString();
+
+  switch (outcome) {
+    case "drawn":
+      return {
+        title: `KASRaffle round #${id}: ${pot} pot`,
+        description: `${winnerCount(row)} prizes shared ${formatKas(summary.winnersShare)} KAS from ${tickets} tickets. ${formatKas(summary.rolloverShare)} KAS rolled into the next round.`
+      };
+    case "refunded":
+    case "refunding":
+      return {
+        title: `KASRaffle round #${id}: refunded`,
+        description: `Only ${tickets} tickets were sold, too few to draw, so every ticket ${outcome === "refunded" ? "was" : "is being"} refunded.`
+      };
+    default:
+      return {
+        title: `KASRaffle round #${id}: ${pot} pot and counting`,
+        description: `${ROUND_OUTCOME_LABELS[outcome]} with ${tickets} tickets sold. Get in before the draw.`
+      };
+  }
+}
+
+export function winShareText(
+  row: RoundRow,
+  account: `0x${string}`,
+  win: WinShare
+): { title: string; description: string } {
+  const id = Number(row.summary.id);
+  return {
+    title: `${shortAddress(account)} won ${formatKas(win.prize)} KAS in KASRaffle round #${id}`,
+    description: `${tierLabel(win.tiers)} from a ${formatKas(roundPot(row.summary))} KAS pot. Provably fair raffles on Kasplex.`
+  };
+}
@@ -0,0 +1,121 @@
+import { type DemandCurve, type ParamsArgs, type SimulationOptions, expectedBuyerDraws } from "@kasraffle/sdk";
+
+export type DemandKind = Exclude<DemandCurve["kind"], "custom">;
+
+export const DEMAND_LABELS: Record<DemandKind, string> = {
+  constant: "Constant",
+  growth: "Steady growth / decline",
+  jackpot: "Chases the jackpot",
+  seasonal: "Seasonal"
+};
+
+/** The simulator form keeps every field as typed text, like `ParamsForm`; the amplitude is a percentage. */
+export type SimulationForm = {
+  demand: DemandKind;
+  buyers: string;
+  ticketsPerBuyer: string;
+  growthBps: string;
+  elasticity: string;
+  amplitude: string;
+  period: string;
+  rounds: string;
+  runs: string;
+  seed: string;
+  withdrawFeesEachRound: boolean;
+  startFromChain: boolean;
+};
+
+export const DEFAULT_SIMULATION_FORM: SimulationForm = {
+  demand: "constant",
+  buyers: "40",
+  ticketsPerBuyer: "5",
+  growthBps: "200",
+  elasticity: "0.5",
+  amplitude: "50",
+  period: "8",
+  rounds: "60",
+  runs: "200",
+  seed: "1",
+  withdrawFeesEachRound: false,
+  startFromChain: true
+};
+
+const MAX_ROUNDS = 365;
+const MAX_RUNS = 1_000;
+/** Expected buyers over every round and run, after demand growth and caps; keeps the main thread to a few seconds. */
+const MAX_BUYER_DRAWS = 5_000_000;
+/** +100% a round already doubles demand every round; more only produces overflowing curves. */
+const MAX_GROWTH_BPS = 10_000;
+
+function parseNumber(label: string, input: string, { min, max }: { min: number; max?: number }): number {
+  const value = Number(input.trim());
+  if (input.trim() === "" || !Number.isFinite(value)) throw new Error(`${label} must be a number.`);
+  if (value < min || (max !== undefined && value > max)) {
+    throw new Error(max === undefined ? `${label} must be at least ${min}.` : `${label} must be ${min}–${max}.`);
+  }
+  return value;
+}
+
+function parseWhole(label: string, input: string, range: { min: number; max?: number }): number {
+  const value = parseNumber(label, input, range);
+  if (!Number.isInteger(value)) throw new Error(`${label} must be a whole number.`);
+  return value;
+}
+
+function demandCurve(form: SimulationForm, buyers: number): DemandCurve {
+  switch (form.demand) {
+    case "constant":
+      return { kind: "constant", buyers };
+    case "growth":
+      return {
+        kind: "growth",
+        buyers,
+        growthBps: parseNumber("Growth", form.growthBps, { min: -10_000, max: MAX_GROWTH_BPS })
+      };
+    case "jackpot":
+      return { kind: "jackpot", buyers, elasticity: parseNumber("Elasticity", form.elasticity, { min: 0 }) };
+    case "seasonal":
+      return {
+        kind: "seasonal",
+        buyers,
+        amplitude: parseNumber("Amplitude", form.amplitude, { min: 0, max: 100 }) / 100,
+        period: parseWhole("Cycle length", form.period, { min: 2 })
+      };
+  }
+}
+
+/** Turns form text into simulator options; `start` is the live contract state to begin from. */
+export function parseSimulationForm(
+  form: SimulationForm,
+  config: ParamsArgs,
+  start?: { rolloverBank: bigint; feesAccrued: bigint }
+): SimulationOptions {
+  const rounds = parseWhole("Rounds", form.rounds, { min: 1, max: MAX_ROUNDS });
+  const runs = parseWhole("Runs", form.runs, { min: 1, max: MAX_RUNS });
+  const buyers = parseNumber("Buyers per round", form.buyers, { min: 0 });
+
+  const options: SimulationOptions = {
+    config,
+    demand: demandCurve(form, buyers),
+    ticketsPerBuyer: parseNumber("Tickets per buyer", form.ticketsPerBuyer, { min: 1 }),
+    rounds,
+    runs,
+    seed: parseWhole("Seed", form.seed, { min: 0, max: 2 ** 32 - 1 }),
+    rolloverBank: form.startFromChain ? start?.rolloverBank : undefined,
+    feesAccrued: form.startFromChain ? start?.feesAccrued : undefined,
+    withdrawFeesEachRound: form.withdrawFeesEachRound
+  };
+  const draws = expectedBuyerDraws(options);
+  if (draws > MAX_BUYER_DRAWS) {
+    throw new Error(
+      `This would simulate about ${Math.round(draws).toLocaleString()} buyers across all rounds and runs; the cap is ${MAX_BUYER_DRAWS.toLocaleString()} to keep the page responsive. Lower the runs, rounds or demand.`
+    );
+  }
+  return options;
+}
+
+/** Player returns and round rates; both are fractions of 1. */
+export function formatPercent(value?: number): string {
+  if (value === undefined) return "--";
+  return `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+}
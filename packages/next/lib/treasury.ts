@@ -0,0 +1,151 @@
+import { kasRaffleAbi } from "@kasraffle/sdk";
+import type { PublicClient } from "viem";
+
+import { RoundStatus } from "@/lib/format";
+import type { RaffleEventLog } from "@/lib/logs";
+
+export type TreasuryState = {
+  balance: bigint;
+  feesAccrued: bigint;
+  rolloverBank: bigint;
+  unclaimedPrizesTotal: bigint;
+  currentRoundId: bigint;
+  currentRoundStatus: number;
+  currentTicketPot: bigint;
+};
+
+export type TreasurySnapshot = TreasuryState & { blockNumber: bigint };
+
+/**
+ * Reads every input of `_totalLiabilities` plus the contract balance at one block, so a
+ * purchase landing between reads cannot show up as a phantom shortfall or excess.
+ */
+export async function readTreasuryState(publicClient: PublicClient, address: `0x${string}`): Promise<TreasurySnapshot> {
+  const contract = { address, abi: kasRaffleAbi } as const;
+  const blockNumber = await publicClient.getBlockNumber();
+  const [balance, feesAccrued, rolloverBank, unclaimedPrizesTotal, currentRoundId, round] = await Promise.all([
+    publicClient.getBalance({ address, blockNumber }),
+    publicClient.readContract({ ...contract, functionName: "feesAccrued", blockNumber }),
+    publicClient.readContract({ ...contract, functionName: "rolloverBank", blockNumber }),
+    publicClient.readContract({ ...contract, functionName: "unclaimedPrizesTotal", blockNumber }),
+    publicClient.readContract({ ...contract, functionName: "currentRoundId", blockNumber }),
+    publicClient.readContract({ ...contract, functionName: "getCurrentRound", blockNumber })
+  ]);
+  return {
+    blockNumber,
+    balance,
+    feesAccrued,
+    rolloverBank,
+    unclaimedPrizesTotal,
+    currentRoundId,
+    currentRoundStatus: Number(round.status),
+    currentTicketPot: round.ticketPot
+  };
+}
+
+export type TreasuryReport = {
+  liabilities: bigint;
+  /** What `sweepExcess` would accept right now. */
+  excess: bigint;
+  shortfall: bigint;
+  isSolvent: boolean;
+};
+
+/** Same terms as `_totalLiabilities`: the live ticket pot only counts while its round is not Closed. */
+export function totalLiabilities(state: TreasuryState): bigint {
+  let liabilities = state.feesAccrued + state.rolloverBank + state.unclaimedPrizesTotal;
+  if (state.currentRoundId !== 0n && state.currentRoundStatus !== RoundStatus.Closed) {
+    liabilities += state.currentTicketPot;
+  }
+  return liabilities;
+}
+
+export function treasuryReport(state: TreasuryState): TreasuryReport {
+  const liabilities = totalLiabilities(state);
+  return {
+    liabilities,
+    excess: state.balance > liabilities ? state.balance - liabilities : 0n,
+    shortfall: liabilities > state.balance ? liabilities - state.balance : 0n,
+    isSolvent: state.balance >= liabilities
+  };
+}
+
+export type TreasuryPoint = {
+  roundId: bigint;
+  fees: bigint;
+  keeperTips: bigint;
+  withdrawn: bigint;
+  rollover: bigint;
+  cumulativeFees: bigint;
+  cumulativeTips: bigint;
+  cumulativeWithdrawn: bigint;
+};
+
+/**
+ * One point per round: fee share and rollover from `RoundReady`, plus `KeeperPaid` and
+ * `FeesWithdrawn` attributed to the round whose lifecycle was in progress when they fired.
+ * `_payKeeper` always runs before `_openNextRound`, so a finalize tip lands on the round it finalized.
+ */
+export function treasurySeries(logs: readonly RaffleEventLog[]): TreasuryPoint[] {
+  const points = new Map<bigint, TreasuryPoint>();
+  const readyRounds = new Set<bigint>();
+  let activeRound = 1n;
+
+  const pointFor = (roundId: bigint) => {
+    let point = points.get(roundId);
+    if (!point) {
+      point = {
+        roundId,
+        fees: 0n,
+        keeperTips: 0n,
+        withdrawn: 0n,
+        rollover: 0n,
+        cumulativeFees: 0n,
+        cumulativeTips: 0n,
+        cumulativeWithdrawn: 0n
+      };
+      points.set(roundId, point);
+    }
+    return point;
+  };
+
+  for (const log of logs) {
+    switch (log.eventName) {
+      case "RoundOpened":
+      case "RefundsQueued":
+      case "DrawingStarted":
+      case "WinnersResolved":
+        activeRound = log.args.roundId;
+        break;
+      case "RoundReady": {
+        activeRound = log.args.roundId;
+        const point = pointFor(activeRound);
+        point.fees += log.args.feeShare;
+        point.rollover = log.args.rolloverShare;
+        readyRounds.add(activeRound);
+        break;
+      }
+      case "KeeperPaid":
+        pointFor(activeRound).keeperTips += log.args.amount;
+        break;
+      case "FeesWithdrawn":
+        pointFor(activeRound).withdrawn += log.args.amount;
+        break;
+    }
+  }
+
+  let cumulativeFees = 0n;
+  let cumulativeTips = 0n;
+  let cumulativeWithdrawn = 0n;
+  let rollover = 0n;
+  return [...points.values()]
+    .sort((a, b) => (a.roundId < b.roundId ? -1 : 1))
+    .map((point) => {
+      cumulativeFees += point.fees;
+      cumulativeTips += point.keeperTips;
+      cumulativeWithdrawn += point.withdrawn;
+      // A round that has not been drawn yet still carries the last rollover forward.
+      if (readyRounds.has(point.roundId)) rollover = point.rollover;
+      return { ...point, rollover, cumulativeFees, cumulativeTips, cumulativeWithdrawn };
+    });
+}
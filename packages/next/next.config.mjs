@@ -1,5 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // The SDK ships TypeScript source, like the other workspace packages.
+  transpilePackages: ["@kasraffle/sdk"],
   experimental: {
     serverActions: true
   }
@@ -0,0 +1,351 @@
+import {
+  type Account,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ContractFunctionReturnType,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+  encodeFunctionData
+} from "viem";
+
+import { kasRaffleAbi } from "./abi";
+import {
+  type Participant,
+  type ParamsArgs,
+  type RaffleConfig,
+  type Round,
+  type RoundStatus,
+  type RoundWinners,
+  toSetParamsArgs
+} from "./types";
+
+type ReadMutability = "view" | "pure";
+type WriteMutability = "nonpayable" | "payable";
+
+export type KasRaffleReadFunction = ContractFunctionName<typeof kasRaffleAbi, ReadMutability>;
+export type KasRaffleWriteFunction = ContractFunctionName<typeof kasRaffleAbi, WriteMutability>;
+
+/** One state-changing call, in the shape `encode`, `simulate` and `write` all accept. */
+export type KasRaffleCall<F extends KasRaffleWriteFunction = KasRaffleWriteFunction> = {
+  functionName: F;
+  args?: ContractFunctionArgs<typeof kasRaffleAbi, WriteMutability, F>;
+  value?: bigint;
+  /** Skips estimation. Draw gas depends on the seed of the mined block, so estimates can under-shoot. */
+  gas?: bigint;
+};
+
+export type KasRaffleClientOptions = {
+  address: Address;
+  publicClient: PublicClient;
+  /** Needed for writes only; its account signs every transaction. */
+  walletClient?: WalletClient;
+};
+
+const CONFIG_GETTERS = [
+  "ticketPrice",
+  "roundDuration",
+  "minTicketsToDraw",
+  "maxParticipants",
+  "maxTicketsPerAddress",
+  "maxTicketsPerRound",
+  "winnersBps",
+  "feeBps",
+  "rolloverBps",
+  "keeperTipWei",
+  "keeperTipMaxWei"
+] as const;
+
+/** `getParticipantsSlice` page size; large enough to keep round trips low, small enough for RPC gas caps. */
+export const PARTICIPANTS_PAGE_SIZE = 500n;
+
+type RawRound = ContractFunctionReturnType<typeof kasRaffleAbi, ReadMutability, "getRoundSummary">;
+
+function toRound(raw: RawRound): Round {
+  return { ...raw, status: raw.status as RoundStatus };
+}
+
+/**
+ * Typed access to one KASRaffle deployment over plain viem clients. Reads need only the
+ * public client; writes simulate first so reverts surface before anything is signed.
+ */
+export class KasRaffleClient {
+  readonly address: Address;
+  readonly abi = kasRaffleAbi;
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient;
+
+  constructor({ address, publicClient, walletClient }: KasRaffleClientOptions) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+  }
+
+  private read<const F extends KasRaffleReadFunction>(
+    functionName: F,
+    ...args: ContractFunctionArgs<typeof kasRaffleAbi, ReadMutability, F> extends readonly []
+      ? []
+      : [ContractFunctionArgs<typeof kasRaffleAbi, ReadMutability, F>]
+  ): Promise<ContractFunctionReturnType<typeof kasRaffleAbi, ReadMutability, F>> {
+    const parameters = { address: this.address, abi: kasRaffleAbi, functionName, args: args[0] };
+    return this.publicClient.readContract(parameters as Parameters<PublicClient["readContract"]>[0]) as Promise<
+      ContractFunctionReturnType<typeof kasRaffleAbi, ReadMutability, F>
+    >;
+  }
+
+  /**
+   * The same read over many argument lists. Uses multicall3 when the chain declares it;
+   * Kasplex chains do not, so there the reads go out concurrently instead.
+   */
+  private async readEach<const F extends KasRaffleReadFunction>(
+    functionName: F,
+    argsList: readonly ContractFunctionArgs<typeof kasRaffleAbi, ReadMutability, F>[]
+  ): Promise<ContractFunctionReturnType<typeof kasRaffleAbi, ReadMutability, F>[]> {
+    type Result = ContractFunctionReturnType<typeof kasRaffleAbi, ReadMutability, F>;
+    if (argsList.length === 0) return [];
+    const contracts = argsList.map((args) => ({ address: this.address, abi: kasRaffleAbi, functionName, args }));
+    if (this.publicClient.chain?.contracts?.multicall3) {
+      const results = await this.publicClient.multicall({
+        contracts: contracts as Parameters<PublicClient["multicall"]>[0]["contracts"],
+        allowFailure: false
+      });
+      return results as Result[];
+    }
+    return Promise.all(
+      contracts.map(
+        (parameters) =>
+          this.publicClient.readContract(parameters as Parameters<PublicClient["readContract"]>[0]) as Promise<Result>
+      )
+    );
+  }
+
+  getCurrentRoundId(): Promise<bigint> {
+    return this.read("currentRoundId");
+  }
+
+  /** A zero struct (`id === 0n`) for rounds that never opened. */
+  async getRound(roundId: bigint): Promise<Round> {
+    return toRound(await this.read("getRoundSummary", [roundId]));
+  }
+
+  async getCurrentRound(): Promise<Round> {
+    return toRound(await this.read("getCurrentRound"));
+  }
+
+  async getRounds(roundIds: readonly bigint[]): Promise<Round[]> {
+    const rounds = await this.readEach(
+      "getRoundSummary",
+      roundIds.map((roundId) => [roundId] as const)
+    );
+    return rounds.map(toRound);
+  }
+
+  getParticipantsCount(roundId: bigint): Promise<bigint> {
+    return this.read("getParticipantsCount", [roundId]);
+  }
+
+  async getParticipantsSlice(roundId: bigint, start: bigint, limit: bigint): Promise<Participant[]> {
+    return [...(await this.read("getParticipantsSlice", [roundId, start, limit]))];
+  }
+
+  /** The full participant list, fetched in `pageSize` slices once the count is known. */
+  async getParticipants(roundId: bigint, pageSize = PARTICIPANTS_PAGE_SIZE): Promise<Participant[]> {
+    const count = await this.getParticipantsCount(roundId);
+    const starts: bigint[] = [];
+    for (let start = 0n; start < count; start += pageSize) starts.push(start);
+    const slices = await this.readEach(
+      "getParticipantsSlice",
+      starts.map((start) => [roundId, start, pageSize] as const)
+    );
+    return slices.flat();
+  }
+
+  async getWinners(roundId: bigint): Promise<RoundWinners> {
+    const [winners, prizes] = await this.read("getWinners", [roundId]);
+    return { winners, prizes };
+  }
+
+  async getWinnersForRounds(roundIds: readonly bigint[]): Promise<RoundWinners[]> {
+    const results = await this.readEach(
+      "getWinners",
+      roundIds.map((roundId) => [roundId] as const)
+    );
+    return results.map(([winners, prizes]) => ({ winners, prizes }));
+  }
+
+  async getWinningTicketIndices(roundId: bigint): Promise<readonly bigint[]> {
+    return this.read("winningTicketIndices", [roundId]);
+  }
+
+  claimable(roundId: bigint, account: Address): Promise<bigint> {
+    return this.read("claimable", [roundId, account]);
+  }
+
+  claimableForRounds(roundIds: readonly bigint[], account: Address): Promise<bigint[]> {
+    return this.readEach(
+      "claimable",
+      roundIds.map((roundId) => [roundId, account] as const)
+    );
+  }
+
+  getTicketPrice(): Promise<bigint> {
+    return this.read("ticketPrice");
+  }
+
+  async getTierBps(): Promise<number[]> {
+    return [...(await this.read("getTierBps"))];
+  }
+
+  /** Everything `setParams` takes, so the result can be edited and passed straight back. */
+  async getConfig(): Promise<RaffleConfig> {
+    const [values, tierBps] = await Promise.all([
+      Promise.all(CONFIG_GETTERS.map((functionName) => this.read(functionName))),
+      this.getTierBps()
+    ]);
+    const [
+      ticketPrice,
+      roundDuration,
+      minTicketsToDraw,
+      maxParticipants,
+      maxTicketsPerAddress,
+      maxTicketsPerRound,
+      winnersBps,
+      feeBps,
+      rolloverBps,
+      keeperTipWei,
+      keeperTipMaxWei
+    ] = values;
+    return {
+      ticketPrice: BigInt(ticketPrice),
+      roundDuration: BigInt(roundDuration),
+      minTicketsToDraw: BigInt(minTicketsToDraw),
+      maxParticipants: BigInt(maxParticipants),
+      maxTicketsPerAddress: BigInt(maxTicketsPerAddress),
+      maxTicketsPerRound: BigInt(maxTicketsPerRound),
+      winnersBps: Number(winnersBps),
+      feeBps: Number(feeBps),
+      rolloverBps: Number(rolloverBps),
+      keeperTipWei: BigInt(keeperTipWei),
+      keeperTipMaxWei: BigInt(keeperTipMaxWei),
+      tierBps
+    };
+  }
+
+  isPaused(): Promise<boolean> {
+    return this.read("paused");
+  }
+
+  getOwner(): Promise<Address> {
+    return this.read("owner");
+  }
+
+  /** Fees `withdrawFees` can send to the fee vault. */
+  getFeesAccrued(): Promise<bigint> {
+    return this.read("feesAccrued");
+  }
+
+  /** Rollover waiting to seed the next round. */
+  getRolloverBank(): Promise<bigint> {
+    return this.read("rolloverBank");
+  }
+
+  /** Calldata for `call`, e.g. to queue it in a Safe batch rather than send it. */
+  encode(call: KasRaffleCall): Hex {
+    const parameters = { abi: kasRaffleAbi, functionName: call.functionName, args: call.args ?? [] };
+    return encodeFunctionData(parameters as Parameters<typeof encodeFunctionData>[0]);
+  }
+
+  /** Dry-runs `call` as `account` (the wallet's by default) and throws the revert if it would fail. */
+  async simulate(call: KasRaffleCall, account?: Account | Address): Promise<void> {
+    const from = account ?? this.walletClient?.account;
+    if (!from) throw new Error("KasRaffleClient: simulate needs an account or a wallet client");
+    await this.publicClient.simulateContract(this.callParameters(call, from));
+  }
+
+  /** Gas estimate for `call` as `account` (the wallet's by default). */
+  estimateGas(call: KasRaffleCall, account?: Account | Address): Promise<bigint> {
+    const from = account ?? this.walletClient?.account;
+    if (!from) throw new Error("KasRaffleClient: estimateGas needs an account or a wallet client");
+    return this.publicClient.estimateContractGas(
+      this.callParameters(call, from) as Parameters<PublicClient["estimateContractGas"]>[0]
+    );
+  }
+
+  /** Simulates, then signs and sends `call` from the wallet client. Resolves to the transaction hash. */
+  async write(call: KasRaffleCall): Promise<Hex> {
+    const { walletClient } = this;
+    if (!walletClient?.account) throw new Error("KasRaffleClient: writes need a wallet client with an account");
+    const { request } = await this.publicClient.simulateContract(this.callParameters(call, walletClient.account));
+    return walletClient.writeContract(request as Parameters<WalletClient["writeContract"]>[0]);
+  }
+
+  private callParameters(call: KasRaffleCall, account: Account | Address) {
+    return {
+      address: this.address,
+      abi: kasRaffleAbi,
+      functionName: call.functionName,
+      args: call.args,
+      value: call.value,
+      gas: call.gas,
+      account,
+      chain: this.walletClient?.chain ?? this.publicClient.chain
+    } as Parameters<PublicClient["simulateContract"]>[0];
+  }
+
+  /** Tickets are bought by value: `value / ticketPrice` tickets, with the remainder refunded in the same call. */
+  buyTickets(value: bigint): Promise<Hex> {
+    return this.write({ functionName: "buyTickets", value });
+  }
+
+  closeRound(gas?: bigint): Promise<Hex> {
+    return this.write({ functionName: "closeRound", gas });
+  }
+
+  /** Assigns up to `maxSteps` winners; call again until the round leaves `Drawing`. */
+  finalizeRound(maxSteps: bigint, gas?: bigint): Promise<Hex> {
+    return this.write({ functionName: "finalizeRound", args: [maxSteps], gas });
+  }
+
+  /** Pays up to `maxSteps` participants of a `Refunding` round back what they spent, straight to their address. */
+  finalizeRefunds(roundId: bigint, maxSteps: bigint, gas?: bigint): Promise<Hex> {
+    return this.write({ functionName: "finalizeRefunds", args: [roundId, maxSteps], gas });
+  }
+
+  claim(roundId: bigint): Promise<Hex> {
+    return this.write({ functionName: "claim", args: [roundId] });
+  }
+
+  setParams(params: ParamsArgs): Promise<Hex> {
+    return this.write({ functionName: "setParams", args: toSetParamsArgs(params) });
+  }
+
+  /** Sends `amount` of accrued fees to the fee vault. */
+  withdrawFees(amount: bigint): Promise<Hex> {
+    return this.write({ functionName: "withdrawFees", args: [amount] });
+  }
+
+  setFeeVault(vault: Address): Promise<Hex> {
+    return this.write({ functionName: "setFeeVault", args: [vault] });
+  }
+
+  pause(): Promise<Hex> {
+    return this.write({ functionName: "pause" });
+  }
+
+  unpause(): Promise<Hex> {
+    return this.write({ functionName: "unpause" });
+  }
+
+  sweepExcess(to: Address, amount: bigint): Promise<Hex> {
+    return this.write({ functionName: "sweepExcess", args: [to, amount] });
+  }
+
+  transferOwnership(newOwner: Address): Promise<Hex> {
+    return this.write({ functionName: "transferOwnership", args: [newOwner] });
+  }
+
+  renounceOwnership(): Promise<Hex> {
+    return this.write({ functionName: "renounceOwnership" });
+  }
+}
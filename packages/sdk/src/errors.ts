@@ -0,0 +1,48 @@
+import { BaseError, ContractFunctionRevertedError, InsufficientFundsError, UserRejectedRequestError } from "viem";
+
+export type ErrorExplanations = Partial<Record<string, string | ((args: readonly unknown[]) => string)>>;
+
+const EXPLANATIONS: ErrorExplanations = {
+  ErrCapExceeded: "This purchase would exceed a round cap: tickets per round, tickets per address or participants.",
+  ErrRoundNotOpen: "The round is no longer open. It is being drawn or refunded; the next round opens right after.",
+  ErrRoundNotReady: "The round can't be closed yet: its timer has not run out, or no tickets have been sold.",
+  ErrRoundNotDrawing: "There is nothing to finalize: the round is not drawing winners.",
+  ErrRoundNotRefunding: "That round is not refunding.",
+  ErrNothingToClaim: "Nothing to claim for this round: no prize is owed, it was already claimed, or the round is not closed.",
+  ErrTransferFailed: "A KAS transfer failed because the recipient rejected the payment.",
+  ErrInvalidParams: "The contract rejected the supplied values.",
+  EnforcedPause: "The raffle is paused by the owner. Try again once it resumes.",
+  ExpectedPause: "The raffle is not paused.",
+  OwnableUnauthorizedAccount: ([account]) => `Only the contract owner can do this; ${String(account)} is not the owner.`,
+  OwnableInvalidOwner: ([owner]) => `${String(owner)} cannot become the owner. Use renounce to give up ownership.`
+};
+
+/** A check that failed before anything was simulated or sent. Its message is already user-facing. */
+export class PreflightError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreflightError";
+  }
+}
+
+/** Turns wallet, RPC and revert errors into a sentence a buyer can act on. */
+export function describeContractError(error: unknown, overrides: ErrorExplanations = {}): string {
+  if (error instanceof PreflightError) return error.message;
+  if (!(error instanceof BaseError)) return error instanceof Error ? error.message : "Transaction failed";
+
+  if (error.walk((cause) => cause instanceof UserRejectedRequestError)) return "Request rejected in wallet.";
+  if (error.walk((cause) => cause instanceof InsufficientFundsError)) {
+    return "Insufficient KAS to cover the transaction value and gas.";
+  }
+
+  const reverted = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    const errorName = reverted.data?.errorName;
+    const explanation = errorName ? overrides[errorName] ?? EXPLANATIONS[errorName] : undefined;
+    if (typeof explanation === "function") return explanation(reverted.data?.args ?? []);
+    if (explanation) return explanation;
+    if (reverted.reason) return reverted.reason;
+  }
+
+  return error.shortMessage;
+}
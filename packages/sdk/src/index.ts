@@ -0,0 +1,71 @@
+export { kasRaffleAbi } from "./abi";
+export {
+  KasRaffleClient,
+  PARTICIPANTS_PAGE_SIZE,
+  type KasRaffleCall,
+  type KasRaffleClientOptions,
+  type KasRaffleReadFunction,
+  type KasRaffleWriteFunction
+} from "./client";
+export { PreflightError, describeContractError, type ErrorExplanations } from "./errors";
+export { BPS_DENOM, keeperTip, splitPot, tierPrizes, type PotSplit } from "./math";
+export {
+  AmountError,
+  KAS_DECIMALS,
+  formatAmount,
+  formatFiat,
+  formatKas,
+  parseAmount,
+  parseKas,
+  roundAmount,
+  toFiat,
+  tryParseAmount,
+  type AmountErrorReason,
+  type FiatRate,
+  type FormatAmountOptions,
+  type ParseAmountOptions,
+  type RoundingMode
+} from "./money";
+export {
+  MIN_ROUND_DURATION,
+  PARAM_LABELS,
+  PRESET_VERSION,
+  PresetError,
+  diffParams,
+  formatParam,
+  parsePreset,
+  roundImpact,
+  serializePreset,
+  validateParams,
+  type ParamChange,
+  type ParamIssue,
+  type ParamKey,
+  type ParamsPreset,
+  type RoundSnapshot
+} from "./params";
+export { isRefund, roundOutcome, roundPot, type RoundOutcome } from "./rounds";
+export {
+  createRandom,
+  distribution,
+  expectedBuyerDraws,
+  simulateRaffle,
+  simulateRun,
+  type DemandContext,
+  type DemandCurve,
+  type Distribution,
+  type RoundStats,
+  type SimulatedRound,
+  type SimulationOptions,
+  type SimulationResult,
+  type SimulationSummary
+} from "./simulator";
+export {
+  RoundStatus,
+  roundStatusName,
+  toSetParamsArgs,
+  type ParamsArgs,
+  type Participant,
+  type RaffleConfig,
+  type Round,
+  type RoundWinners
+} from "./types";
@@ -0,0 +1,31 @@
+import type { RaffleConfig } from "./types";
+
+/** `KASRaffle.DENOM`: every share and tier is in basis points of this. */
+export const BPS_DENOM = 10_000n;
+
+export type PotSplit = { winnersShare: bigint; feeShare: bigint; rolloverShare: bigint };
+
+/** Same rounding as `closeRound`: rollover takes the remainder, so it absorbs the dust. */
+export function splitPot(pot: bigint, winnersBps: number, feeBps: number): PotSplit {
+  const winnersShare = (pot * BigInt(winnersBps)) / BPS_DENOM;
+  const feeShare = (pot * BigInt(feeBps)) / BPS_DENOM;
+  return { winnersShare, feeShare, rolloverShare: pot - winnersShare - feeShare };
+}
+
+/** Splits `winnersShare` across tiers exactly like `finalizeRound`: the last tier takes the rounding remainder. */
+export function tierPrizes(winnersShare: bigint, tierBps: readonly number[]): bigint[] {
+  let allocated = 0n;
+  return tierBps.map((bps, index) => {
+    const prize = index === tierBps.length - 1 ? winnersShare - allocated : (winnersShare * BigInt(bps)) / BPS_DENOM;
+    allocated += prize;
+    return prize;
+  });
+}
+
+/** What `_payKeeper` pays out of `feesAccrued`; zero once the fees run dry. */
+export function keeperTip(config: Pick<RaffleConfig, "keeperTipWei" | "keeperTipMaxWei">, feesAccrued: bigint): bigint {
+  let tip = config.keeperTipWei;
+  if (tip > config.keeperTipMaxWei) tip = config.keeperTipMaxWei;
+  if (tip > feesAccrued) tip = feesAccrued;
+  return tip;
+}
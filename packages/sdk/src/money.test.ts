@@ -0,0 +1,257 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import {
+  AmountError,
+  type AmountErrorReason,
+  type RoundingMode,
+  formatAmount,
+  formatFiat,
+  formatKas,
+  parseAmount,
+  parseKas,
+  roundAmount,
+  toFiat,
+  tryParseAmount
+} from "./money";
+
+const KAS = 10n ** 18n;
+/** Wei for a decimal KAS string, without going through the code under test. */
+const wei = (kas: string) => {
+  const [whole, fraction = ""] = kas.split(".");
+  return BigInt(whole) * KAS + BigInt(fraction.padEnd(18, "0"));
+};
+const en = { locale: "en-US" } as const;
+
+function assertRejects(input: string, reason: AmountErrorReason, message?: string, options = {}) {
+  assert.throws(
+    () => parseKas(input, options),
+    (error: unknown) => {
+      assert.ok(error instanceof AmountError, `expected AmountError for ${JSON.stringify(input)}`);
+      assert.equal(error.reason, reason);
+      if (message) assert.equal(error.message, message);
+      return true;
+    }
+  );
+}
+
+describe("formatKas", () => {
+  test("keeps every digit above 2^53", () => {
+    const value = 2n ** 53n * KAS + 1n * KAS + wei("0.123456789012345678");
+    assert.equal(formatKas(value, { ...en, maxFractionDigits: 18 }), "9,007,199,254,740,993.123456789012345678");
+    assert.equal(formatKas(123_456_789_012_345_678_901_234_567n, en), "123,456,789.01");
+    const huge = 2n ** 255n;
+    const rounded = (huge % KAS) * 2n >= KAS ? huge / KAS + 1n : huge / KAS;
+    assert.equal(formatKas(huge, { ...en, grouping: false, maxFractionDigits: 0 }), rounded.toString());
+  });
+
+  test("formats zero and one wei", () => {
+    assert.equal(formatKas(0n, en), "0");
+    assert.equal(formatKas(0n, { ...en, minFractionDigits: 2 }), "0.00");
+    assert.equal(formatKas(1n, en), "0");
+    assert.equal(formatKas(1n, { ...en, maxFractionDigits: 18 }), "0.000000000000000001");
+  });
+
+  test("trims trailing zeros down to minFractionDigits", () => {
+    assert.equal(formatKas(wei("1.5"), { ...en, maxFractionDigits: 4 }), "1.5");
+    assert.equal(formatKas(wei("1.5"), { ...en, maxFractionDigits: 4, minFractionDigits: 3 }), "1.500");
+    assert.equal(formatKas(wei("1"), { ...en, minFractionDigits: 5 }), "1.00", "min is capped at max");
+  });
+
+  test("formats negative values and drops the sign when they round to zero", () => {
+    assert.equal(formatKas(-wei("1234.5"), en), "-1,234.5");
+    assert.equal(formatKas(-wei("0.001"), en), "0");
+    assert.equal(formatKas(-1n, { ...en, maxFractionDigits: 18 }), "-0.000000000000000001");
+  });
+
+  test("uses the locale's separators but ASCII digits", () => {
+    assert.equal(formatKas(wei("1234567.89"), { locale: "de-DE" }), "1.234.567,89");
+    assert.equal(formatKas(wei("1234567.89"), { ...en, grouping: false }), "1234567.89");
+  });
+
+  test("rejects invalid digit counts", () => {
+    assert.throws(() => formatKas(1n, { maxFractionDigits: -1 }), RangeError);
+    assert.throws(() => formatAmount(1n, { decimals: 1.5 }), RangeError);
+  });
+});
+
+describe("rounding modes", () => {
+  // Each row: value, then the two-decimal result per mode.
+  const cases: [string, Record<RoundingMode, string>][] = [
+    ["1.234", { trunc: "1.23", floor: "1.23", ceil: "1.24", expand: "1.24", halfExpand: "1.23", halfEven: "1.23" }],
+    ["1.235", { trunc: "1.23", floor: "1.23", ceil: "1.24", expand: "1.24", halfExpand: "1.24", halfEven: "1.24" }],
+    ["1.245", { trunc: "1.24", floor: "1.24", ceil: "1.25", expand: "1.25", halfExpand: "1.25", halfEven: "1.24" }],
+    ["1.2451", { trunc: "1.24", floor: "1.24", ceil: "1.25", expand: "1.25", halfExpand: "1.25", halfEven: "1.25" }],
+    [
+      "-1.235",
+      { trunc: "-1.23", floor: "-1.24", ceil: "-1.23", expand: "-1.24", halfExpand: "-1.24", halfEven: "-1.24" }
+    ],
+    [
+      "-1.245",
+      { trunc: "-1.24", floor: "-1.25", ceil: "-1.24", expand: "-1.25", halfExpand: "-1.25", halfEven: "-1.24" }
+    ],
+    ["1.23", { trunc: "1.23", floor: "1.23", ceil: "1.23", expand: "1.23", halfExpand: "1.23", halfEven: "1.23" }]
+  ];
+
+  for (const [input, expected] of cases) {
+    for (const [mode, output] of Object.entries(expected) as [RoundingMode, string][]) {
+      test(`${mode} rounds ${input} to ${output}`, () => {
+        const value = input.startsWith("-") ? -wei(input.slice(1)) : wei(input);
+        assert.equal(formatKas(value, { ...en, rounding: mode }), output);
+      });
+    }
+  }
+
+  test("defaults to halfExpand", () => {
+    assert.equal(formatKas(wei("0.005"), en), "0.01");
+    assert.equal(formatKas(wei("0.0049999"), en), "0");
+  });
+
+  test("carries into the integer part", () => {
+    assert.equal(formatKas(wei("999.995"), en), "1,000");
+    assert.equal(formatKas(wei("9.9999"), { ...en, rounding: "ceil" }), "10");
+    assert.equal(formatKas(-wei("9.991"), { ...en, rounding: "floor" }), "-10");
+  });
+
+  test("roundAmount rescales in both directions", () => {
+    assert.equal(roundAmount(12345n, 2, 4), 1234500n);
+    assert.equal(roundAmount(12345n, 4, 2, "trunc"), 123n);
+    assert.equal(roundAmount(12350n, 4, 2, "halfEven"), 124n);
+    assert.equal(roundAmount(-12350n, 4, 2, "halfExpand"), -124n);
+  });
+});
+
+describe("compact notation", () => {
+  const compact = { ...en, notation: "compact" } as const;
+
+  test("picks the K, M, B and T suffixes", () => {
+    assert.equal(formatKas(wei("999"), compact), "999");
+    assert.equal(formatKas(wei("1000"), compact), "1K");
+    assert.equal(formatKas(wei("1234"), compact), "1.2K");
+    assert.equal(formatKas(wei("12345678"), compact), "12.3M");
+    assert.equal(formatKas(wei("4500000000"), compact), "4.5B");
+    assert.equal(formatKas(wei("7800000000000"), compact), "7.8T");
+  });
+
+  test("stays in trillions past the last suffix", () => {
+    assert.equal(formatKas(wei("5000000000000000"), compact), "5,000T");
+  });
+
+  test("carries into the next suffix when rounding reaches 1000", () => {
+    assert.equal(formatKas(wei("999960"), compact), "1M");
+    assert.equal(formatKas(wei("999949"), compact), "999.9K");
+    assert.equal(formatKas(wei("999.96"), compact), "1K");
+    assert.equal(formatKas(wei("999999999"), compact), "1B");
+    assert.equal(formatKas(wei("999960"), { ...compact, rounding: "trunc" }), "999.9K");
+  });
+
+  test("keeps the sign and small values", () => {
+    assert.equal(formatKas(-wei("1234"), compact), "-1.2K");
+    assert.equal(formatKas(wei("0.25"), compact), "0.3");
+    assert.equal(formatKas(0n, compact), "0");
+  });
+
+  test("honours maxFractionDigits", () => {
+    assert.equal(formatKas(wei("1234567"), { ...compact, maxFractionDigits: 3 }), "1.235M");
+    assert.equal(formatKas(wei("1234567"), { ...compact, maxFractionDigits: 0 }), "1M");
+  });
+});
+
+describe("parseKas", () => {
+  test("parses plain decimals exactly", () => {
+    assert.equal(parseKas("1"), KAS);
+    assert.equal(parseKas("1.5"), wei("1.5"));
+    assert.equal(parseKas(".5"), wei("0.5"));
+    assert.equal(parseKas("2."), wei("2"));
+    assert.equal(parseKas("  0.000000000000000001  "), 1n);
+    assert.equal(parseKas("9007199254740993.123456789012345678"), wei("9007199254740993.123456789012345678"));
+    assert.equal(parseKas("1.5000000000000000000000"), wei("1.5"), "trailing zeros beyond 18 places are exact");
+  });
+
+  test("rejects empty input", () => {
+    assertRejects("", "empty", "Amount is required.");
+    assertRejects("   ", "empty");
+  });
+
+  test("rejects more than 18 decimal places", () => {
+    assertRejects("0.0000000000000000001", "precision", "Amount allows at most 18 decimal places.");
+    assert.throws(() => parseAmount("1.234", { decimals: 2 }), /at most 2 decimal places/);
+  });
+
+  test("rejects exponent notation", () => {
+    assertRejects("1e18", "format");
+    assertRejects("1E-3", "format");
+    assertRejects("0x10", "format");
+  });
+
+  test("rejects negative input", () => {
+    assertRejects("-1", "negative", "Amount cannot be negative.");
+    assertRejects("-.5", "negative");
+    assertRejects("- 2", "negative");
+  });
+
+  test("rejects stray characters and separators", () => {
+    for (const input of ["abc", "1,000", "1 000", "1.2.3", ".", "+1", "1_000", "12kas", "٣"]) {
+      assertRejects(input, "format", "Amount must be a number like 1.5, without separators.");
+    }
+  });
+
+  test("rejects zero unless allowZero", () => {
+    assertRejects("0", "zero", "Amount must be more than 0 KAS.");
+    assertRejects("0.000", "zero");
+    assert.equal(parseKas("0", { allowZero: true }), 0n);
+    assert.equal(parseKas("0.0", { allowZero: true }), 0n);
+  });
+
+  test("enforces min and max", () => {
+    assertRejects("0.5", "min", "Amount must be at least 1 KAS.", { min: KAS });
+    assertRejects("10.000000000000000001", "max", "Amount must be at most 10 KAS.", { max: 10n * KAS });
+    assert.equal(parseKas("10", { max: 10n * KAS }), 10n * KAS);
+  });
+
+  test("names the field in every message", () => {
+    assertRejects("", "empty", "Withdrawal is required.", { label: "Withdrawal" });
+    assertRejects("1e3", "format", "--amount must be a number like 1.5, without separators.", { label: "--amount" });
+    assertRejects("0", "zero", "Ticket price must be more than 0 KAS.", { label: "Ticket price" });
+  });
+
+  test("parseAmount takes other decimals and units", () => {
+    assert.equal(parseAmount("12.34", { decimals: 2 }), 1234n);
+    assert.equal(parseAmount("7", { decimals: 0 }), 7n);
+    assert.throws(() => parseAmount("0", { decimals: 6, unit: "USDC" }), /more than 0 USDC/);
+  });
+
+  test("tryParseAmount returns undefined instead of throwing", () => {
+    assert.equal(tryParseAmount("1.5"), wei("1.5"));
+    assert.equal(tryParseAmount("1e3"), undefined);
+    assert.equal(tryParseAmount(""), undefined);
+    assert.equal(tryParseAmount("0"), undefined);
+    assert.equal(tryParseAmount("0", { allowZero: true }), 0n);
+  });
+
+  test("round-trips with formatKas", () => {
+    for (const value of [1n, wei("0.1"), wei("123456789.987654321"), 2n ** 200n]) {
+      const text = formatKas(value, { ...en, grouping: false, maxFractionDigits: 18 });
+      assert.equal(parseKas(text), value);
+    }
+  });
+});
+
+describe("fiat", () => {
+  test("converts exactly", () => {
+    assert.equal(toFiat(wei("3"), { currency: "USD", perKas: "0.1" }), wei("0.3"));
+    assert.equal(toFiat(2n ** 60n * KAS, { currency: "USD", perKas: "2" }), 2n ** 61n * KAS);
+  });
+
+  test("uses the currency's symbol and minor units", () => {
+    assert.equal(formatFiat(wei("1234"), { currency: "USD", perKas: "0.1234" }, en), "$152.28");
+    assert.equal(formatFiat(wei("2"), { currency: "JPY", perKas: "15.5" }, en), "¥31");
+    assert.equal(formatFiat(0n, { currency: "USD", perKas: "0.1" }, en), "$0.00");
+    assert.equal(formatFiat(-wei("2"), { currency: "USD", perKas: "1" }, en), "-$2.00");
+    assert.equal(formatFiat(wei("2000000"), { currency: "USD", perKas: "1" }, { ...en, notation: "compact" }), "$2M");
+  });
+
+  test("rejects a malformed rate", () => {
+    assert.throws(() => toFiat(KAS, { currency: "USD", perKas: "1e-7" }), /USD rate must be a number/);
+  });
+});
@@ -0,0 +1,274 @@
+/** KAS, like ether, has 18 decimals: amounts on-chain are wei-sized bigints. */
+export const KAS_DECIMALS = 18;
+
+/** Same names as `Intl.NumberFormat`'s `roundingMode`; "halfExpand" is the usual round-half-away-from-zero. */
+export type RoundingMode = "trunc" | "floor" | "ceil" | "expand" | "halfExpand" | "halfEven";
+
+export type FormatAmountOptions = {
+  /** Decimals of `value`; defaults to `KAS_DECIMALS`. */
+  decimals?: number;
+  /** Defaults to 2, or 1 in compact notation. */
+  maxFractionDigits?: number;
+  minFractionDigits?: number;
+  rounding?: RoundingMode;
+  /** "compact" scales by thousands and appends K, M, B or T. */
+  notation?: "standard" | "compact";
+  /** Thousands separators; on by default. */
+  grouping?: boolean;
+  /** Only the group and decimal separators are localised; digits are always 0–9. Defaults to the runtime locale. */
+  locale?: string | string[];
+};
+
+export type AmountErrorReason = "empty" | "format" | "negative" | "precision" | "zero" | "min" | "max";
+
+/** Thrown by `parseAmount` and `parseKas`. Its message is user-facing; `reason` is for code that needs to branch. */
+export class AmountError extends Error {
+  constructor(
+    message: string,
+    readonly reason: AmountErrorReason
+  ) {
+    super(message);
+    this.name = "AmountError";
+  }
+}
+
+export type ParseAmountOptions = {
+  /** Names the field in error messages; defaults to "Amount". */
+  label?: string;
+  /** Decimals of the result; defaults to `KAS_DECIMALS`. */
+  decimals?: number;
+  /** Unit shown in error messages, e.g. "KAS". */
+  unit?: string;
+  /** Zero is rejected unless this is set. */
+  allowZero?: boolean;
+  min?: bigint;
+  max?: bigint;
+};
+
+/** A fiat price for 1 KAS. `perKas` is a decimal string so the conversion stays exact. */
+export type FiatRate = { currency: string; perKas: string };
+
+const COMPACT_SUFFIXES = ["", "K", "M", "B", "T"] as const;
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+function checkDecimals(decimals: number, label: string) {
+  if (!Number.isInteger(decimals) || decimals < 0) throw new RangeError(`${label} must be a non-negative integer`);
+}
+
+/** Rescales `value` from `from` to `to` decimals, rounding the dropped digits with `mode`. */
+export function roundAmount(value: bigint, from: number, to: number, mode: RoundingMode = "halfExpand"): bigint {
+  if (to >= from) return value * pow10(to - from);
+
+  const divisor = pow10(from - to);
+  const negative = value < 0n;
+  const magnitude = negative ? -value : value;
+  const quotient = magnitude / divisor;
+  const remainder = magnitude % divisor;
+
+  let roundUp = false;
+  if (remainder > 0n) {
+    switch (mode) {
+      case "trunc":
+        break;
+      case "floor":
+        roundUp = negative;
+        break;
+      case "ceil":
+        roundUp = !negative;
+        break;
+      case "expand":
+        roundUp = true;
+        break;
+      case "halfExpand":
+        roundUp = remainder * 2n >= divisor;
+        break;
+      case "halfEven":
+        roundUp = remainder * 2n > divisor || (remainder * 2n === divisor && quotient % 2n === 1n);
+        break;
+    }
+  }
+
+  const rounded = roundUp ? quotient + 1n : quotient;
+  return negative ? -rounded : rounded;
+}
+
+const separatorCache = new Map<string, { group: string; decimal: string }>();
+
+function separators(locale?: string | string[]) {
+  const key = locale === undefined ? "" : String(locale);
+  let cached = separatorCache.get(key);
+  if (!cached) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(1000.5);
+    cached = {
+      group: parts.find((part) => part.type === "group")?.value ?? ",",
+      decimal: parts.find((part) => part.type === "decimal")?.value ?? "."
+    };
+    separatorCache.set(key, cached);
+  }
+  return cached;
+}
+
+/** Formats a magnitude already scaled to `digits` decimals. */
+function digitsToString(
+  scaled: bigint,
+  digits: number,
+  minFractionDigits: number,
+  grouping: boolean,
+  locale?: string | string[]
+): string {
+  const { group, decimal } = separators(locale);
+  let integer = (scaled / pow10(digits)).toString();
+  let fraction = digits > 0 ? (scaled % pow10(digits)).toString().padStart(digits, "0") : "";
+
+  let end = fraction.length;
+  while (end > minFractionDigits && fraction[end - 1] === "0") end -= 1;
+  fraction = fraction.slice(0, end);
+
+  if (grouping) integer = integer.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  return fraction ? `${integer}${decimal}${fraction}` : integer;
+}
+
+/**
+ * Formats a fixed-point bigint exactly: no `Number` round trip, so large pots keep every digit.
+ * Negative values get a leading "-" unless they round to zero.
+ */
+export function formatAmount(value: bigint, options: FormatAmountOptions = {}): string {
+  const decimals = options.decimals ?? KAS_DECIMALS;
+  const compact = options.notation === "compact";
+  const maxFractionDigits = options.maxFractionDigits ?? (compact ? 1 : 2);
+  const minFractionDigits = Math.min(options.minFractionDigits ?? 0, maxFractionDigits);
+  const rounding = options.rounding ?? "halfExpand";
+  const grouping = options.grouping ?? true;
+  checkDecimals(decimals, "decimals");
+  checkDecimals(maxFractionDigits, "maxFractionDigits");
+  checkDecimals(minFractionDigits, "minFractionDigits");
+
+  const magnitude = value < 0n ? -value : value;
+  let unit = 0;
+  if (compact) {
+    const whole = magnitude / pow10(decimals);
+    while (unit < COMPACT_SUFFIXES.length - 1 && whole >= pow10(3 * (unit + 1))) unit += 1;
+  }
+
+  // Rounds the signed value so "floor" and "ceil" go the right way for negatives.
+  const round = () => roundAmount(value, decimals + 3 * unit, maxFractionDigits, rounding);
+  let scaled = round();
+  // 999.96K rounds up to 1,000.0K; show it as 1M instead.
+  if (
+    compact &&
+    unit < COMPACT_SUFFIXES.length - 1 &&
+    (scaled < 0n ? -scaled : scaled) >= pow10(3 + maxFractionDigits)
+  ) {
+    unit += 1;
+    scaled = round();
+  }
+
+  const sign = scaled < 0n ? "-" : "";
+  const digits = digitsToString(
+    scaled < 0n ? -scaled : scaled,
+    maxFractionDigits,
+    minFractionDigits,
+    grouping,
+    options.locale
+  );
+  return `${sign}${digits}${COMPACT_SUFFIXES[unit]}`;
+}
+
+/** `formatAmount` for wei amounts. */
+export function formatKas(value: bigint, options: Omit<FormatAmountOptions, "decimals"> = {}): string {
+  return formatAmount(value, { ...options, decimals: KAS_DECIMALS });
+}
+
+/**
+ * Strict decimal parsing for user input: digits with at most one ".", no signs, exponents or separators,
+ * and no more fraction digits than `decimals`. Throws `AmountError` instead of rounding or guessing.
+ */
+export function parseAmount(input: string, options: ParseAmountOptions = {}): bigint {
+  const label = options.label ?? "Amount";
+  const decimals = options.decimals ?? KAS_DECIMALS;
+  const unit = options.unit ? ` ${options.unit}` : "";
+  checkDecimals(decimals, "decimals");
+
+  const text = input.trim();
+  if (text === "") throw new AmountError(`${label} is required.`, "empty");
+  if (/^-\s*[\d.]/.test(text)) throw new AmountError(`${label} cannot be negative.`, "negative");
+
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new AmountError(`${label} must be a number like 1.5, without separators.`, "format");
+  }
+
+  const integer = match[1] || "0";
+  const fraction = match[2] ?? "";
+  if (fraction.replace(/0+$/, "").length > decimals) {
+    throw new AmountError(`${label} allows at most ${decimals} decimal places.`, "precision");
+  }
+
+  const value = BigInt(integer) * pow10(decimals) + BigInt(fraction.slice(0, decimals).padEnd(decimals, "0") || "0");
+  const display = (amount: bigint) => `${formatAmount(amount, { decimals, maxFractionDigits: decimals })}${unit}`;
+
+  if (value === 0n && !options.allowZero) throw new AmountError(`${label} must be more than 0${unit}.`, "zero");
+  if (options.min !== undefined && value < options.min) {
+    throw new AmountError(`${label} must be at least ${display(options.min)}.`, "min");
+  }
+  if (options.max !== undefined && value > options.max) {
+    throw new AmountError(`${label} must be at most ${display(options.max)}.`, "max");
+  }
+  return value;
+}
+
+/** `parseAmount` for KAS input, returning wei. */
+export function parseKas(input: string, options: Omit<ParseAmountOptions, "decimals" | "unit"> = {}): bigint {
+  return parseAmount(input, { ...options, decimals: KAS_DECIMALS, unit: "KAS" });
+}
+
+/** Like `parseAmount`, but returns undefined for input that does not parse, for live previews of a field. */
+export function tryParseAmount(input: string, options: ParseAmountOptions = {}): bigint | undefined {
+  try {
+    return parseAmount(input, options);
+  } catch (error) {
+    if (error instanceof AmountError) return undefined;
+    throw error;
+  }
+}
+
+/** Exact wei → fiat conversion, as an 18-decimal bigint in `rate.currency`. */
+export function toFiat(value: bigint, rate: FiatRate): bigint {
+  const perKas = parseAmount(rate.perKas, { label: `${rate.currency} rate`, allowZero: true });
+  return (value * perKas) / pow10(KAS_DECIMALS);
+}
+
+/**
+ * Formats the fiat equivalent of a wei amount with the currency's symbol, placement and minor units
+ * from `Intl`, while the number itself is formatted exactly.
+ */
+export function formatFiat(
+  value: bigint,
+  rate: FiatRate,
+  options: Pick<FormatAmountOptions, "locale" | "rounding" | "notation"> = {}
+): string {
+  const fiat = toFiat(value, rate);
+  const currencyFormat = new Intl.NumberFormat(options.locale, { style: "currency", currency: rate.currency });
+  const digits = currencyFormat.resolvedOptions().maximumFractionDigits ?? 2;
+  const compact = options.notation === "compact";
+  const formatted = formatAmount(fiat, {
+    ...options,
+    decimals: KAS_DECIMALS,
+    maxFractionDigits: compact ? 1 : digits,
+    minFractionDigits: compact ? 0 : digits
+  });
+  const negative = formatted.startsWith("-");
+  const number = negative ? formatted.slice(1) : formatted;
+
+  let inserted = false;
+  return currencyFormat
+    .formatToParts(negative ? -1 : 1)
+    .map((part) => {
+      if (!["integer", "group", "decimal", "fraction"].includes(part.type)) return part.value;
+      if (inserted) return "";
+      inserted = true;
+      return number;
+    })
+    .join("");
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { type RoundSnapshot, roundImpact } from "./params";
+import { type ParamsArgs, RoundStatus } from "./types";
+
+const KAS = 10n ** 18n;
+const current: ParamsArgs = {
+  ticketPrice: KAS,
+  roundDuration: 3_600n,
+  minTicketsToDraw: 5n,
+  maxParticipants: 1_000n,
+  maxTicketsPerAddress: 100n,
+  maxTicketsPerRound: 10_000n,
+  winnersBps: 7_000,
+  feeBps: 500,
+  rolloverBps: 2_500,
+  keeperTipWei: KAS / 10n,
+  keeperTipMaxWei: KAS,
+  tierBps: [6_000, 4_000]
+};
+const round = (status: number, totalTickets: bigint): RoundSnapshot => ({
+  id: 7n,
+  status,
+  endTime: 1n,
+  totalTickets,
+  participants: totalTickets > 0n ? 2n : 0n
+});
+
+describe("roundImpact", () => {
+  test("a price change before any sale is only noted", () => {
+    const [impact] = roundImpact(current, { ...current, ticketPrice: 2n * KAS }, round(RoundStatus.Open, 0n));
+    assert.equal(impact.severity, "warning");
+  });
+
+  test("raising the price after sales is an error: refunds would underflow the ticket pot", () => {
+    const [impact] = roundImpact(current, { ...current, ticketPrice: 2n * KAS }, round(RoundStatus.Open, 10n));
+    assert.equal(impact.severity, "error");
+    assert.match(impact.message, /10 KAS more than the ticket pot holds/);
+    assert.match(impact.message, /stays in Refunding until the price is restored/);
+  });
+
+  test("lowering the price after sales is an error: the shortfall becomes sweepable excess", () => {
+    const [impact] = roundImpact(current, { ...current, ticketPrice: KAS / 2n }, round(RoundStatus.Open, 10n));
+    assert.equal(impact.severity, "error");
+    assert.match(impact.message, /5 KAS less than they paid/);
+    assert.match(impact.message, /sweepable excess/);
+  });
+
+  test("changing the price mid-refund is an error", () => {
+    const [impact] = roundImpact(current, { ...current, ticketPrice: 2n * KAS }, round(RoundStatus.Refunding, 10n));
+    assert.equal(impact.severity, "error");
+    assert.match(impact.message, /finalizeRefunds reverts/);
+  });
+});
@@ -0,0 +1,335 @@
+import { BPS_DENOM } from "./math";
+import { formatKas } from "./money";
+import { type ParamsArgs, RoundStatus } from "./types";
+
+/** `setParams` rejects anything shorter. */
+export const MIN_ROUND_DURATION = 5n * 60n;
+export const PRESET_VERSION = 1;
+
+const UINT16_MAX = 2n ** 16n - 1n;
+const UINT64_MAX = 2n ** 64n - 1n;
+const UINT128_MAX = 2n ** 128n - 1n;
+const UINT256_MAX = 2n ** 256n - 1n;
+
+export type ParamKey = keyof ParamsArgs;
+
+export type ParamIssue = {
+  /** `error` means `setParams` will revert; `warning` is accepted on-chain but probably a mistake. */
+  severity: "error" | "warning";
+  key?: ParamKey;
+  message: string;
+};
+
+/** Solidity width of each `setParams` argument; tiers are `uint16[]`. */
+const PARAM_BOUNDS: Record<ParamKey, bigint> = {
+  ticketPrice: UINT256_MAX,
+  roundDuration: UINT256_MAX,
+  minTicketsToDraw: UINT64_MAX,
+  maxParticipants: UINT64_MAX,
+  maxTicketsPerAddress: UINT64_MAX,
+  maxTicketsPerRound: UINT128_MAX,
+  winnersBps: UINT16_MAX,
+  feeBps: UINT16_MAX,
+  rolloverBps: UINT16_MAX,
+  keeperTipWei: UINT256_MAX,
+  keeperTipMaxWei: UINT256_MAX,
+  tierBps: UINT16_MAX
+};
+
+const PARAM_KEYS = Object.keys(PARAM_BOUNDS) as ParamKey[];
+
+/** Every check `setParams` reverts on, plus the argument widths the ABI encoder enforces. */
+export function validateParams(params: ParamsArgs): ParamIssue[] {
+  const issues: ParamIssue[] = [];
+  const error = (key: ParamKey | undefined, message: string) => issues.push({ severity: "error", key, message });
+
+  for (const key of PARAM_KEYS) {
+    const values = key === "tierBps" ? params.tierBps : [params[key] as bigint | number];
+    if (values.some((value) => BigInt(value) < 0n || BigInt(value) > PARAM_BOUNDS[key])) {
+      error(key, `${key} is out of range for its Solidity type.`);
+    }
+  }
+
+  if (params.ticketPrice === 0n) error("ticketPrice", "Ticket price must be above zero.");
+  if (params.roundDuration < MIN_ROUND_DURATION) {
+    error("roundDuration", "Round duration is under 5 minutes; the contract rejects it.");
+  }
+  if (params.maxParticipants === 0n) error("maxParticipants", "Max participants must be above zero.");
+  if (params.maxTicketsPerAddress === 0n) error("maxTicketsPerAddress", "Max tickets / address must be above zero.");
+  if (params.maxTicketsPerRound === 0n) error("maxTicketsPerRound", "Max tickets / round must be above zero.");
+  if (params.maxTicketsPerAddress > params.maxTicketsPerRound) {
+    error("maxTicketsPerAddress", "Max tickets / address is above max tickets / round.");
+  }
+  if (params.winnersBps + params.feeBps + params.rolloverBps !== Number(BPS_DENOM)) {
+    error(undefined, "Winners + fee + rollover BPS must sum to 10,000.");
+  }
+  if (params.keeperTipWei > params.keeperTipMaxWei) error("keeperTipWei", "Keeper tip is above keeper tip max.");
+  if (params.tierBps.length === 0) error("tierBps", "At least one tier is required.");
+  if (params.tierBps.reduce((sum, bps) => sum + bps, 0) !== Number(BPS_DENOM))
+    error("tierBps", "Tier BPS must sum to 10,000.");
+
+  return issues;
+}
+
+export type ParamsPreset = {
+  version: typeof PRESET_VERSION;
+  name: string;
+  description?: string;
+  params: ParamsArgs;
+};
+
+export class PresetError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}: ${issues.join(" ")}` : message);
+    this.name = "PresetError";
+  }
+}
+
+const BIGINT_KEYS = [
+  "ticketPrice",
+  "roundDuration",
+  "minTicketsToDraw",
+  "maxParticipants",
+  "maxTicketsPerAddress",
+  "maxTicketsPerRound",
+  "keeperTipWei",
+  "keeperTipMaxWei"
+] as const;
+const NUMBER_KEYS = ["winnersBps", "feeBps", "rolloverBps"] as const;
+
+function readInteger(raw: unknown, key: string, problems: string[]): bigint {
+  if ((typeof raw === "string" && /^\d+$/.test(raw)) || (typeof raw === "number" && Number.isSafeInteger(raw))) {
+    return BigInt(raw);
+  }
+  problems.push(`params.${key} must be a non-negative integer (wei and counts as decimal strings).`);
+  return 0n;
+}
+
+/**
+ * Reads a preset file. Wei amounts and counts are decimal strings so they survive JSON;
+ * the parsed params must also pass `validateParams`, so a loaded preset can always be sent.
+ */
+export function parsePreset(input: unknown): ParamsPreset {
+  const raw = typeof input === "string" ? (JSON.parse(input) as unknown) : input;
+  if (!raw || typeof raw !== "object") throw new PresetError("Preset must be a JSON object");
+
+  const record = raw as Record<string, unknown>;
+  if (record.version !== PRESET_VERSION) {
+    throw new PresetError(`Unsupported preset version ${String(record.version)}; expected ${PRESET_VERSION}`);
+  }
+  if (typeof record.name !== "string" || record.name.trim() === "") throw new PresetError("Preset needs a name");
+  if (record.description !== undefined && typeof record.description !== "string") {
+    throw new PresetError("Preset description must be a string");
+  }
+  const source = record.params;
+  if (!source || typeof source !== "object") throw new PresetError("Preset is missing params");
+  const fields = source as Record<string, unknown>;
+
+  const problems: string[] = [];
+  const unknownKeys = Object.keys(fields).filter((key) => !PARAM_KEYS.includes(key as ParamKey));
+  if (unknownKeys.length > 0) problems.push(`Unknown params: ${unknownKeys.join(", ")}.`);
+
+  const params = {} as ParamsArgs;
+  for (const key of BIGINT_KEYS) params[key] = readInteger(fields[key], key, problems);
+  for (const key of NUMBER_KEYS) params[key] = Number(readInteger(fields[key], key, problems));
+  if (!Array.isArray(fields.tierBps)) {
+    problems.push("params.tierBps must be an array of integers.");
+    params.tierBps = [];
+  } else {
+    params.tierBps = fields.tierBps.map((value, index) => Number(readInteger(value, `tierBps[${index}]`, problems)));
+  }
+  if (problems.length > 0) throw new PresetError(`Preset "${record.name}" is malformed`, problems);
+
+  const errors = validateParams(params).map((issue) => issue.message);
+  if (errors.length > 0) throw new PresetError(`Preset "${record.name}" would be rejected by setParams`, errors);
+
+  return {
+    version: PRESET_VERSION,
+    name: record.name,
+    description: record.description as string | undefined,
+    params
+  };
+}
+
+export function serializePreset(preset: Omit<ParamsPreset, "version">): string {
+  const params = Object.fromEntries(
+    PARAM_KEYS.map((key) => {
+      const value = preset.params[key];
+      return [key, typeof value === "bigint" ? value.toString() : value];
+    })
+  );
+  return JSON.stringify(
+    { version: PRESET_VERSION, name: preset.name, description: preset.description, params },
+    null,
+    2
+  );
+}
+
+export const PARAM_LABELS: Record<ParamKey, string> = {
+  ticketPrice: "Ticket price",
+  roundDuration: "Round duration",
+  minTicketsToDraw: "Min tickets to draw",
+  maxParticipants: "Max participants",
+  maxTicketsPerAddress: "Max tickets / address",
+  maxTicketsPerRound: "Max tickets / round",
+  winnersBps: "Winners share",
+  feeBps: "Fee share",
+  rolloverBps: "Rollover share",
+  keeperTipWei: "Keeper tip",
+  keeperTipMaxWei: "Keeper tip max",
+  tierBps: "Tier split"
+};
+
+export function formatParam(key: ParamKey, params: ParamsArgs): string {
+  switch (key) {
+    case "ticketPrice":
+    case "keeperTipWei":
+    case "keeperTipMaxWei":
+      return `${formatKas(params[key], { maxFractionDigits: 6 })} KAS`;
+    case "roundDuration":
+      return `${Number(params.roundDuration) / 60} min`;
+    case "winnersBps":
+    case "feeBps":
+    case "rolloverBps":
+      return `${params[key]} bps`;
+    case "tierBps":
+      return params.tierBps.join(" / ");
+    default:
+      return params[key].toString();
+  }
+}
+
+export type ParamChange = {
+  key: ParamKey;
+  label: string;
+  from: string;
+  to: string;
+};
+
+function sameValue(a: ParamsArgs[ParamKey], b: ParamsArgs[ParamKey]): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((value, i) => value === b[i]);
+  return a === b;
+}
+
+export function diffParams(current: ParamsArgs, proposed: ParamsArgs): ParamChange[] {
+  return PARAM_KEYS.filter((key) => !sameValue(current[key], proposed[key])).map((key) => ({
+    key,
+    label: PARAM_LABELS[key],
+    from: formatParam(key, current),
+    to: formatParam(key, proposed)
+  }));
+}
+
+export type RoundSnapshot = {
+  id: bigint;
+  status: number;
+  endTime: bigint;
+  totalTickets: bigint;
+  participants: bigint;
+};
+
+/**
+ * `finalizeRefunds` pays `tickets × ticketPrice` at the current price and subtracts it from `ticketPot` with a
+ * checked subtraction, then zeroes whatever is left once every buyer is paid.
+ */
+function refundEffect(oldPrice: bigint, newPrice: bigint, tickets: bigint): string {
+  const delta = (newPrice > oldPrice ? newPrice - oldPrice : oldPrice - newPrice) * tickets;
+  const amount = `${formatKas(delta, { maxFractionDigits: 6 })} KAS`;
+  return newPrice > oldPrice
+    ? `paying them back at the new price needs up to ${amount} more than the ticket pot holds; the checked subtraction underflows, so finalizeRefunds reverts and the round stays in Refunding until the price is restored.`
+    : `buyers are repaid up to ${amount} less than they paid; the rest is zeroed out of the ticket pot and becomes sweepable excess.`;
+}
+
+/** Explains what each change does to the round in progress, which `setParams` does not freeze. */
+export function roundImpact(current: ParamsArgs, proposed: ParamsArgs, round: RoundSnapshot): ParamIssue[] {
+  const changed = new Set(diffParams(current, proposed).map((change) => change.key));
+  const impacts: ParamIssue[] = [];
+  const note = (key: ParamKey, message: string, severity: ParamIssue["severity"] = "warning") =>
+    impacts.push({ severity, key, message });
+  const label = `round #${round.id}`;
+  const title = `Round #${round.id}`;
+
+  const shareChanged = changed.has("winnersBps") || changed.has("feeBps") || changed.has("rolloverBps");
+  const tipChanged = changed.has("keeperTipWei") || changed.has("keeperTipMaxWei");
+
+  switch (round.status) {
+    case RoundStatus.Open: {
+      if (changed.has("ticketPrice")) {
+        if (round.totalTickets === 0n) {
+          note("ticketPrice", `Every ticket in ${label} will be sold at the new price.`);
+        } else {
+          const sold = `${round.totalTickets} ticket(s) in ${label} were sold at the old price`;
+          note(
+            "ticketPrice",
+            `${sold}; if the round refunds, ${refundEffect(current.ticketPrice, proposed.ticketPrice, round.totalTickets)}`,
+            "error"
+          );
+        }
+      }
+      if (changed.has("roundDuration")) {
+        note(
+          "roundDuration",
+          round.endTime === 0n
+            ? `${title} has not started its countdown, so it will run for the new duration.`
+            : `${title} already has its end time fixed; the new duration applies from the next round.`
+        );
+      }
+      if (changed.has("minTicketsToDraw")) {
+        const draws = round.totalTickets >= proposed.minTicketsToDraw;
+        note(
+          "minTicketsToDraw",
+          `Decides at close whether ${label} draws; with ${round.totalTickets} ticket(s) sold it would currently ${draws ? "draw" : "refund"}.`
+        );
+      }
+      if (changed.has("maxTicketsPerRound") && proposed.maxTicketsPerRound <= round.totalTickets) {
+        note("maxTicketsPerRound", `${title} already has ${round.totalTickets} ticket(s); sales stop immediately.`);
+      } else if (changed.has("maxTicketsPerRound")) {
+        note("maxTicketsPerRound", `Applies to the remaining sales in ${label}.`);
+      }
+      if (changed.has("maxParticipants") && proposed.maxParticipants <= round.participants) {
+        note("maxParticipants", `${title} already has ${round.participants} buyer(s); new buyers are locked out.`);
+      } else if (changed.has("maxParticipants")) {
+        note("maxParticipants", `Applies to new buyers in ${label}.`);
+      }
+      if (changed.has("maxTicketsPerAddress")) {
+        note("maxTicketsPerAddress", `Applies to further purchases in ${label}; existing holdings are kept.`);
+      }
+      if (shareChanged) note("winnersBps", `The new split is applied when ${label} closes.`);
+      if (changed.has("tierBps"))
+        note("tierBps", `${title} will draw ${proposed.tierBps.length} winner(s) with the new split.`);
+      break;
+    }
+    case RoundStatus.Drawing: {
+      if (changed.has("tierBps")) {
+        note(
+          "tierBps",
+          proposed.tierBps.length === current.tierBps.length
+            ? `${title} is mid-draw; its prizes will be split with the new tiers.`
+            : `${title} drew ${current.tierBps.length} ticket(s); finalizing with ${proposed.tierBps.length} tiers leaves winners and prizes out of step. Wait until it closes.`,
+          proposed.tierBps.length === current.tierBps.length ? "warning" : "error"
+        );
+      }
+      if (shareChanged)
+        note("winnersBps", `${title} already fixed its split; the new shares apply from the next round.`);
+      break;
+    }
+    case RoundStatus.Refunding: {
+      if (changed.has("ticketPrice")) {
+        note(
+          "ticketPrice",
+          `${title} is refunding at ticket price × tickets; for the buyers not yet repaid, ${refundEffect(current.ticketPrice, proposed.ticketPrice, round.totalTickets)}`,
+          "error"
+        );
+      }
+      break;
+    }
+  }
+
+  if (tipChanged) {
+    note("keeperTipWei", `The next keeper call on ${label} is paid the new tip.`);
+  }
+  return impacts;
+}
@@ -0,0 +1,35 @@
+import { zeroHash } from "viem";
+
+import { type Round, RoundStatus } from "./types";
+
+/**
+ * `finalizeRefunds` leaves a refunded round `Closed`, exactly like a drawn one, so the
+ * on-chain status alone cannot tell them apart. A drawn round always has a seed.
+ */
+export type RoundOutcome = "open" | "ready" | "drawing" | "refunding" | "drawn" | "refunded";
+
+export function roundOutcome(round: Round): RoundOutcome {
+  switch (round.status) {
+    case RoundStatus.Ready:
+      return "ready";
+    case RoundStatus.Drawing:
+      return "drawing";
+    case RoundStatus.Refunding:
+      return "refunding";
+    case RoundStatus.Closed:
+      return round.seed === zeroHash ? "refunded" : "drawn";
+    default:
+      return "open";
+  }
+}
+
+/** Tickets go back to buyers and the seed stays in `rolloverBank` for the next round, so no pot ever forms. */
+export function isRefund(outcome: RoundOutcome): boolean {
+  return outcome === "refunding" || outcome === "refunded";
+}
+
+/** `pot` is only written by `closeRound`; before that the live pot is tickets plus seed. Refunds have none. */
+export function roundPot(round: Round): bigint {
+  if (isRefund(roundOutcome(round))) return 0n;
+  return round.pot > 0n ? round.pot : round.ticketPot + round.seededRollover;
+}
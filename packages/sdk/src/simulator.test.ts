@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { createRandom, expectedBuyerDraws, simulateRaffle, simulateRun } from "./simulator";
+import type { RaffleConfig } from "./types";
+
+const KAS = 10n ** 18n;
+const config: RaffleConfig = {
+  ticketPrice: KAS,
+  roundDuration: 3_600n,
+  minTicketsToDraw: 10n,
+  maxParticipants: 20n,
+  // One ticket each, so a round's tickets are its participants.
+  maxTicketsPerAddress: 1n,
+  maxTicketsPerRound: 100n,
+  winnersBps: 7_000,
+  feeBps: 500,
+  rolloverBps: 2_500,
+  keeperTipWei: (4n * KAS) / 10n,
+  keeperTipMaxWei: KAS,
+  tierBps: [6_000, 4_000]
+};
+
+describe("simulateRun", () => {
+  // A full round, a quiet one that refunds, an idle one, then another full one.
+  const demand = { kind: "custom", buyers: ({ round }: { round: number }) => [1_000, 4, 0, 1_000][round] } as const;
+  const run = simulateRun({ config, demand, rounds: 4, runs: 1 }, createRandom(1));
+
+  test("replays a drawn round's split, prizes and rollover", () => {
+    const [drawn] = run;
+    assert.equal(drawn.outcome, "drawn");
+    assert.equal(drawn.participants, 20);
+    assert.ok(drawn.turnedAway > 0);
+    assert.equal(drawn.pot, 20n * KAS);
+    assert.deepEqual(drawn.split, { winnersShare: 14n * KAS, feeShare: KAS, rolloverShare: 5n * KAS });
+    assert.deepEqual(drawn.prizes, [(84n * KAS) / 10n, (56n * KAS) / 10n]);
+    assert.equal(drawn.rolloverBank, 5n * KAS);
+    assert.equal(drawn.playerReturn, 0.7);
+  });
+
+  test("caps keeper tips by feesAccrued", () => {
+    const [drawn, refunded, , redrawn] = run;
+    // closeRound finds no fees yet; finalizeRound pays 0.4 KAS out of the 1 KAS it just booked.
+    assert.equal(drawn.keeperTips, (4n * KAS) / 10n);
+    assert.equal(drawn.feesAccrued, (6n * KAS) / 10n);
+    assert.equal(drawn.feeRevenue, (6n * KAS) / 10n);
+    // A refund earns no fees: 0.4 KAS, then the last 0.2 KAS, drain the account.
+    assert.equal(refunded.keeperTips, (6n * KAS) / 10n);
+    assert.equal(refunded.feesAccrued, 0n);
+    assert.equal(refunded.feeRevenue, -(6n * KAS) / 10n);
+    // Dry again at close, so only finalizeRound's tip is paid.
+    assert.equal(redrawn.keeperTips, (4n * KAS) / 10n);
+    assert.equal(redrawn.feesAccrued, (125n * KAS) / 100n - (4n * KAS) / 10n);
+  });
+
+  test("refunds leave the bank to seed the next round", () => {
+    const [, refunded, idle, redrawn] = run;
+    assert.equal(refunded.outcome, "refunded");
+    assert.ok(refunded.tickets > 0n && refunded.tickets < config.minTicketsToDraw);
+    assert.equal(refunded.pot, 0n);
+    assert.equal(refunded.seededRollover, 5n * KAS);
+    assert.equal(refunded.rolloverBank, 5n * KAS);
+    assert.equal(refunded.playerReturn, 1);
+
+    assert.equal(idle.outcome, "idle");
+    assert.equal(idle.keeperTips, 0n);
+    assert.equal(redrawn.seededRollover, 5n * KAS);
+    assert.equal(redrawn.pot, 25n * KAS);
+    assert.equal(redrawn.rolloverBank, (625n * KAS) / 100n);
+  });
+
+  test("the same seed reproduces the same run", () => {
+    assert.deepEqual(simulateRun({ config, demand, rounds: 4, runs: 1 }, createRandom(1)), run);
+    const options = { config, demand: { kind: "constant", buyers: 8 } as const, rounds: 5, runs: 3, seed: 9 };
+    assert.deepEqual(simulateRaffle(options), simulateRaffle(options));
+  });
+});
+
+describe("expectedBuyerDraws", () => {
+  const uncapped = { ...config, maxParticipants: 10n ** 9n, maxTicketsPerRound: 10n ** 9n };
+
+  test("counts expected buyers over rounds and runs, capped by a full round", () => {
+    assert.equal(expectedBuyerDraws({ config, demand: { kind: "constant", buyers: 8 }, rounds: 10, runs: 3 }), 240);
+    assert.equal(expectedBuyerDraws({ config, demand: { kind: "constant", buyers: 50 }, rounds: 10, runs: 3 }), 600);
+  });
+
+  test("follows demand growth, not just the base buyers", () => {
+    const draws = expectedBuyerDraws({
+      config: uncapped,
+      demand: { kind: "growth", buyers: 10, growthBps: 200 },
+      rounds: 365,
+      runs: 1_000
+    });
+    assert.ok(draws > 10 * 365 * 1_000 * 100, `${draws}`);
+  });
+});
@@ -0,0 +1,352 @@
+import { type PotSplit, BPS_DENOM, keeperTip, splitPot, tierPrizes } from "./math";
+import type { RaffleConfig } from "./types";
+
+/** What a demand curve sees when it picks the expected number of buyers for a round. */
+export type DemandContext = {
+  /** 0-based index of the simulated round. */
+  round: number;
+  /** Rollover the round opens with: the head start players see on the jackpot. */
+  seededRollover: bigint;
+  config: RaffleConfig;
+  ticketsPerBuyer: number;
+};
+
+/** Expected buyers per round. The actual count is Poisson around it, so quiet rounds can still refund. */
+export type DemandCurve =
+  | { kind: "constant"; buyers: number }
+  /** Compounds by `growthBps` per round; negative values model a decline. */
+  | { kind: "growth"; buyers: number; growthBps: number }
+  /**
+   * `buyers * (1 + elasticity * seededRollover / baseline)`, where `baseline` is what `buyers` would spend on
+   * tickets. With elasticity 1, a seed as large as the usual ticket pot doubles the crowd.
+   */
+  | { kind: "jackpot"; buyers: number; elasticity: number }
+  /** Swings by `amplitude` (0–1) of `buyers` over a `period`-round cycle. */
+  | { kind: "seasonal"; buyers: number; amplitude: number; period: number }
+  | { kind: "custom"; buyers: (context: DemandContext) => number };
+
+export type SimulationOptions = {
+  config: RaffleConfig;
+  demand: DemandCurve;
+  /** Mean tickets per buyer; each buyer's count is geometric, so most buy a few and some buy many. Defaults to 5. */
+  ticketsPerBuyer?: number;
+  rounds: number;
+  /** Independent runs; the per-round statistics are taken across them. */
+  runs: number;
+  /** Seeds the random draws, so the same options reproduce the same result. */
+  seed?: number;
+  /** Contract state before the first simulated round opens. */
+  rolloverBank?: bigint;
+  feesAccrued?: bigint;
+  /** The owner withdraws every accrued fee after each round, so keeper tips can only come from the last fee share. */
+  withdrawFeesEachRound?: boolean;
+};
+
+export type SimulatedRound = {
+  round: number;
+  /** `idle` rounds sold no tickets, so the countdown never started and nothing happened on-chain. */
+  outcome: "drawn" | "refunded" | "idle";
+  participants: number;
+  tickets: bigint;
+  /** Buyers who found the round full, by `maxParticipants` or `maxTicketsPerRound`. */
+  turnedAway: number;
+  ticketPot: bigint;
+  seededRollover: bigint;
+  /** `ticketPot + seededRollover` once drawn; zero otherwise, like `Round.pot`. */
+  pot: bigint;
+  split: PotSplit;
+  prizes: bigint[];
+  /** Paid by `closeRound` plus the last `finalizeRound` or `finalizeRefunds` call, capped by `feesAccrued`. */
+  keeperTips: bigint;
+  /** `feeShare` minus keeper tips; negative when tips drain fees from earlier rounds. */
+  feeRevenue: bigint;
+  /** State after the round, before any `withdrawFeesEachRound` withdrawal. */
+  feesAccrued: bigint;
+  rolloverBank: bigint;
+  /** Winners share per unit of ticket sales: the player's expected return. Refunds return exactly 1. */
+  playerReturn?: number;
+};
+
+export type Distribution<T extends bigint | number> = { mean: T; p10: T; median: T; p90: T };
+
+export type RoundStats = {
+  round: number;
+  ticketPot: Distribution<bigint>;
+  seededRollover: Distribution<bigint>;
+  pot: Distribution<bigint>;
+  feeRevenue: Distribution<bigint>;
+  /** Fee revenue from the first round up to and including this one. */
+  cumulativeFeeRevenue: Distribution<bigint>;
+  /** Across runs where the round sold tickets; undefined if it never did. */
+  playerReturn?: Distribution<number>;
+  refundRate: number;
+  idleRate: number;
+};
+
+export type SimulationSummary = {
+  ticketSales: Distribution<bigint>;
+  feeRevenue: Distribution<bigint>;
+  keeperTips: Distribution<bigint>;
+  /** Largest seeded rollover of each run. */
+  peakJackpot: Distribution<bigint>;
+  finalRolloverBank: Distribution<bigint>;
+  /** Winners shares over ticket sales for the whole run, counting refunded rounds as break-even. */
+  playerReturn: Distribution<number>;
+  refundRate: number;
+  idleRate: number;
+  turnedAwayRate: number;
+};
+
+export type SimulationResult = {
+  rounds: RoundStats[];
+  summary: SimulationSummary;
+  runs: SimulatedRound[][];
+};
+
+const DEFAULT_TICKETS_PER_BUYER = 5;
+/** Poisson draws switch to the normal approximation above this mean; the exact method slows down linearly. */
+const POISSON_EXACT_LIMIT = 60;
+
+/** Deterministic `[0, 1)` generator (mulberry32). */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function poisson(random: () => number, mean: number): number {
+  if (!(mean > 0)) return 0;
+  if (mean > POISSON_EXACT_LIMIT) return Math.max(0, Math.round(mean + Math.sqrt(mean) * normal(random)));
+  const limit = Math.exp(-mean);
+  let count = 0;
+  for (let product = random(); product > limit; product *= random()) count++;
+  return count;
+}
+
+/** At least one ticket, with the given mean. */
+function geometric(random: () => number, mean: number): number {
+  if (mean <= 1) return 1;
+  return 1 + Math.floor(Math.log(1 - random()) / Math.log(1 - 1 / mean));
+}
+
+function expectedBuyers(demand: DemandCurve, context: DemandContext): number {
+  switch (demand.kind) {
+    case "constant":
+      return demand.buyers;
+    case "growth":
+      return demand.buyers * (1 + demand.growthBps / Number(BPS_DENOM)) ** context.round;
+    case "jackpot": {
+      const baseline = demand.buyers * context.ticketsPerBuyer * Number(context.config.ticketPrice);
+      if (baseline <= 0) return demand.buyers;
+      return demand.buyers * (1 + (demand.elasticity * Number(context.seededRollover)) / baseline);
+    }
+    case "seasonal":
+      return demand.buyers * (1 + demand.amplitude * Math.sin((2 * Math.PI * context.round) / demand.period));
+    case "custom":
+      return demand.buyers(context);
+  }
+}
+
+/** Caps are `uint64`/`uint128`; counting in plain numbers is exact well past any realistic round. */
+function toCount(cap: bigint): number {
+  return cap > BigInt(Number.MAX_SAFE_INTEGER) ? Number.MAX_SAFE_INTEGER : Number(cap);
+}
+
+/**
+ * Roughly how many buyers `simulateRaffle` will draw across every round and run: the demand curve's expected
+ * buyers, capped by `maxParticipants` and `maxTicketsPerRound` the way a full round stops the loop. The jackpot
+ * curve follows the seed a run would have if every round drew. Use it to refuse options that would take too long.
+ */
+export function expectedBuyerDraws(options: SimulationOptions): number {
+  const { config, demand } = options;
+  const ticketsPerBuyer = options.ticketsPerBuyer ?? DEFAULT_TICKETS_PER_BUYER;
+  const cap = Math.min(toCount(config.maxParticipants), toCount(config.maxTicketsPerRound));
+
+  let seededRollover = options.rolloverBank ?? 0n;
+  let total = 0;
+  for (let round = 0; round < options.rounds; round++) {
+    const expected = expectedBuyers(demand, { round, seededRollover, config, ticketsPerBuyer });
+    // Like `poisson`, anything but a positive mean draws nobody.
+    const buyers = expected > 0 ? Math.min(expected, cap) : 0;
+    total += buyers;
+    const tickets = Math.min(Math.round(buyers * ticketsPerBuyer), toCount(config.maxTicketsPerRound));
+    const pot = BigInt(tickets) * config.ticketPrice + seededRollover;
+    seededRollover = splitPot(pot, config.winnersBps, config.feeBps).rolloverShare;
+  }
+  return total * options.runs;
+}
+
+/**
+ * One run of `options.rounds` rounds through the contract's accounting: `_buyTickets` caps, the
+ * `closeRound` split, `finalizeRound` tier prizes and rollover, refunds below `minTicketsToDraw`,
+ * and `_payKeeper` tips limited by `feesAccrued`. Each buyer is a new address.
+ */
+export function simulateRun(options: SimulationOptions, random: () => number): SimulatedRound[] {
+  const { config, demand } = options;
+  const ticketsPerBuyer = options.ticketsPerBuyer ?? DEFAULT_TICKETS_PER_BUYER;
+  const maxParticipants = toCount(config.maxParticipants);
+  const maxTicketsPerAddress = toCount(config.maxTicketsPerAddress);
+  const maxTicketsPerRound = toCount(config.maxTicketsPerRound);
+  const noSplit: PotSplit = { winnersShare: 0n, feeShare: 0n, rolloverShare: 0n };
+
+  let rolloverBank = options.rolloverBank ?? 0n;
+  let feesAccrued = options.feesAccrued ?? 0n;
+  const rounds: SimulatedRound[] = [];
+
+  for (let round = 0; round < options.rounds; round++) {
+    const seededRollover = rolloverBank;
+    const arrivals = poisson(random, expectedBuyers(demand, { round, seededRollover, config, ticketsPerBuyer }));
+
+    let participants = 0;
+    let tickets = 0;
+    let turnedAway = 0;
+    for (let buyer = 0; buyer < arrivals; buyer++) {
+      // Buyers trim an order to what the caps still allow rather than have it revert.
+      const wanted = Math.min(geometric(random, ticketsPerBuyer), maxTicketsPerAddress, maxTicketsPerRound - tickets);
+      if (participants >= maxParticipants || wanted <= 0) {
+        // The round is full, so nobody else gets in either; skipping them keeps runaway demand cheap.
+        turnedAway += arrivals - buyer;
+        break;
+      }
+      participants++;
+      tickets += wanted;
+    }
+
+    const ticketPot = BigInt(tickets) * config.ticketPrice;
+    const base = { round, participants, tickets: BigInt(tickets), turnedAway, ticketPot, seededRollover };
+
+    if (tickets === 0) {
+      rounds.push({
+        ...base,
+        outcome: "idle",
+        pot: 0n,
+        split: noSplit,
+        prizes: [],
+        keeperTips: 0n,
+        feeRevenue: 0n,
+        feesAccrued,
+        rolloverBank
+      });
+      continue;
+    }
+
+    let keeperTips = 0n;
+    const payKeeper = () => {
+      const tip = keeperTip(config, feesAccrued);
+      feesAccrued -= tip;
+      keeperTips += tip;
+    };
+
+    const drawn = BigInt(tickets) >= config.minTicketsToDraw;
+    const pot = drawn ? ticketPot + seededRollover : 0n;
+    const split = drawn ? splitPot(pot, config.winnersBps, config.feeBps) : noSplit;
+    payKeeper();
+    if (drawn) {
+      // finalizeRound books the fee share and the new bank before paying its own tip.
+      feesAccrued += split.feeShare;
+      rolloverBank = split.rolloverShare;
+    }
+    // Refunds leave the bank alone, so it seeds the next round unchanged.
+    payKeeper();
+    const feesBeforeWithdrawal = feesAccrued;
+    if (options.withdrawFeesEachRound) feesAccrued = 0n;
+
+    rounds.push({
+      ...base,
+      outcome: drawn ? "drawn" : "refunded",
+      pot,
+      split,
+      prizes: drawn ? tierPrizes(split.winnersShare, config.tierBps) : [],
+      keeperTips,
+      feeRevenue: split.feeShare - keeperTips,
+      feesAccrued: feesBeforeWithdrawal,
+      rolloverBank,
+      playerReturn: drawn ? Number((split.winnersShare * BPS_DENOM) / ticketPot) / Number(BPS_DENOM) : 1
+    });
+  }
+
+  return rounds;
+}
+
+function compare<T extends bigint | number>(a: T, b: T): number {
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+export function distribution(values: readonly bigint[]): Distribution<bigint>;
+export function distribution(values: readonly number[]): Distribution<number>;
+export function distribution(values: readonly (bigint | number)[]): Distribution<bigint | number> {
+  if (values.length === 0) throw new Error("distribution() needs at least one value");
+  const sorted = [...values].sort(compare);
+  const at = (quantile: number) => sorted[Math.round(quantile * (sorted.length - 1))];
+  const mean =
+    typeof sorted[0] === "bigint"
+      ? (sorted as bigint[]).reduce((sum, value) => sum + value, 0n) / BigInt(sorted.length)
+      : (sorted as number[]).reduce((sum, value) => sum + value, 0) / sorted.length;
+  return { mean, p10: at(0.1), median: at(0.5), p90: at(0.9) };
+}
+
+const sum = (values: readonly bigint[]) => values.reduce((total, value) => total + value, 0n);
+
+/** Runs `simulateRun` `options.runs` times from one seed and summarises the runs per round and overall. */
+export function simulateRaffle(options: SimulationOptions): SimulationResult {
+  if (options.rounds < 1 || options.runs < 1) throw new Error("Simulate at least one round and one run");
+  const random = createRandom(options.seed ?? 1);
+  const runs = Array.from({ length: options.runs }, () => simulateRun(options, random));
+  const totalRounds = options.rounds * options.runs;
+
+  const cumulative = runs.map(() => 0n);
+  const rounds = Array.from({ length: options.rounds }, (_, round): RoundStats => {
+    const column = runs.map((run) => run[round]);
+    column.forEach((entry, run) => (cumulative[run] += entry.feeRevenue));
+    const returns = column.flatMap((entry) => (entry.playerReturn === undefined ? [] : [entry.playerReturn]));
+    return {
+      round,
+      ticketPot: distribution(column.map((entry) => entry.ticketPot)),
+      seededRollover: distribution(column.map((entry) => entry.seededRollover)),
+      pot: distribution(column.map((entry) => entry.pot)),
+      feeRevenue: distribution(column.map((entry) => entry.feeRevenue)),
+      cumulativeFeeRevenue: distribution([...cumulative]),
+      playerReturn: returns.length > 0 ? distribution(returns) : undefined,
+      refundRate: column.filter((entry) => entry.outcome === "refunded").length / column.length,
+      idleRate: column.filter((entry) => entry.outcome === "idle").length / column.length
+    };
+  });
+
+  const all = runs.flat();
+  const arrivals = all.reduce((total, entry) => total + entry.participants + entry.turnedAway, 0);
+  return {
+    rounds,
+    runs,
+    summary: {
+      ticketSales: distribution(runs.map((run) => sum(run.map((entry) => entry.ticketPot)))),
+      feeRevenue: distribution(runs.map((run) => sum(run.map((entry) => entry.feeRevenue)))),
+      keeperTips: distribution(runs.map((run) => sum(run.map((entry) => entry.keeperTips)))),
+      peakJackpot: distribution(
+        runs.map((run) => run.reduce((peak, entry) => (entry.seededRollover > peak ? entry.seededRollover : peak), 0n))
+      ),
+      finalRolloverBank: distribution(runs.map((run) => run[run.length - 1].rolloverBank)),
+      playerReturn: distribution(
+        runs.map((run) => {
+          const sales = sum(run.map((entry) => entry.ticketPot));
+          if (sales === 0n) return 0;
+          const returned = sum(
+            run.map((entry) => (entry.outcome === "refunded" ? entry.ticketPot : entry.split.winnersShare))
+          );
+          return Number((returned * BPS_DENOM) / sales) / Number(BPS_DENOM);
+        })
+      ),
+      refundRate: all.filter((entry) => entry.outcome === "refunded").length / totalRounds,
+      idleRate: all.filter((entry) => entry.outcome === "idle").length / totalRounds,
+      turnedAwayRate: arrivals === 0 ? 0 : all.reduce((total, entry) => total + entry.turnedAway, 0) / arrivals
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import type { Address, Hex } from "viem";
+
+/** `KASRaffle.RoundStatus`; the ABI encodes it as `uint8`, so it decodes as a plain number. */
+export const RoundStatus = {
+  Open: 0,
+  Ready: 1,
+  Drawing: 2,
+  Refunding: 3,
+  Closed: 4
+} as const;
+
+export type RoundStatus = (typeof RoundStatus)[keyof typeof RoundStatus];
+
+const STATUS_LABELS: Record<RoundStatus, string> = {
+  [RoundStatus.Open]: "Open",
+  [RoundStatus.Ready]: "Ready",
+  [RoundStatus.Drawing]: "Drawing",
+  [RoundStatus.Refunding]: "Refunding",
+  [RoundStatus.Closed]: "Closed"
+};
+
+export function roundStatusName(status: RoundStatus): string {
+  return STATUS_LABELS[status] ?? "Unknown";
+}
+
+export type Round = {
+  id: bigint;
+  /** Timestamp of the first ticket; `0n` until the countdown starts. */
+  startTime: bigint;
+  endTime: bigint;
+  status: RoundStatus;
+  participants: bigint;
+  totalTickets: bigint;
+  /** Ticket sales in wei. Zeroed once the round is drawn or refunded; use `pot - seededRollover` afterwards. */
+  ticketPot: bigint;
+  seededRollover: bigint;
+  /** Set by `closeRound`; `0n` while the round is open. */
+  pot: bigint;
+  winnersShare: bigint;
+  feeShare: bigint;
+  rolloverShare: bigint;
+  /** `0x00…` until `closeRound` draws; refunded rounds keep the zero seed. */
+  seed: Hex;
+};
+
+export type Participant = {
+  account: Address;
+  tickets: bigint;
+};
+
+export type RoundWinners = {
+  /** One entry per prize tier, in tier order; one address can hold several tiers. */
+  winners: readonly Address[];
+  prizes: readonly bigint[];
+};
+
+export type RaffleConfig = {
+  ticketPrice: bigint;
+  roundDuration: bigint;
+  minTicketsToDraw: bigint;
+  maxParticipants: bigint;
+  maxTicketsPerAddress: bigint;
+  maxTicketsPerRound: bigint;
+  winnersBps: number;
+  feeBps: number;
+  rolloverBps: number;
+  keeperTipWei: bigint;
+  keeperTipMaxWei: bigint;
+  tierBps: number[];
+};
+
+/** Arguments to `setParams`, by name; `toSetParamsArgs` puts them in ABI order. */
+export type ParamsArgs = RaffleConfig;
+
+export function toSetParamsArgs(params: ParamsArgs) {
+  return [
+    params.ticketPrice,
+    params.roundDuration,
+    params.minTicketsToDraw,
+    params.maxParticipants,
+    params.maxTicketsPerAddress,
+    params.maxTicketsPerRound,
+    params.winnersBps,
+    params.feeBps,
+    params.rolloverBps,
+    params.keeperTipWei,
+    params.keeperTipMaxWei,
+    params.tierBps
+  ] as const;
+}
@@ -0,0 +1,88 @@
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { type ParamsPreset, parsePreset, toSetParamsArgs } from "../packages/sdk/src";
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+const PRESET_DIR = path.join(repoRoot, "packages/next/presets");
+
+const SET_PARAMS_SIGNATURE =
+  "setParams(uint256,uint256,uint64,uint64,uint64,uint128,uint16,uint16,uint16,uint256,uint256,uint16[])";
+
+type Output = "check" | "env" | "cast";
+
+function parseArgs(argv: string[]) {
+  let output: Output = "check";
+  let address: string | undefined;
+  const files: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--env") {
+      output = "env";
+    } else if (arg === "--cast") {
+      output = "cast";
+      address = argv[++i];
+      if (!address) throw new Error("--cast requires the KASRaffle address");
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown argument: ${arg}`);
+    } else {
+      files.push(path.resolve(arg));
+    }
+  }
+  if (files.length === 0) {
+    files.push(
+      ...readdirSync(PRESET_DIR)
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => path.join(PRESET_DIR, name))
+    );
+  }
+  if (output !== "check" && files.length !== 1) throw new Error(`--${output} takes exactly one preset file`);
+  return { output, address, files };
+}
+
+/** Constructor inputs for `Deploy.s.sol`; the remaining params still need a `setParams` call after deployment. */
+function renderEnv(preset: ParamsPreset): string {
+  return [
+    `TICKET_PRICE_WEI=${preset.params.ticketPrice}`,
+    `ROUND_DURATION_SEC=${preset.params.roundDuration}`
+  ].join("\n");
+}
+
+function renderCast(preset: ParamsPreset, address: string): string {
+  const args = toSetParamsArgs(preset.params).map((value) =>
+    Array.isArray(value) ? `"[${value.join(",")}]"` : value.toString()
+  );
+  return `cast send ${address} "${SET_PARAMS_SIGNATURE}" ${args.join(" ")}`;
+}
+
+function main() {
+  const { output, address, files } = parseArgs(process.argv.slice(2));
+
+  let failed = false;
+  for (const file of files) {
+    const relative = path.relative(repoRoot, file);
+    let preset: ParamsPreset;
+    try {
+      preset = parsePreset(readFileSync(file, "utf8"));
+    } catch (error) {
+      failed = true;
+      console.error(`${relative}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    if (output === "env") console.log(renderEnv(preset));
+    else if (output === "cast") console.log(renderCast(preset, address!));
+    else console.log(`${relative}: "${preset.name}" ok`);
+  }
+
+  if (failed) process.exit(1);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
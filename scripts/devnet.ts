@@ -0,0 +1,349 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import {
+  type Address,
+  type Hex,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  defineChain,
+  formatEther,
+  http,
+  parseEther
+} from "viem";
+import { type HDAccount, mnemonicToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+
+import {
+  KasRaffleClient,
+  type ParamsArgs,
+  RoundStatus,
+  createRandom,
+  kasRaffleAbi,
+  parsePreset
+} from "../packages/sdk/src";
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+const DEFAULT_ARTIFACT = path.join(repoRoot, "packages/forge/out/KASRaffle.sol/KASRaffle.json");
+const DEFAULT_PRESET = path.join(repoRoot, "packages/next/presets/default.json");
+const DEFAULT_ENV_FILE = path.join(repoRoot, "packages/next/.env.local");
+
+/** Anvil's default mnemonic, so the seeded accounts can be imported into a wallet. */
+const ANVIL_MNEMONIC = "test test test test test test test test test test test junk";
+const DEPLOYER_INDEX = 0;
+const FEE_VAULT_INDEX = 1;
+const KEEPER_INDEX = 2;
+const FIRST_BUYER_INDEX = 3;
+const BUYER_BALANCE = parseEther("10000");
+
+/** Draw gas depends on the block's seed, so estimates can miss; a devnet can afford a flat limit. */
+const DRAW_GAS = 15_000_000n;
+const REFUND_ROUND_CHANCE = 0.2;
+const REPEAT_PURCHASE_CHANCE = 0.3;
+const WHALE_CHANCE = 0.1;
+const CLAIM_CHANCE = 0.6;
+
+function anvilAccount(index: number): HDAccount {
+  return mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex: index });
+}
+
+type Options = {
+  rounds: number;
+  buyers: number;
+  seed: number;
+  port: number;
+  rpcUrl?: string;
+  artifact: string;
+  preset: string;
+  envFile?: string;
+};
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    rounds: 12,
+    buyers: 24,
+    seed: 1,
+    port: 8545,
+    artifact: DEFAULT_ARTIFACT,
+    preset: DEFAULT_PRESET,
+    envFile: DEFAULT_ENV_FILE
+  };
+  const value = (flag: string, next: string | undefined) => {
+    if (!next) throw new Error(`${flag} requires a value`);
+    return next;
+  };
+  const count = (flag: string, next: string | undefined, min: number) => {
+    const parsed = Number(value(flag, next));
+    if (!Number.isInteger(parsed) || parsed < min) throw new Error(`${flag} must be a whole number of at least ${min}`);
+    return parsed;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--rounds") options.rounds = count(arg, argv[++i], 0);
+    else if (arg === "--buyers") options.buyers = count(arg, argv[++i], 3);
+    else if (arg === "--seed") options.seed = count(arg, argv[++i], 0);
+    else if (arg === "--port") options.port = count(arg, argv[++i], 1);
+    else if (arg === "--rpc-url") options.rpcUrl = value(arg, argv[++i]);
+    else if (arg === "--artifact") options.artifact = path.resolve(value(arg, argv[++i]));
+    else if (arg === "--preset") options.preset = path.resolve(value(arg, argv[++i]));
+    else if (arg === "--env-file") options.envFile = path.resolve(value(arg, argv[++i]));
+    else if (arg === "--no-env") options.envFile = undefined;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return options;
+}
+
+/** Only the bytecode is taken from the build; `pnpm abi:check` keeps the SDK's ABI in step with it. */
+function loadBytecode(artifact: string): Hex {
+  if (!existsSync(artifact)) {
+    throw new Error(`Forge artifact not found at ${artifact}. Run \`forge build\` in packages/forge first.`);
+  }
+  const parsed = JSON.parse(readFileSync(artifact, "utf8")) as { bytecode?: { object?: string } | string };
+  const raw = typeof parsed.bytecode === "string" ? parsed.bytecode : parsed.bytecode?.object;
+  if (!raw || raw === "0x") throw new Error(`${artifact} has no bytecode.`);
+  return (raw.startsWith("0x") ? raw : `0x${raw}`) as Hex;
+}
+
+function plural(count: number | bigint, noun: string): string {
+  return `${count} ${noun}${count === 1 || count === 1n ? "" : "s"}`;
+}
+
+async function isListening(rpcUrl: string): Promise<boolean> {
+  try {
+    await createPublicClient({ transport: http(rpcUrl, { retryCount: 0 }) }).getChainId();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function startAnvil(port: number): Promise<ChildProcess> {
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  if (await isListening(rpcUrl)) {
+    throw new Error(`Something already answers on port ${port}. Stop it, or seed it with --rpc-url ${rpcUrl}.`);
+  }
+
+  const binary = process.env.ANVIL_BIN ?? "anvil";
+  const anvil = spawn(binary, ["--port", String(port), "--chain-id", String(foundry.id), "--silent"], {
+    stdio: ["ignore", "ignore", "inherit"]
+  });
+  const failed = new Promise<never>((_, reject) => {
+    anvil.once("error", (error) =>
+      reject(new Error(`Could not start ${binary}: ${error.message}. Install Foundry or set ANVIL_BIN.`))
+    );
+    anvil.once("exit", (code) => reject(new Error(`${binary} exited with code ${code} before it was ready.`)));
+  });
+  failed.catch(() => undefined);
+
+  for (let attempt = 0; attempt < 50; attempt++) {
+    await Promise.race([new Promise((resolve) => setTimeout(resolve, 200)), failed]);
+    if (await isListening(rpcUrl)) return anvil;
+  }
+  anvil.kill();
+  throw new Error(`${binary} did not answer on ${rpcUrl} within 10 seconds.`);
+}
+
+/** Sets `entries` in a dotenv file, keeping every other line as it was. */
+function upsertEnv(file: string, entries: Record<string, string>) {
+  const lines = existsSync(file) ? readFileSync(file, "utf8").split("\n") : [];
+  const pending = new Map(Object.entries(entries));
+  const updated = lines.map((line) => {
+    const key = line.match(/^\s*([A-Z0-9_]+)\s*=/)?.[1];
+    if (!key || !pending.has(key)) return line;
+    const next = `${key}=${pending.get(key)}`;
+    pending.delete(key);
+    return next;
+  });
+  while (updated.length > 0 && updated[updated.length - 1] === "") updated.pop();
+  for (const [key, value] of pending) updated.push(`${key}=${value}`);
+  writeFileSync(file, `${updated.join("\n")}\n`);
+}
+
+async function seed(options: Options, rpcUrl: string) {
+  const bytecode = loadBytecode(options.artifact);
+  const { params } = parsePreset(readFileSync(options.preset, "utf8"));
+  const random = createRandom(options.seed);
+  const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+  const transport = http(rpcUrl);
+  const publicClient = createPublicClient({ transport });
+  const chain = defineChain({
+    ...foundry,
+    id: await publicClient.getChainId(),
+    rpcUrls: { default: { http: [rpcUrl] } }
+  });
+  const testClient = createTestClient({ chain, mode: "anvil", transport });
+  const walletFor = (signer: HDAccount) => createWalletClient({ account: signer, chain, transport });
+
+  const deployer = walletFor(anvilAccount(DEPLOYER_INDEX));
+  const feeVault = anvilAccount(FEE_VAULT_INDEX).address;
+
+  // Deploy.s.sol: new KASRaffle(TICKET_PRICE_WEI, ROUND_DURATION_SEC, FEE_VAULT) from PRIVATE_KEY.
+  const deployHash = await deployer.deployContract({
+    abi: kasRaffleAbi,
+    bytecode,
+    args: [params.ticketPrice, params.roundDuration, feeVault]
+  });
+  const deployReceipt = await publicClient.waitForTransactionReceipt({ hash: deployHash });
+  const address = deployReceipt.contractAddress;
+  if (!address) throw new Error("Deployment receipt has no contract address.");
+  console.log(`KASRaffle deployed at ${address} (block ${deployReceipt.blockNumber})`);
+
+  const clientFor = (signer: HDAccount) =>
+    new KasRaffleClient({ address, publicClient, walletClient: walletFor(signer) });
+  const owner = clientFor(anvilAccount(DEPLOYER_INDEX));
+  const keeper = clientFor(anvilAccount(KEEPER_INDEX));
+  const send = async (pending: Promise<Hex>) => publicClient.waitForTransactionReceipt({ hash: await pending });
+
+  const current = await owner.getConfig();
+  if ((Object.keys(params) as (keyof ParamsArgs)[]).some((key) => String(params[key]) !== String(current[key]))) {
+    await send(owner.setParams(params));
+    console.log(`Applied preset ${path.relative(repoRoot, options.preset)}`);
+  }
+
+  const buyers = Array.from({ length: options.buyers }, (_, index) => anvilAccount(FIRST_BUYER_INDEX + index));
+  for (const buyer of buyers) await testClient.setBalance({ address: buyer.address, value: BUYER_BALANCE });
+  const buyerClients = new Map<Address, KasRaffleClient>(buyers.map((buyer) => [buyer.address, clientFor(buyer)]));
+
+  const advance = async (seconds: number) => {
+    await testClient.increaseTime({ seconds });
+    await testClient.mine({ blocks: 1 });
+  };
+  const pickBuyers = (count: number) =>
+    [...buyers]
+      .map((buyer) => ({ buyer, order: random() }))
+      .sort((a, b) => a.order - b.order)
+      .slice(0, count)
+      .map(({ buyer }) => buyer);
+
+  /** Spreads the purchases over the first 80% of the round so the feed and durations look lived-in. */
+  const buyRound = async (purchases: { buyer: HDAccount; tickets: bigint }[]) => {
+    const gap = Math.max(1, Math.floor((Number(params.roundDuration) * 0.8) / purchases.length));
+    for (const { buyer, tickets } of purchases) {
+      await send(buyerClients.get(buyer.address)!.buyTickets(tickets * params.ticketPrice));
+      await advance(between(1, gap));
+    }
+  };
+
+  const minTickets = Number(params.minTicketsToDraw);
+  const perAddressCap = Number(params.maxTicketsPerAddress < 60n ? params.maxTicketsPerAddress : 60n);
+
+  for (let index = 0; index < options.rounds; index++) {
+    const roundId = await owner.getCurrentRoundId();
+    // The first round always draws, so every screen has a winner to show.
+    const refund = index > 0 && minTickets > 1 && random() < REFUND_ROUND_CHANCE;
+
+    const purchases: { buyer: HDAccount; tickets: bigint }[] = [];
+    if (refund) {
+      for (const buyer of pickBuyers(between(1, Math.min(3, minTickets - 1)))) purchases.push({ buyer, tickets: 1n });
+    } else {
+      const held = new Map<Address, number>();
+      for (const buyer of pickBuyers(between(3, buyers.length))) {
+        const orders = random() < REPEAT_PURCHASE_CHANCE ? 2 : 1;
+        for (let order = 0; order < orders; order++) {
+          const wanted = random() < WHALE_CHANCE ? between(20, 60) : between(1, 10);
+          const tickets = Math.min(wanted, perAddressCap - (held.get(buyer.address) ?? 0));
+          if (tickets <= 0) continue;
+          held.set(buyer.address, (held.get(buyer.address) ?? 0) + tickets);
+          purchases.push({ buyer, tickets: BigInt(tickets) });
+        }
+      }
+      const total = purchases.reduce((sum, purchase) => sum + Number(purchase.tickets), 0);
+      if (total < minTickets) purchases.push({ buyer: buyers[0], tickets: BigInt(minTickets - total) });
+    }
+
+    await buyRound(purchases);
+    await advance(Number(params.roundDuration));
+    await send(keeper.closeRound(DRAW_GAS));
+
+    const { participants } = await owner.getRound(roundId);
+    // Small chunks so the draw and refunds take several transactions, like a keeper under a gas cap.
+    const steps = participants / 3n + 1n;
+    let calls = 0;
+    let status: RoundStatus;
+    do {
+      await send(refund ? keeper.finalizeRefunds(roundId, steps, DRAW_GAS) : keeper.finalizeRound(steps, DRAW_GAS));
+      calls++;
+      status = (await owner.getRound(roundId)).status;
+    } while (status !== RoundStatus.Closed);
+
+    const tickets = purchases.reduce((sum, purchase) => sum + purchase.tickets, 0n);
+    if (refund) {
+      console.log(
+        `Round #${roundId}: ${plural(tickets, "ticket")}, below the minimum; refunded in ${plural(calls, "call")}`
+      );
+    } else {
+      const winners = [...new Set((await owner.getWinners(roundId)).winners)];
+      const claimers = winners.filter(() => random() < CLAIM_CHANCE);
+      for (const winner of claimers) await send(buyerClients.get(winner)!.claim(roundId));
+      const { pot } = await owner.getRound(roundId);
+      console.log(
+        `Round #${roundId}: ${plural(participants, "player")}, ${plural(tickets, "ticket")}, ${formatEther(pot)} KAS pot; ` +
+          `drawn in ${plural(calls, "call")}, ${claimers.length}/${winners.length} winners claimed`
+      );
+    }
+    await advance(between(60, 3600));
+  }
+
+  // Leave a round open with its countdown running for the home page.
+  const live = pickBuyers(3).map((buyer) => ({ buyer, tickets: BigInt(between(1, 5)) }));
+  for (const { buyer, tickets } of live) {
+    await send(buyerClients.get(buyer.address)!.buyTickets(tickets * params.ticketPrice));
+  }
+  console.log(`Round #${await owner.getCurrentRoundId()} is open with ${live.length} players`);
+
+  return { address, deployBlock: deployReceipt.blockNumber, chainId: chain.id };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const rpcUrl = options.rpcUrl ?? `http://127.0.0.1:${options.port}`;
+  const anvil = options.rpcUrl ? undefined : await startAnvil(options.port);
+  const stop = () => anvil?.kill();
+
+  try {
+    const { address, deployBlock, chainId } = await seed(options, rpcUrl);
+
+    if (options.envFile) {
+      upsertEnv(options.envFile, {
+        NEXT_PUBLIC_CHAIN_ID_TESTNET: String(chainId),
+        NEXT_PUBLIC_RPC_URL_TESTNET: rpcUrl,
+        NEXT_PUBLIC_KASRAFFLE_TESTNET: address,
+        NEXT_PUBLIC_KASRAFFLE_DEPLOY_BLOCK_TESTNET: deployBlock.toString()
+      });
+      console.log(`Wrote the testnet settings to ${path.relative(repoRoot, options.envFile)}`);
+    }
+    console.log(
+      [
+        "",
+        `Owner:  ${anvilAccount(DEPLOYER_INDEX).address} (account #${DEPLOYER_INDEX})`,
+        `Keeper: ${anvilAccount(KEEPER_INDEX).address} (account #${KEEPER_INDEX})`,
+        `Buyers: accounts #${FIRST_BUYER_INDEX}–#${FIRST_BUYER_INDEX + options.buyers - 1}`,
+        `Import "${ANVIL_MNEMONIC}" into a wallet to act as any of them.`,
+        `Run the keeper with KEEPER_CONTRACT_ADDRESS=${address} KEEPER_RPC_URL=${rpcUrl} KEEPER_CHAIN_ID=${chainId}`
+      ].join("\n")
+    );
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  if (!anvil) return;
+  console.log(`\nAnvil is running on ${rpcUrl}. Press Ctrl+C to stop it; its state is not saved.`);
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+    anvil.once("exit", () => resolve());
+  });
+  stop();
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
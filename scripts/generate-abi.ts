@@ -0,0 +1,162 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+type AbiParameter = {
+  name?: string;
+  type: string;
+  internalType?: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+};
+
+type AbiItem = {
+  type: string;
+  name?: string;
+  stateMutability?: string;
+  anonymous?: boolean;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+};
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+const DEFAULT_ARTIFACT = path.join(repoRoot, "packages/forge/out/KASRaffle.sol/KASRaffle.json");
+
+// The frontend, keeper, indexer and CLI all import `kasRaffleAbi` from @kasraffle/sdk.
+const TARGET = path.join(repoRoot, "packages/sdk/src/abi.ts");
+
+const HEADER = [
+  "// This file is generated by scripts/generate-abi.ts from the Forge build output.",
+  "// Do not edit by hand: run `forge build` in packages/forge, then `pnpm abi:generate`."
+].join("\n");
+
+function parseArgs(argv: string[]) {
+  let check = false;
+  let artifact = DEFAULT_ARTIFACT;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--check") {
+      check = true;
+    } else if (arg === "--artifact") {
+      const value = argv[++i];
+      if (!value) throw new Error("--artifact requires a path");
+      artifact = path.resolve(value);
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return { check, artifact };
+}
+
+function normalizeParameter(param: AbiParameter): AbiParameter {
+  const out: AbiParameter = { name: param.name ?? "", type: param.type };
+  if (param.indexed !== undefined) out.indexed = param.indexed;
+  if (param.internalType !== undefined) out.internalType = param.internalType;
+  if (param.components) out.components = param.components.map(normalizeParameter);
+  return out;
+}
+
+// Fixed key order keeps the output stable across compiler versions, which
+// serialise ABI entries with alphabetised keys.
+function normalizeItem(item: AbiItem): AbiItem {
+  const out: AbiItem = { type: item.type };
+  if (item.name !== undefined) out.name = item.name;
+  if (item.stateMutability !== undefined) out.stateMutability = item.stateMutability;
+  if (item.anonymous !== undefined) out.anonymous = item.anonymous;
+  if (item.inputs) out.inputs = item.inputs.map(normalizeParameter);
+  if (item.outputs) out.outputs = item.outputs.map(normalizeParameter);
+  return out;
+}
+
+function signature(item: AbiItem): string {
+  const types = (item.inputs ?? []).map((input) => canonicalType(input)).join(",");
+  return item.name ? `${item.type} ${item.name}(${types})` : item.type;
+}
+
+function canonicalType(param: AbiParameter): string {
+  if (!param.components) return param.type;
+  const inner = param.components.map(canonicalType).join(",");
+  return `(${inner})${param.type.slice("tuple".length)}`;
+}
+
+function loadAbi(artifact: string): AbiItem[] {
+  if (!existsSync(artifact)) {
+    throw new Error(`Forge artifact not found at ${artifact}. Run \`forge build\` in packages/forge first.`);
+  }
+  const parsed = JSON.parse(readFileSync(artifact, "utf8")) as { abi?: AbiItem[] };
+  if (!Array.isArray(parsed.abi)) {
+    throw new Error(`${artifact} does not contain an "abi" array.`);
+  }
+  return parsed.abi.map(normalizeItem);
+}
+
+function render(abi: AbiItem[]): string {
+  return `${HEADER}\n\nimport type { Abi } from "viem";\n\nexport const kasRaffleAbi = ${JSON.stringify(
+    abi,
+    null,
+    2
+  )} as const satisfies Abi;\n`;
+}
+
+function extractAbi(source: string): AbiItem[] | undefined {
+  const match = source.match(/export const kasRaffleAbi = (\[[\s\S]*\]) as const/);
+  if (!match) return undefined;
+  try {
+    return (Function(`"use strict"; return (${match[1]});`)() as AbiItem[]).map(normalizeItem);
+  } catch {
+    return undefined;
+  }
+}
+
+function describeDrift(expected: AbiItem[], actual: AbiItem[] | undefined): string[] {
+  if (!actual) return ["  target could not be parsed; regenerate it"];
+
+  const expectedBySig = new Map(expected.map((item) => [signature(item), JSON.stringify(item)]));
+  const actualBySig = new Map(actual.map((item) => [signature(item), JSON.stringify(item)]));
+  const lines: string[] = [];
+
+  for (const [sig, json] of expectedBySig) {
+    if (!actualBySig.has(sig)) lines.push(`  missing in target: ${sig}`);
+    else if (actualBySig.get(sig) !== json) lines.push(`  differs: ${sig}`);
+  }
+  for (const sig of actualBySig.keys()) {
+    if (!expectedBySig.has(sig)) lines.push(`  not in contract: ${sig}`);
+  }
+  if (lines.length === 0) lines.push("  entries match but formatting differs; regenerate it");
+  return lines;
+}
+
+function main() {
+  const { check, artifact } = parseArgs(process.argv.slice(2));
+  const abi = loadAbi(artifact);
+  const output = render(abi);
+
+  const relative = path.relative(repoRoot, TARGET);
+  const current = existsSync(TARGET) ? readFileSync(TARGET, "utf8") : undefined;
+
+  if (check) {
+    if (current !== output) {
+      console.error(`ABI drift detected in ${relative}:`);
+      console.error(describeDrift(abi, current ? extractAbi(current) : undefined).join("\n"));
+      console.error("Run `pnpm abi:generate` to update the generated ABI.");
+      process.exit(1);
+    }
+    console.log("Generated ABI matches the contract build.");
+    return;
+  }
+
+  if (current === output) {
+    console.log(`${relative} is up to date`);
+    return;
+  }
+  writeFileSync(TARGET, output);
+  console.log(`Wrote ${relative} (${abi.length} entries)`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}